@@ -0,0 +1,819 @@
+import type { APIRequestContext, APIResponse } from '@playwright/test'
+import type { ClearedCookie } from './cookies.js'
+import type { TestMailFilter, TestMailMessage } from './mailbox.js'
+import type { OrgTestOrganization } from './plugins/organization.js'
+import type { ScenarioUser, TestScenario } from './scenario.js'
+import type { PurgeResult } from './test-run.js'
+import type { AnyTestDataPlugin, InferPluginData, InferPluginResults, Serialized, UntypedTestDataPlugins } from './types.js'
+import { parseSetCookieHeaders } from './cookies.js'
+import { createSignatureHeaders } from './signing.js'
+import { RUN_ID_HEADER, WORKER_HEADER } from './test-run.js'
+import { isCompatibleVersion, VERSION } from './version.js'
+
+interface CreateUserOptions<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins> {
+  email?: string
+  name?: string
+  /**
+   * Set a password for this user.
+   * Only needed if the test exercises the login form.
+   * Omit for faster tests that skip login entirely.
+   */
+  password?: string
+  /**
+   * Whether the email counts as verified. Defaults to true; set false
+   * to test the "please verify your email" gate.
+   */
+  emailVerified?: boolean
+  image?: string | null
+  /**
+   * Values for the app's `user.additionalFields`, validated against
+   * their configured types. Fields with `input: false` may be set too.
+   */
+  additionalFields?: Record<string, unknown>
+  /** Plugin-specific options, keyed by plugin ID */
+  pluginData?: InferPluginData<TPlugins>
+}
+
+/**
+ * A provider ID configured in the app: a `socialProviders` key or a
+ * genericOAuth `providerId`
+ */
+type OAuthProvider = 'google' | 'github' | 'apple' | 'microsoft' | 'facebook' | 'twitter' | 'discord' | 'gitlab' | (string & {})
+
+interface CreateOAuthUserOptions<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins> {
+  /**
+   * OAuth provider to simulate (e.g. 'google', or a genericOAuth
+   * provider such as 'keycloak'). Must be configured in the app.
+   */
+  provider: OAuthProvider
+  email?: string
+  name?: string
+  /** Provider account ID. Auto-generated if omitted. */
+  providerAccountId?: string
+  /**
+   * Tokens stored on the account, for code that calls the provider's
+   * API with them. Encrypted when `account.encryptOAuthTokens` is on.
+   */
+  accessToken?: string
+  refreshToken?: string
+  idToken?: string
+  /** Granted scopes. Arrays are stored comma-separated, like Better Auth does */
+  scope?: string | string[]
+  accessTokenExpiresAt?: Date
+  refreshTokenExpiresAt?: Date
+  /** Plugin-specific options, keyed by plugin ID */
+  pluginData?: InferPluginData<TPlugins>
+}
+
+interface TestUser<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins> {
+  id: string
+  email: string
+  name: string
+  emailVerified: boolean
+  image: string | null
+  createdAt: Date
+  updatedAt: Date
+  /**
+   * Every other column of the user record: the app's
+   * `user.additionalFields` and plugin fields such as `role`
+   */
+  additionalFields: Record<string, unknown>
+  session: { id: string, token: string }
+  /** Plugin-specific data, keyed by plugin ID */
+  plugins: InferPluginResults<TPlugins>
+}
+
+interface CreateUsersOptions {
+  /**
+   * Create a session (and cookies) for each user. Defaults to true.
+   * Disable for pure seed data that never signs in.
+   */
+  session?: boolean
+}
+
+/** A user from a batch; `session` is null when sessions were disabled */
+interface BatchTestUser<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins> extends Omit<TestUser<TPlugins>, 'session'> {
+  session: TestUser['session'] | null
+}
+
+interface TestOAuthAccount {
+  provider: OAuthProvider
+  providerAccountId: string
+  scope: string | null
+  accessTokenExpiresAt: Date | null
+  refreshTokenExpiresAt: Date | null
+}
+
+interface TestOAuthUser<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins> extends TestUser<TPlugins> {
+  account: TestOAuthAccount
+}
+
+/** A cookie in Playwright's `storageState` format */
+interface TestCookie {
+  name: string
+  value: string
+  domain: string
+  path: string
+  /** Unix time in seconds, or -1 for a session cookie */
+  expires: number
+  httpOnly: boolean
+  secure: boolean
+  sameSite: 'Strict' | 'Lax' | 'None'
+}
+
+/** Playwright `storageState` for a signed-in test user */
+interface TestStorageState {
+  cookies: TestCookie[]
+  origins: { origin: string, localStorage: { name: string, value: string }[] }[]
+}
+
+interface TestDataClientConfig {
+  /** Origin of the app, e.g. 'http://localhost:3000' */
+  baseURL: string
+  /** Secret that matches the server plugin's secret */
+  secret: string
+  /** Base path for Better Auth endpoints. Defaults to '/api/auth' */
+  basePath?: string
+  /**
+   * Extra domains to copy every session cookie onto, e.g. when the
+   * app and the auth server run on different hosts. Use a leading dot
+   * (`'.app.test'`) to include subdomains.
+   */
+  cookieDomains?: string[]
+  /**
+   * Run ID to tag created users with, so `/test-data/purge` can find
+   * them if the run crashes before cleanup. See `setupTestRun()`.
+   */
+  runId?: string
+  /** Playwright worker index to tag created users with */
+  worker?: string
+  /**
+   * Send requests through this Playwright request context instead of
+   * `fetch`, so they honour the project's proxy, `ignoreHTTPSErrors`
+   * and `extraHTTPHeaders` and show up in traces
+   */
+  request?: APIRequestContext
+}
+
+/** Target for `setSessionExpiry`: an explicit date or a named state */
+type SessionExpiryTarget = Date | 'expired' | 'refresh-window'
+
+interface SessionCookieUpdate {
+  /** Cookies (re-)issued by the server */
+  cookies: TestCookie[]
+  /** Cookies the server deleted */
+  clearedCookies: ClearedCookie[]
+}
+
+interface ActiveSessionOptions {
+  /**
+   * Token of the session the browser's session cookie holds, or `null`
+   * for none. When it is another session (a multi-session account), the
+   * session cookie and cookie cache are left alone. Leave it out when
+   * there is no browser to keep in step.
+   */
+  activeToken?: string | null
+}
+
+interface SessionExpiryUpdate extends SessionCookieUpdate {
+  session: { id: string, token: string, expiresAt: Date }
+}
+
+/** Session fields settable through `updateSession` */
+interface SessionFields {
+  activeOrganizationId?: string | null
+  activeTeamId?: string | null
+  /** Any other field the app's plugins add to the session */
+  [field: string]: unknown
+}
+
+interface SessionUpdate extends SessionCookieUpdate {
+  /** The updated session record */
+  session: { id: string, token: string, expiresAt: Date, [field: string]: unknown }
+}
+
+interface SessionActivation extends SessionCookieUpdate {
+  session: { id: string, token: string, expiresAt: Date }
+}
+
+interface SessionRevocation extends SessionCookieUpdate {
+  /** Number of sessions deleted */
+  revoked: number
+}
+
+interface CreateLinkOptions {
+  /** Where Better Auth redirects after handling the link */
+  callbackURL?: string
+  /**
+   * Token lifetime in seconds. Defaults to the app's setting.
+   * Zero or negative mints an already-expired token.
+   */
+  expiresIn?: number
+}
+
+interface PurgeOptions {
+  /** Delete the users created by this run */
+  runId?: string
+  /** Delete users created more than this many seconds ago */
+  olderThan?: number
+  /** Report what would be removed without deleting anything */
+  dryRun?: boolean
+}
+
+/** What `/test-data/capabilities` reports about the server */
+interface TestCapabilities {
+  /** better-auth-playwright version on the server. Missing on old servers */
+  version?: string
+  /** IDs of the installed test data plugins */
+  plugins: string[]
+  /** JSON Schema of each plugin's `pluginData` options, or null without one */
+  pluginOptions?: Record<string, Record<string, unknown> | null>
+  /** IDs of the app's Better Auth plugins */
+  detectedAuthPlugins: string[]
+  /** Whether a mailbox is configured */
+  mailbox: boolean
+}
+
+/** A link as Better Auth would email it */
+interface TestAuthLink {
+  url: string
+  token: string
+  expiresAt: Date
+}
+
+/** A user created by `seed`, with its OAuth account when one was linked */
+interface ScenarioTestUser<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins> extends TestUser<TPlugins> {
+  account: TestOAuthAccount | null
+}
+
+/** What `seed` created: users and organizations keyed by their aliases */
+interface SeededScenario<TUser, TUsers extends string = string, TOrgs extends string = string> {
+  users: Record<TUsers, TUser>
+  organizations: Record<TOrgs, Serialized<OrgTestOrganization>>
+}
+
+interface CreatedUser<TUser extends Omit<TestUser<any>, 'session'> = TestUser> {
+  user: TUser
+  /** Cookies the server set for the new user's session */
+  cookies: TestCookie[]
+}
+
+export type {
+  ActiveSessionOptions,
+  BatchTestUser,
+  CreatedUser,
+  CreateLinkOptions,
+  CreateOAuthUserOptions,
+  CreateUserOptions,
+  CreateUsersOptions,
+  OAuthProvider,
+  PurgeOptions,
+  ScenarioTestUser,
+  SeededScenario,
+  SessionActivation,
+  SessionCookieUpdate,
+  SessionExpiryTarget,
+  SessionExpiryUpdate,
+  SessionFields,
+  SessionRevocation,
+  SessionUpdate,
+  TestAuthLink,
+  TestCapabilities,
+  TestCookie,
+  TestDataClientConfig,
+  TestOAuthAccount,
+  TestOAuthUser,
+  TestStorageState,
+  TestUser,
+}
+
+// A Playwright response as a fetch Response, so both transports are
+// handled alike
+async function toResponse(res: APIResponse): Promise<Response> {
+  const headers = new Headers()
+  for (const { name, value } of res.headersArray())
+    headers.append(name, value)
+  const status = res.status()
+  const body = status === 204 || status === 205 || status === 304 ? null : await res.body()
+  return new Response(body, { status, statusText: res.statusText(), headers })
+}
+
+// User record as returned by the server (dates serialized)
+interface UserRecord {
+  id: string
+  email: string
+  name: string
+  emailVerified: boolean
+  image?: string | null
+  createdAt: string
+  updatedAt: string
+  [field: string]: unknown
+}
+
+type TestUserRecord = Omit<TestUser<any>, 'session' | 'plugins'>
+
+function toTestUserRecord(record: UserRecord): TestUserRecord {
+  const { id, email, name, emailVerified, image, createdAt, updatedAt, ...additionalFields } = record
+  return {
+    id,
+    email,
+    name,
+    emailVerified,
+    image: image ?? null,
+    createdAt: new Date(createdAt),
+    updatedAt: new Date(updatedAt),
+    additionalFields,
+  }
+}
+
+/**
+ * Low-level client for the `testPlugin()` endpoints. Shared by the
+ * Playwright fixtures and the standalone storageState helper; it
+ * never touches a browser context.
+ *
+ * `TPlugins` types `pluginData` and the returned users' `plugins`
+ * after the server's test data plugins.
+ */
+// eslint-disable-next-line ts/explicit-function-return-type
+export function createTestDataClient<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins>(config: TestDataClientConfig) {
+  const basePath = config.basePath ?? '/api/auth'
+  const origin = config.baseURL.replace(/\/+$/, '')
+
+  // Every request is HMAC-signed over its method, path and body, so the
+  // secret itself never goes over the wire
+  async function send(method: 'GET' | 'POST', path: string, body?: unknown): Promise<Response> {
+    const url = new URL(`${origin}${basePath}${path}`)
+    const payload = body === undefined ? '' : JSON.stringify(body)
+    const headers: Record<string, string> = await createSignatureHeaders(config.secret, {
+      method,
+      path: url.pathname + url.search,
+      body: payload,
+    })
+    if (body !== undefined)
+      headers['Content-Type'] = 'application/json'
+    if (config.runId)
+      headers[RUN_ID_HEADER] = config.runId
+    if (config.worker)
+      headers[WORKER_HEADER] = config.worker
+    if (config.request) {
+      // The context's jar collects the session cookies test-data
+      // responses set; an explicit Cookie header keeps Playwright from
+      // sending them. Better Auth checks the Origin of requests with one.
+      return toResponse(await config.request.fetch(url.toString(), {
+        method,
+        headers: { ...headers, Cookie: '', Origin: url.origin },
+        data: body === undefined ? undefined : payload,
+      }))
+    }
+    return fetch(url.toString(), {
+      method,
+      headers,
+      body: body === undefined ? undefined : payload,
+    })
+  }
+
+  // Resolve cookie defaults (host, path) against the endpoint that set them
+  function parseCookies(setCookie: string[], path: string): SessionCookieUpdate {
+    const { cookies, cleared } = parseSetCookieHeaders(setCookie, {
+      url: `${origin}${basePath}${path}`,
+      domains: config.cookieDomains,
+    })
+    return { cookies, clearedCookies: cleared }
+  }
+
+  async function createLink(
+    path: string,
+    method: string,
+    email: string,
+    options: CreateLinkOptions,
+  ): Promise<TestAuthLink> {
+    const res = await send('POST', path, { email, ...options })
+    if (!res.ok) {
+      const error = await res.text()
+      throw new Error(
+        `better-auth-playwright: ${method} failed (${res.status}): ${error}`,
+      )
+    }
+    const data = (await res.json()) as { url: string, token: string, expiresAt: string }
+    return { ...data, expiresAt: new Date(data.expiresAt) }
+  }
+
+  async function getCapabilities(): Promise<TestCapabilities> {
+    const res = await send('GET', '/test-data/capabilities')
+    if (!res.ok) {
+      const error = await res.text()
+      throw new Error(
+        `better-auth-playwright: capabilities request failed (${res.status}): ${error}`,
+      )
+    }
+    return (await res.json()) as TestCapabilities
+  }
+
+  return {
+    capabilities: getCapabilities,
+
+    /**
+     * Throw if the server runs a better-auth-playwright version this
+     * client can't talk to. A server that can't be reached passes —
+     * the next real request reports that — and one too old to report
+     * its version only logs a warning.
+     */
+    async checkServerVersion(): Promise<void> {
+      let capabilities: TestCapabilities
+      try {
+        capabilities = await getCapabilities()
+      }
+      catch {
+        return
+      }
+      if (!capabilities.version) {
+        console.warn(
+          `[better-auth-playwright] the server does not report its version; `
+          + `update better-auth-playwright in the app to ${VERSION}`,
+        )
+        return
+      }
+      if (!isCompatibleVersion(VERSION, capabilities.version)) {
+        throw new Error(
+          `better-auth-playwright: version mismatch — the tests use ${VERSION} but the server runs `
+          + `${capabilities.version}. Install the same version in the app and the tests.`,
+        )
+      }
+    },
+
+    async createUser(options: CreateUserOptions<TPlugins> = {}): Promise<CreatedUser<TestUser<TPlugins>>> {
+      const email
+        = options.email
+          ?? `test-${crypto.randomUUID().slice(0, 8)}@test.local`
+
+      const res = await send('POST', '/test-data/user', {
+        email,
+        name: options.name,
+        password: options.password,
+        emailVerified: options.emailVerified,
+        image: options.image,
+        additionalFields: options.additionalFields,
+        pluginData: options.pluginData,
+      })
+
+      if (!res.ok) {
+        const error = await res.text()
+        throw new Error(
+          `better-auth-playwright: createUser failed (${res.status}): ${error}`,
+        )
+      }
+
+      const data = (await res.json()) as {
+        user: UserRecord
+        session: { id: string, token: string }
+        plugins: InferPluginResults<TPlugins>
+      }
+
+      return {
+        user: {
+          ...toTestUserRecord(data.user),
+          session: data.session,
+          plugins: data.plugins,
+        },
+        cookies: parseCookies(res.headers.getSetCookie(), '/test-data/user').cookies,
+      }
+    },
+
+    async createUsers(
+      input: number | CreateUserOptions<TPlugins>[],
+      options: CreateUsersOptions = {},
+    ): Promise<CreatedUser<BatchTestUser<TPlugins>>[]> {
+      const users = typeof input === 'number'
+        ? Array.from({ length: input }, () => ({}) as CreateUserOptions<TPlugins>)
+        : input
+
+      const res = await send('POST', '/test-data/users', {
+        users: users.map(user => ({
+          email: user.email ?? `test-${crypto.randomUUID().slice(0, 8)}@test.local`,
+          name: user.name,
+          password: user.password,
+          emailVerified: user.emailVerified,
+          image: user.image,
+          additionalFields: user.additionalFields,
+          pluginData: user.pluginData,
+        })),
+        session: options.session,
+      })
+
+      if (!res.ok) {
+        const error = await res.text()
+        throw new Error(
+          `better-auth-playwright: createUsers failed (${res.status}): ${error}`,
+        )
+      }
+
+      const data = (await res.json()) as {
+        users: {
+          user: UserRecord
+          session: { id: string, token: string } | null
+          plugins: InferPluginResults<TPlugins>
+          setCookie: string[]
+        }[]
+      }
+
+      return data.users.map(entry => ({
+        user: {
+          ...toTestUserRecord(entry.user),
+          session: entry.session,
+          plugins: entry.plugins,
+        },
+        cookies: parseCookies(entry.setCookie, '/test-data/users').cookies,
+      }))
+    },
+
+    async createOAuthUser(options: CreateOAuthUserOptions<TPlugins>): Promise<CreatedUser<TestOAuthUser<TPlugins>>> {
+      const email
+        = options.email
+          ?? `test-oauth-${crypto.randomUUID().slice(0, 8)}@test.local`
+
+      const res = await send('POST', '/test-data/oauth-user', {
+        email,
+        name: options.name,
+        provider: options.provider,
+        providerAccountId: options.providerAccountId,
+        accessToken: options.accessToken,
+        refreshToken: options.refreshToken,
+        idToken: options.idToken,
+        scope: options.scope,
+        accessTokenExpiresAt: options.accessTokenExpiresAt?.toISOString(),
+        refreshTokenExpiresAt: options.refreshTokenExpiresAt?.toISOString(),
+        pluginData: options.pluginData,
+      })
+
+      if (!res.ok) {
+        const error = await res.text()
+        throw new Error(
+          `better-auth-playwright: createOAuthUser failed (${res.status}): ${error}`,
+        )
+      }
+
+      const data = (await res.json()) as {
+        user: UserRecord
+        session: { id: string, token: string }
+        account: Serialized<TestOAuthAccount>
+        plugins: InferPluginResults<TPlugins>
+      }
+      const { accessTokenExpiresAt, refreshTokenExpiresAt } = data.account
+
+      return {
+        user: {
+          ...toTestUserRecord(data.user),
+          session: data.session,
+          account: {
+            ...data.account,
+            accessTokenExpiresAt: accessTokenExpiresAt ? new Date(accessTokenExpiresAt) : null,
+            refreshTokenExpiresAt: refreshTokenExpiresAt ? new Date(refreshTokenExpiresAt) : null,
+          },
+          plugins: data.plugins,
+        },
+        cookies: parseCookies(res.headers.getSetCookie(), '/test-data/oauth-user').cookies,
+      }
+    },
+
+    /**
+     * Create every user and organization of a scenario in one request,
+     * members before the owners of their organizations. Users without
+     * an email get a generated one.
+     */
+    async seed<TUsers extends string = never, TOrgs extends string = never>(
+      scenario: TestScenario<TPlugins, TUsers, TOrgs>,
+    ): Promise<SeededScenario<CreatedUser<ScenarioTestUser<TPlugins>>, TUsers, TOrgs>> {
+      const users = Object.entries(scenario.users ?? {}) as [string, ScenarioUser<TPlugins>][]
+      const res = await send('POST', '/test-data/scenario', {
+        users: Object.fromEntries(users.map(([alias, { oauth, ...user }]) => [alias, {
+          ...user,
+          email: user.email
+            ?? `test-${alias.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${crypto.randomUUID().slice(0, 8)}@test.local`,
+          oauth: oauth && {
+            ...oauth,
+            accessTokenExpiresAt: oauth.accessTokenExpiresAt && new Date(oauth.accessTokenExpiresAt).toISOString(),
+            refreshTokenExpiresAt: oauth.refreshTokenExpiresAt && new Date(oauth.refreshTokenExpiresAt).toISOString(),
+          },
+        }])),
+        organizations: scenario.organizations,
+      })
+
+      if (!res.ok) {
+        const error = await res.text()
+        throw new Error(
+          `better-auth-playwright: seed failed (${res.status}): ${error}`,
+        )
+      }
+
+      const data = (await res.json()) as {
+        users: Record<TUsers, {
+          user: UserRecord
+          session: { id: string, token: string }
+          account: Serialized<TestOAuthAccount> | null
+          plugins: InferPluginResults<TPlugins>
+          setCookie: string[]
+        }>
+        organizations: Record<TOrgs, Serialized<OrgTestOrganization>>
+      }
+
+      const created = {} as Record<TUsers, CreatedUser<ScenarioTestUser<TPlugins>>>
+      for (const [alias, entry] of Object.entries(data.users) as [TUsers, typeof data.users[TUsers]][]) {
+        const account = entry.account && {
+          ...entry.account,
+          accessTokenExpiresAt: entry.account.accessTokenExpiresAt ? new Date(entry.account.accessTokenExpiresAt) : null,
+          refreshTokenExpiresAt: entry.account.refreshTokenExpiresAt ? new Date(entry.account.refreshTokenExpiresAt) : null,
+        }
+        created[alias] = {
+          user: {
+            ...toTestUserRecord(entry.user),
+            session: entry.session,
+            account,
+            plugins: entry.plugins,
+          },
+          cookies: parseCookies(entry.setCookie, '/test-data/scenario').cookies,
+        }
+      }
+      return { users: created, organizations: data.organizations }
+    },
+
+    /**
+     * Delete a test user by email. Never throws — failures are logged,
+     * so one bad cleanup doesn't fail the test or block the others.
+     * With `ignoreMissing`, a user that doesn't exist isn't reported.
+     */
+    async deleteUser(email: string, options: { ignoreMissing?: boolean } = {}): Promise<void> {
+      try {
+        const res = await send('POST', '/test-data/delete-user', { email })
+        if (res.status === 404 && options.ignoreMissing) {
+          return
+        }
+        if (!res.ok) {
+          console.warn(
+            `[better-auth-playwright] cleanup failed for ${email}: `
+            + `${res.status} ${res.statusText}`,
+          )
+        }
+        else {
+          const body = await res.json() as { success: boolean, warnings?: string[] }
+          if (body.warnings?.length) {
+            console.warn(
+              `[better-auth-playwright] cleanup warnings for ${email}:`,
+              body.warnings.join('; '),
+            )
+          }
+        }
+      }
+      catch (err) {
+        console.warn(
+          `[better-auth-playwright] cleanup failed for ${email}:`,
+          err instanceof Error ? err.message : err,
+        )
+      }
+    },
+
+    /**
+     * Delete every test user matching the filters, e.g. those left
+     * behind by a crashed run. Pass `runId`, `olderThan`, or both.
+     */
+    async purge(options: PurgeOptions): Promise<PurgeResult> {
+      const res = await send('POST', '/test-data/purge', options)
+      if (!res.ok) {
+        const error = await res.text()
+        throw new Error(
+          `better-auth-playwright: purge failed (${res.status}): ${error}`,
+        )
+      }
+      return (await res.json()) as PurgeResult
+    },
+
+    async createVerificationLink(email: string, options: CreateLinkOptions = {}): Promise<TestAuthLink> {
+      return createLink('/test-data/verification-link', 'createVerificationLink', email, options)
+    },
+
+    async createPasswordResetLink(email: string, options: CreateLinkOptions = {}): Promise<TestAuthLink> {
+      return createLink('/test-data/password-reset-link', 'createPasswordResetLink', email, options)
+    },
+
+    async setSessionExpiry(
+      token: string,
+      target: SessionExpiryTarget,
+      options: ActiveSessionOptions = {},
+    ): Promise<SessionExpiryUpdate> {
+      const res = await send(
+        'POST',
+        '/test-data/session/expiry',
+        target instanceof Date
+          ? { token, expiresAt: target.toISOString(), ...options }
+          : { token, state: target, ...options },
+      )
+      if (!res.ok) {
+        const error = await res.text()
+        throw new Error(
+          `better-auth-playwright: setSessionExpiry failed (${res.status}): ${error}`,
+        )
+      }
+      const data = (await res.json()) as {
+        session: { id: string, token: string, expiresAt: string }
+      }
+      return {
+        session: { ...data.session, expiresAt: new Date(data.session.expiresAt) },
+        ...parseCookies(res.headers.getSetCookie(), '/test-data/session/expiry'),
+      }
+    },
+
+    async updateSession(
+      token: string,
+      fields: SessionFields,
+      options: ActiveSessionOptions = {},
+    ): Promise<SessionUpdate> {
+      const res = await send('POST', '/test-data/session/update', { token, fields, ...options })
+      if (!res.ok) {
+        const error = await res.text()
+        throw new Error(
+          `better-auth-playwright: updateSession failed (${res.status}): ${error}`,
+        )
+      }
+      const data = (await res.json()) as {
+        session: { id: string, token: string, expiresAt: string, [field: string]: unknown }
+      }
+      return {
+        session: { ...data.session, expiresAt: new Date(data.session.expiresAt) },
+        ...parseCookies(res.headers.getSetCookie(), '/test-data/session/update'),
+      }
+    },
+
+    async activateSession(token: string): Promise<SessionActivation> {
+      const res = await send('POST', '/test-data/session/activate', { token })
+      if (!res.ok) {
+        const error = await res.text()
+        throw new Error(
+          `better-auth-playwright: activateSession failed (${res.status}): ${error}`,
+        )
+      }
+      const data = (await res.json()) as {
+        session: { id: string, token: string, expiresAt: string }
+      }
+      return {
+        session: { ...data.session, expiresAt: new Date(data.session.expiresAt) },
+        ...parseCookies(res.headers.getSetCookie(), '/test-data/session/activate'),
+      }
+    },
+
+    async revokeSession(token: string, options: ActiveSessionOptions = {}): Promise<SessionRevocation> {
+      const res = await send('POST', '/test-data/session/revoke', { token, ...options })
+      if (!res.ok) {
+        const error = await res.text()
+        throw new Error(
+          `better-auth-playwright: revokeSession failed (${res.status}): ${error}`,
+        )
+      }
+      const data = (await res.json()) as { revoked: number }
+      return { revoked: data.revoked, ...parseCookies(res.headers.getSetCookie(), '/test-data/session/revoke') }
+    },
+
+    async revokeAllSessions(userId: string, options: ActiveSessionOptions = {}): Promise<SessionRevocation> {
+      const res = await send('POST', '/test-data/session/revoke-all', { userId, ...options })
+      if (!res.ok) {
+        const error = await res.text()
+        throw new Error(
+          `better-auth-playwright: revokeAllSessions failed (${res.status}): ${error}`,
+        )
+      }
+      const data = (await res.json()) as { revoked: number }
+      return { revoked: data.revoked, ...parseCookies(res.headers.getSetCookie(), '/test-data/session/revoke-all') }
+    },
+
+    async mailboxMessages(filter: TestMailFilter = {}): Promise<TestMailMessage[]> {
+      const params = new URLSearchParams()
+      if (filter.to)
+        params.set('to', filter.to)
+      if (filter.type)
+        params.set('type', filter.type)
+      if (filter.after !== undefined)
+        params.set('after', String(filter.after))
+
+      const res = await send('GET', `/test-data/mailbox?${params.toString()}`)
+      if (!res.ok) {
+        const error = await res.text()
+        throw new Error(
+          `better-auth-playwright: mailbox request failed (${res.status}): ${error}`,
+        )
+      }
+      const data = (await res.json()) as { messages: TestMailMessage[] }
+      return data.messages
+    },
+
+    async clearMailbox(to?: string): Promise<void> {
+      const res = await send('POST', '/test-data/mailbox/clear', { to })
+      if (!res.ok) {
+        const error = await res.text()
+        throw new Error(
+          `better-auth-playwright: mailbox clear failed (${res.status}): ${error}`,
+        )
+      }
+    },
+  }
+}
+
+export type TestDataClient<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins>
+  = ReturnType<typeof createTestDataClient<TPlugins>>
@@ -0,0 +1,128 @@
+import type { TestCookie } from './client.js'
+
+/** A cookie a Set-Cookie header deletes, as a `clearCookies` filter */
+export interface ClearedCookie {
+  name: string
+  domain: string
+  path: string
+}
+
+export interface ParseSetCookieOptions {
+  /** URL of the request the headers came from; sets defaults for domain and path */
+  url: string
+  /**
+   * Extra domains every cookie is copied onto, in Playwright's format:
+   * `'app.test'` for a host-only cookie, `'.app.test'` to include
+   * subdomains. Use when the app and the auth server live on
+   * different hosts.
+   */
+  domains?: string[]
+  /** Current time in ms, for resolving Max-Age. Defaults to now */
+  now?: number
+}
+
+export interface ParsedSetCookies {
+  cookies: TestCookie[]
+  cleared: ClearedCookie[]
+}
+
+// RFC 6265 §5.1.4: the request path up to, not including, its last '/'
+function defaultPath(url: URL): string {
+  const path = url.pathname
+  if (!path.startsWith('/') || path.lastIndexOf('/') === 0)
+    return '/'
+  return path.slice(0, path.lastIndexOf('/'))
+}
+
+function parseSameSite(value: string | undefined): TestCookie['sameSite'] {
+  switch (value?.toLowerCase()) {
+    case 'strict':
+      return 'Strict'
+    case 'none':
+      return 'None'
+    default:
+      return 'Lax'
+  }
+}
+
+/**
+ * Parse Set-Cookie header values into Playwright cookies, honouring
+ * `Domain`, `Path`, `Expires`, `Max-Age`, `SameSite`, `Secure` and
+ * `HttpOnly`. Cookies that are expired on arrival (`Max-Age=0` or a
+ * past `Expires`) are returned in `cleared` instead. An empty value is
+ * a cookie like any other (RFC 6265), not a deletion.
+ */
+export function parseSetCookieHeaders(
+  headers: string[],
+  options: ParseSetCookieOptions,
+): ParsedSetCookies {
+  const url = new URL(options.url)
+  const now = options.now ?? Date.now()
+  const cookies: TestCookie[] = []
+  const cleared: ClearedCookie[] = []
+
+  for (const header of headers) {
+    const [nameValue = '', ...parts] = header.split(';')
+    const separator = nameValue.indexOf('=')
+    if (separator <= 0)
+      continue
+    const name = nameValue.slice(0, separator).trim()
+    const value = nameValue.slice(separator + 1).trim()
+    if (!name)
+      continue
+
+    const attributes = new Map<string, string>()
+    for (const part of parts) {
+      const index = part.indexOf('=')
+      const key = (index === -1 ? part : part.slice(0, index)).trim().toLowerCase()
+      const attrValue = index === -1 ? '' : part.slice(index + 1).trim()
+      // The last occurrence of an attribute wins (RFC 6265 §5.3)
+      if (key)
+        attributes.set(key, attrValue)
+    }
+
+    // A Domain attribute makes the cookie apply to subdomains, which
+    // Playwright expresses with a leading dot; without one it is host-only
+    const domainAttr = attributes.get('domain')?.replace(/^\./, '').toLowerCase()
+    const domain = domainAttr ? `.${domainAttr}` : url.hostname
+
+    const pathAttr = attributes.get('path')
+    const path = pathAttr?.startsWith('/') ? pathAttr : defaultPath(url)
+
+    // Max-Age takes precedence over Expires
+    let expires = -1
+    const maxAge = attributes.get('max-age')
+    const expiresAttr = attributes.get('expires')
+    if (maxAge !== undefined && /^-?\d+$/.test(maxAge)) {
+      expires = Math.floor(now / 1000) + Number(maxAge)
+    }
+    else if (expiresAttr) {
+      const time = Date.parse(expiresAttr)
+      if (!Number.isNaN(time))
+        expires = Math.floor(time / 1000)
+    }
+
+    const domains = [domain, ...options.domains ?? []]
+    const deleted = expires !== -1 && expires <= Math.floor(now / 1000)
+    if (deleted) {
+      for (const d of domains)
+        cleared.push({ name, domain: d, path })
+      continue
+    }
+
+    for (const d of domains) {
+      cookies.push({
+        name,
+        value,
+        domain: d,
+        path,
+        expires,
+        httpOnly: attributes.has('httponly'),
+        secure: attributes.has('secure'),
+        sameSite: parseSameSite(attributes.get('samesite')),
+      })
+    }
+  }
+
+  return { cookies, cleared }
+}
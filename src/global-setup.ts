@@ -0,0 +1,81 @@
+import type { PurgeOptions, TestDataClientConfig } from './client.js'
+import type { PurgeResult } from './test-run.js'
+import { createTestDataClient } from './client.js'
+import { RUN_ID_ENV } from './test-run.js'
+
+type TestRunConfig = Omit<TestDataClientConfig, 'runId' | 'worker'>
+
+interface SetupTestRunOptions extends TestRunConfig {
+  /** Run ID to use. Defaults to a random one */
+  runId?: string
+  /**
+   * Before the run starts, delete test users older than this many
+   * seconds — leftovers from runs that crashed before cleanup.
+   */
+  purgeOlderThan?: number
+}
+
+interface TestRunSetup {
+  runId: string
+  /** Result of the stale-user purge, or null if it was not requested */
+  purged: PurgeResult | null
+}
+
+interface TeardownTestRunOptions extends TestRunConfig {
+  /** Run to clean up. Defaults to the one `setupTestRun()` started */
+  runId?: string
+}
+
+export type { SetupTestRunOptions, TeardownTestRunOptions, TestRunSetup }
+
+/**
+ * Start a tagged test run from Playwright's `globalSetup`. The run ID
+ * is stored in an environment variable the workers inherit, and every
+ * user the fixtures create is tagged with it, so `teardownTestRun()`
+ * (or a later `purgeOlderThan`) can remove users a crashed test left.
+ *
+ * @example
+ * ```ts
+ * // e2e/global-setup.ts
+ * import { setupTestRun } from 'better-auth-playwright'
+ *
+ * export default async function globalSetup() {
+ *   await setupTestRun({
+ *     baseURL: 'http://localhost:3000',
+ *     secret: process.env.TEST_DATA_SECRET!,
+ *     purgeOlderThan: 60 * 60,
+ *   })
+ * }
+ * ```
+ */
+export async function setupTestRun(options: SetupTestRunOptions): Promise<TestRunSetup> {
+  const runId = options.runId ?? crypto.randomUUID()
+  // eslint-disable-next-line node/prefer-global/process
+  process.env[RUN_ID_ENV] = runId
+
+  const purged = options.purgeOlderThan === undefined
+    ? null
+    : await createTestDataClient(options).purge({ olderThan: options.purgeOlderThan })
+  return { runId, purged }
+}
+
+/**
+ * Delete every user the run created, from Playwright's
+ * `globalTeardown`. Returns null when no run was started.
+ */
+export async function teardownTestRun(options: TeardownTestRunOptions): Promise<PurgeResult | null> {
+  // eslint-disable-next-line node/prefer-global/process
+  const runId = options.runId ?? process.env[RUN_ID_ENV]
+  if (!runId)
+    return null
+  return createTestDataClient(options).purge({ runId })
+}
+
+/**
+ * Delete test users by run ID or age outside of a run, e.g. from a
+ * scheduled CI job against a shared environment.
+ */
+export async function purgeTestUsers(options: TestRunConfig & PurgeOptions): Promise<PurgeResult> {
+  const { runId, olderThan, dryRun, ...config } = options
+  return createTestDataClient(config).purge({ runId, olderThan, dryRun })
+}
@@ -1,11 +1,103 @@
+export type {
+  BatchTestUser,
+  CreateUsersOptions,
+  ScenarioTestUser,
+  SeededScenario,
+  TestCookie,
+  TestStorageState,
+} from './client.js'
+
+export type { PurgeOptions, TestCapabilities } from './client.js'
+
+export {
+  purgeTestUsers,
+  setupTestRun,
+  type SetupTestRunOptions,
+  teardownTestRun,
+  type TeardownTestRunOptions,
+  type TestRunSetup,
+} from './global-setup.js'
+
+export { loadScenario, type LoadScenarioOptions } from './load-scenario.js'
+
+export type { TestMailFilter, TestMailMessage, TestMailType } from './mailbox.js'
+
+export {
+  type MockOIDCBehavior,
+  type MockOIDCClient,
+  type MockOIDCEndpoint,
+  type MockOIDCError,
+  type MockOIDCIdentity,
+  type MockOIDCProvider,
+  type MockOIDCProviderOptions,
+  startMockOIDCProvider,
+} from './oidc-provider.js'
+
 export {
+  type CreateAnonymousUserOptions,
+  type CreateLinkOptions,
+  type CreatePhoneNumberUserOptions,
   createTestFixtures,
+  type CreateUsernameUserOptions,
   type CreateUserOptions,
+  type RequestAuth,
+  type RequestAuthOptions,
+  type SessionFields,
+  type TestApiAuth,
   type TestAuth,
   type TestAuthFixtures,
+  type TestAuthLink,
+  type TestAuthMailbox,
+  type TestAuthOIDC,
+  type TestAuthWorkerFixtures,
+  type TestSession,
+  type TestSessionExpiry,
   type TestUser,
+  type TestWithAuth,
+  type UserRequestContext,
+  type WaitForMessageOptions,
+  type WorkerAuth,
+  type WorkerTestUser,
 } from './playwright.js'
 
-export type { CreateUserContext, TestDataPlugin } from './types.js'
+export type {
+  ScenarioInvitation,
+  ScenarioOAuthAccount,
+  ScenarioOrganization,
+  ScenarioRole,
+  ScenarioUser,
+  TestScenario,
+} from './scenario.js'
+
+export {
+  deleteTestUser,
+  type SavedStorageState,
+  saveStorageState,
+  type SaveStorageStateOptions,
+} from './storage-state.js'
+
+export type { PurgeResult, TestUserTag } from './test-run.js'
+
+export { generateTOTP, type TOTPOptions } from './totp.js'
+
+export type {
+  AnyTestDataPlugin,
+  CreateUserContext,
+  InferPluginData,
+  InferPluginResults,
+  InferTestDataPlugins,
+  Serialized,
+  TestDataPlugin,
+  TestDataPluginSource,
+} from './types.js'
+
+export { VERSION } from './version.js'
+
+export {
+  createVirtualAuthenticator,
+  type VirtualAuthenticator,
+  type VirtualAuthenticatorOptions,
+  type VirtualPasskey,
+} from './webauthn.js'
 
 export { expect } from '@playwright/test'
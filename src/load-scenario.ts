@@ -0,0 +1,65 @@
+import type { TestScenario } from './scenario.js'
+import type { AnyTestDataPlugin, UntypedTestDataPlugins } from './types.js'
+import { readFile } from 'node:fs/promises'
+import { extname } from 'node:path'
+
+interface LoadScenarioOptions {
+  /**
+   * Parse the file's text. Defaults to `JSON.parse` for `.json` files
+   * and the `yaml` package's `parse` for `.yaml` / `.yml` files.
+   */
+  parse?: (text: string) => unknown
+}
+
+export type { LoadScenarioOptions }
+
+// Optional: only needed for YAML fixtures, so not a dependency
+async function importYaml(): Promise<{ parse: (text: string) => unknown }> {
+  const specifier = 'yaml'
+  try {
+    return await import(specifier) as { parse: (text: string) => unknown }
+  }
+  catch (err) {
+    throw new Error(
+      'better-auth-playwright: YAML scenarios need the "yaml" package. '
+      + 'Install it, or pass `parse` to use another parser.',
+      { cause: err },
+    )
+  }
+}
+
+/**
+ * Read a scenario for `auth.seed()` from a JSON or YAML fixture file.
+ * Dates (OAuth token expiries) may be given as ISO strings.
+ */
+export async function loadScenario<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins>(
+  path: string,
+  options: LoadScenarioOptions = {},
+): Promise<TestScenario<TPlugins>> {
+  const text = await readFile(path, 'utf8')
+  const extension = extname(path).toLowerCase()
+
+  let parse = options.parse
+  if (!parse) {
+    if (extension === '.json')
+      parse = JSON.parse
+    else if (extension === '.yaml' || extension === '.yml')
+      parse = (await importYaml()).parse
+    else
+      throw new Error(`better-auth-playwright: can't tell how to parse ${path}; pass \`parse\` for ${extension || 'extensionless'} files`)
+  }
+
+  let scenario: unknown
+  try {
+    scenario = parse(text)
+  }
+  catch (err) {
+    throw new Error(
+      `better-auth-playwright: invalid scenario file ${path}: ${err instanceof Error ? err.message : String(err)}`,
+      { cause: err },
+    )
+  }
+  if (typeof scenario !== 'object' || scenario === null || Array.isArray(scenario))
+    throw new Error(`better-auth-playwright: scenario file ${path} must contain an object with users and organizations`)
+  return scenario as TestScenario<TPlugins>
+}
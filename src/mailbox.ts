@@ -0,0 +1,164 @@
+export type TestMailType = 'verification-email' | 'password-reset' | 'magic-link' | 'email-otp'
+
+export interface TestMailMessage {
+  /** Monotonically increasing per mailbox */
+  id: number
+  type: TestMailType
+  /** Recipient address, lowercased */
+  to: string
+  /** Callback URL (verification, password reset, magic link) */
+  url: string | null
+  /** Token embedded in the URL */
+  token: string | null
+  /** One-time code (email OTP) */
+  otp: string | null
+  /** Email OTP purpose: 'sign-in', 'email-verification' or 'forget-password' */
+  otpType: string | null
+  /** ISO timestamp of when the message was captured */
+  createdAt: string
+}
+
+export interface TestMailFilter {
+  to?: string
+  type?: TestMailType
+  /** Only messages with an ID greater than this */
+  after?: number
+}
+
+interface TestMailboxOptions {
+  /**
+   * Maximum number of messages kept in memory.
+   * Oldest messages are dropped first. Defaults to 500.
+   */
+  maxMessages?: number
+}
+
+type Captured = Omit<TestMailMessage, 'id' | 'createdAt'>
+
+/**
+ * Wraps a Better Auth send callback: captures the message, then calls
+ * through to `send` (if given) with the original arguments.
+ */
+type MailWrapper<TShape> = <TData extends TShape, TRest extends unknown[]>(
+  send?: (data: TData, ...rest: TRest) => unknown,
+) => (data: TData, ...rest: TRest) => Promise<void>
+
+export interface TestMailbox {
+  /** Wrap `emailVerification.sendVerificationEmail` */
+  verificationEmail: MailWrapper<{ user: { email: string }, url: string, token: string }>
+
+  /** Wrap `emailAndPassword.sendResetPassword` */
+  passwordReset: MailWrapper<{ user: { email: string }, url: string, token: string }>
+
+  /** Wrap the `magicLink` plugin's `sendMagicLink` */
+  magicLink: MailWrapper<{ email: string, url: string, token: string }>
+
+  /** Wrap the `emailOTP` plugin's `sendVerificationOTP` */
+  emailOTP: MailWrapper<{ email: string, otp: string, type: string }>
+
+  /** Captured messages matching the filter, oldest first */
+  messages: (filter?: TestMailFilter) => TestMailMessage[]
+
+  /** Remove captured messages, optionally only those sent to `to` */
+  clear: (to?: string) => number
+}
+
+/**
+ * Create an in-memory mailbox that captures the emails Better Auth
+ * would send. Pass it to `testPlugin({ mailbox })` to expose it via
+ * `/test-data/mailbox` and wrap your send callbacks with it.
+ *
+ * @example
+ * ```ts
+ * const mailbox = createTestMailbox()
+ *
+ * export const auth = betterAuth({
+ *   emailVerification: {
+ *     sendVerificationEmail: mailbox.verificationEmail(sendEmail),
+ *   },
+ *   plugins: [testPlugin({ mailbox })],
+ * })
+ * ```
+ */
+export function createTestMailbox(options: TestMailboxOptions = {}): TestMailbox {
+  const maxMessages = options.maxMessages ?? 500
+  const store: TestMailMessage[] = []
+  let nextId = 1
+
+  function capture(message: Captured): void {
+    store.push({
+      ...message,
+      id: nextId++,
+      to: message.to.toLowerCase(),
+      createdAt: new Date().toISOString(),
+    })
+    if (store.length > maxMessages)
+      store.splice(0, store.length - maxMessages)
+  }
+
+  function wrap<TData, TRest extends unknown[]>(
+    toMessage: (data: TData) => Captured,
+    send?: (data: TData, ...rest: TRest) => unknown,
+  ): (data: TData, ...rest: TRest) => Promise<void> {
+    return async (data, ...rest) => {
+      capture(toMessage(data))
+      if (send)
+        await send(data, ...rest)
+    }
+  }
+
+  return {
+    verificationEmail: send => wrap(data => ({
+      type: 'verification-email',
+      to: data.user.email,
+      url: data.url,
+      token: data.token,
+      otp: null,
+      otpType: null,
+    }), send),
+
+    passwordReset: send => wrap(data => ({
+      type: 'password-reset',
+      to: data.user.email,
+      url: data.url,
+      token: data.token,
+      otp: null,
+      otpType: null,
+    }), send),
+
+    magicLink: send => wrap(data => ({
+      type: 'magic-link',
+      to: data.email,
+      url: data.url,
+      token: data.token,
+      otp: null,
+      otpType: null,
+    }), send),
+
+    emailOTP: send => wrap(data => ({
+      type: 'email-otp',
+      to: data.email,
+      url: null,
+      token: null,
+      otp: data.otp,
+      otpType: data.type,
+    }), send),
+
+    messages(filter = {}) {
+      const to = filter.to?.toLowerCase()
+      return store.filter(m =>
+        (to === undefined || m.to === to)
+        && (filter.type === undefined || m.type === filter.type)
+        && (filter.after === undefined || m.id > filter.after),
+      )
+    },
+
+    clear(to) {
+      const before = store.length
+      const address = to?.toLowerCase()
+      const kept = address === undefined ? [] : store.filter(m => m.to !== address)
+      store.splice(0, store.length, ...kept)
+      return before - store.length
+    },
+  }
+}
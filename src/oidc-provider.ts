@@ -0,0 +1,525 @@
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { Buffer } from 'node:buffer'
+import { createHash, timingSafeEqual, webcrypto } from 'node:crypto'
+import { createServer } from 'node:http'
+
+/**
+ * Cookie naming the scenario an authorization request belongs to. The
+ * fixtures set it on the provider's origin in the test's browser
+ * context, so parallel tests each get their own identity and errors.
+ */
+export const MOCK_OIDC_SCENARIO_COOKIE = 'better-auth-playwright-oidc'
+
+const CONTROL_PATH = '/__control/scenarios/'
+const CONTROL_SECRET_HEADER = 'x-mock-oidc-secret'
+
+/** Provider endpoints whose responses a scenario can turn into errors */
+export type MockOIDCEndpoint = 'authorize' | 'token' | 'userinfo'
+
+/** The user the provider signs in */
+export interface MockOIDCIdentity {
+  email: string
+  /** Subject identifier. Defaults to the email */
+  sub?: string
+  /** Defaults to the email's local part */
+  name?: string
+  picture?: string
+  /** Defaults to true */
+  emailVerified?: boolean
+  /** Extra claims for the ID token and userinfo */
+  claims?: Record<string, unknown>
+}
+
+export interface MockOIDCError {
+  /** OAuth error code, e.g. 'server_error' or 'invalid_grant' */
+  error: string
+  /** Sent as `error_description` */
+  description?: string
+  /**
+   * HTTP status of token and userinfo errors. Defaults to 400 for the
+   * token endpoint and 401 for userinfo. Authorize errors always
+   * redirect back to the client.
+   */
+  status?: number
+}
+
+/** How the provider treats sign-ins of one scenario */
+export interface MockOIDCBehavior {
+  /** Identity to sign in. Defaults to the provider's `defaultIdentity` */
+  identity?: MockOIDCIdentity
+  /** Redirect back with `error=access_denied`, as if the user declined */
+  denyConsent?: boolean
+  /**
+   * Leave the ID token out of the token response, so clients read the
+   * identity from userinfo instead
+   */
+  omitIdToken?: boolean
+  /** Respond to these endpoints with an error */
+  errors?: Partial<Record<MockOIDCEndpoint, MockOIDCError>>
+}
+
+export interface MockOIDCClient {
+  clientId: string
+  /** Checked at the token endpoint when set */
+  clientSecret?: string
+}
+
+export interface MockOIDCProviderOptions {
+  /** Port to listen on. Defaults to 4010; 0 picks a free port */
+  port?: number
+  /** Interface to listen on. Defaults to '127.0.0.1' */
+  host?: string
+  /**
+   * Secret the scenario control endpoint requires, so nothing else on
+   * the network can change who signs in. Required when `host` is not
+   * a loopback address.
+   */
+  controlSecret?: string
+  /**
+   * Registered clients. Without any, every client ID is accepted and
+   * secrets are not checked.
+   */
+  clients?: MockOIDCClient[]
+  /** Identity for sign-ins outside a scenario */
+  defaultIdentity?: MockOIDCIdentity
+  /** Lifetime of access and ID tokens in seconds. Defaults to 3600 */
+  tokenTTL?: number
+}
+
+export interface MockOIDCProvider {
+  /** Issuer URL, e.g. 'http://127.0.0.1:4010' */
+  issuer: string
+  /** Discovery document URL, for genericOAuth's `discoveryUrl` */
+  discoveryUrl: string
+  /** Stop listening. Pending requests are finished first */
+  stop: () => Promise<void>
+}
+
+interface Grant {
+  clientId: string
+  scenario: string | null
+  identity: MockOIDCIdentity
+  scope: string
+  nonce: string | null
+}
+
+interface AuthorizationCode extends Grant {
+  redirectUri: string
+  codeChallenge: string | null
+  codeChallengeMethod: string
+  expiresAt: number
+}
+
+interface AccessToken extends Grant {
+  expiresAt: number
+}
+
+class OAuthError extends Error {
+  constructor(
+    readonly status: number,
+    readonly error: string,
+    readonly description?: string,
+  ) {
+    super(description ?? error)
+  }
+}
+
+function base64url(data: Uint8Array | string): string {
+  return Buffer.from(data).toString('base64url')
+}
+
+function randomToken(): string {
+  return base64url(webcrypto.getRandomValues(new Uint8Array(32)))
+}
+
+function parseURL(value: string): URL | null {
+  try {
+    return new URL(value)
+  }
+  catch {
+    return null
+  }
+}
+
+function parseCookies(header: string | undefined): Map<string, string> {
+  const cookies = new Map<string, string>()
+  for (const part of header?.split(';') ?? []) {
+    const index = part.indexOf('=')
+    if (index > 0)
+      cookies.set(part.slice(0, index).trim(), decodeURIComponent(part.slice(index + 1).trim()))
+  }
+  return cookies
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req)
+    chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+function sendJSON(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers })
+  res.end(JSON.stringify(body))
+}
+
+// Digests first, so neither the length nor the content leaks
+function sameSecret(given: string, expected: string): boolean {
+  const digest = (value: string): Buffer => createHash('sha256').update(value).digest()
+  return timingSafeEqual(digest(given), digest(expected))
+}
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\./.test(host)
+}
+
+function identityClaims(identity: MockOIDCIdentity): Record<string, unknown> {
+  return {
+    ...identity.claims,
+    sub: identity.sub ?? identity.email,
+    email: identity.email,
+    email_verified: identity.emailVerified ?? true,
+    // Better Auth refuses sign-ins without a name
+    name: identity.name ?? identity.email.split('@')[0],
+    ...(identity.picture === undefined ? {} : { picture: identity.picture }),
+  }
+}
+
+/**
+ * Start a local OpenID Connect provider for testing the real social
+ * sign-in flow: authorize, token, userinfo and JWKS endpoints plus a
+ * discovery document, signing ID tokens with a key generated at start.
+ * Needs no network access. Consent is granted automatically unless a
+ * scenario says otherwise.
+ *
+ * Point a `genericOAuth` provider at it, and start it from Playwright's
+ * `globalSetup`. Pass its `issuer` to `createTestFixtures({ oidc })` to
+ * control identities and errors per test with `auth.oidc`.
+ *
+ * @example
+ * ```ts
+ * // e2e/global-setup.ts
+ * import { startMockOIDCProvider } from 'better-auth-playwright'
+ *
+ * export default async function globalSetup() {
+ *   const provider = await startMockOIDCProvider({ port: 4010 })
+ *   return () => provider.stop()
+ * }
+ *
+ * // auth.ts
+ * genericOAuth({
+ *   config: [{
+ *     providerId: 'mock',
+ *     clientId: 'test-client',
+ *     clientSecret: 'test-secret',
+ *     discoveryUrl: 'http://127.0.0.1:4010/.well-known/openid-configuration',
+ *   }],
+ * })
+ * ```
+ */
+export async function startMockOIDCProvider(options: MockOIDCProviderOptions = {}): Promise<MockOIDCProvider> {
+  const tokenTTL = options.tokenTTL ?? 3600
+  const defaultIdentity = options.defaultIdentity ?? {
+    email: 'mock-user@test.local',
+    name: 'Mock User',
+  }
+  const clients = new Map((options.clients ?? []).map(c => [c.clientId, c]))
+
+  const keyPair = await webcrypto.subtle.generateKey(
+    { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+    true,
+    ['sign', 'verify'],
+  )
+  const kid = randomToken().slice(0, 16)
+  const { kty, n, e } = await webcrypto.subtle.exportKey('jwk', keyPair.publicKey)
+  const jwks = { keys: [{ kty, n, e, kid, alg: 'RS256', use: 'sig' }] }
+
+  const scenarios = new Map<string, MockOIDCBehavior>()
+  const codes = new Map<string, AuthorizationCode>()
+  const accessTokens = new Map<string, AccessToken>()
+  const refreshTokens = new Map<string, Grant>()
+
+  let issuer = ''
+
+  function behaviorOf(scenario: string | null): MockOIDCBehavior {
+    return (scenario && scenarios.get(scenario)) || {}
+  }
+
+  function scenarioError(scenario: string | null, endpoint: 'token' | 'userinfo'): void {
+    const failure = behaviorOf(scenario).errors?.[endpoint]
+    if (failure)
+      throw new OAuthError(failure.status ?? (endpoint === 'token' ? 400 : 401), failure.error, failure.description)
+  }
+
+  async function signIdToken(grant: Grant, now: number): Promise<string> {
+    const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid }))
+    const payload = base64url(JSON.stringify({
+      ...identityClaims(grant.identity),
+      iss: issuer,
+      aud: grant.clientId,
+      iat: now,
+      exp: now + tokenTTL,
+      auth_time: now,
+      ...(grant.nonce ? { nonce: grant.nonce } : {}),
+    }))
+    const signature = await webcrypto.subtle.sign(
+      'RSASSA-PKCS1-v1_5',
+      keyPair.privateKey,
+      new TextEncoder().encode(`${header}.${payload}`),
+    )
+    return `${header}.${payload}.${base64url(new Uint8Array(signature))}`
+  }
+
+  async function issueTokens(grant: Grant, refreshToken: string): Promise<Record<string, unknown>> {
+    const now = Math.floor(Date.now() / 1000)
+    const accessToken = randomToken()
+    accessTokens.set(accessToken, { ...grant, expiresAt: Date.now() + tokenTTL * 1000 })
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: tokenTTL,
+      refresh_token: refreshToken,
+      scope: grant.scope,
+      ...(behaviorOf(grant.scenario).omitIdToken ? {} : { id_token: await signIdToken(grant, now) }),
+    }
+  }
+
+  // Client authentication: HTTP Basic or client_id/client_secret in the body
+  function authenticateClient(req: IncomingMessage, params: URLSearchParams): string {
+    let clientId = params.get('client_id')
+    let clientSecret = params.get('client_secret')
+    const authorization = req.headers.authorization
+    if (authorization?.startsWith('Basic ')) {
+      const decoded = Buffer.from(authorization.slice(6), 'base64').toString('utf8')
+      const index = decoded.indexOf(':')
+      clientId = decodeURIComponent(decoded.slice(0, index))
+      clientSecret = decodeURIComponent(decoded.slice(index + 1))
+    }
+    if (!clientId)
+      throw new OAuthError(401, 'invalid_client', 'Missing client_id')
+    const client = clients.get(clientId)
+    if (clients.size > 0 && (!client || (client.clientSecret !== undefined && client.clientSecret !== clientSecret)))
+      throw new OAuthError(401, 'invalid_client', 'Unknown client or wrong secret')
+    return clientId
+  }
+
+  function handleAuthorize(req: IncomingMessage, res: ServerResponse, url: URL): void {
+    const params = url.searchParams
+    const clientId = params.get('client_id')
+    const redirectUri = params.get('redirect_uri')
+    // Errors the client can't be told about are shown, not redirected
+    const redirect = redirectUri ? parseURL(redirectUri) : null
+    if (!clientId || !redirectUri || !redirect)
+      throw new OAuthError(400, 'invalid_request', 'client_id and a valid redirect_uri are required')
+    if (clients.size > 0 && !clients.has(clientId))
+      throw new OAuthError(400, 'unauthorized_client', `Unknown client "${clientId}"`)
+
+    const scenario = parseCookies(req.headers.cookie).get(MOCK_OIDC_SCENARIO_COOKIE) ?? null
+    const behavior = behaviorOf(scenario)
+    const state = params.get('state')
+    if (state)
+      redirect.searchParams.set('state', state)
+    redirect.searchParams.set('iss', issuer)
+
+    const failure = behavior.errors?.authorize
+      ?? (behavior.denyConsent ? { error: 'access_denied', description: 'The user denied the request' } : undefined)
+      ?? (params.get('response_type') === 'code'
+        ? undefined
+        : { error: 'unsupported_response_type', description: 'Only the code flow is supported' })
+    if (failure) {
+      redirect.searchParams.set('error', failure.error)
+      if (failure.description)
+        redirect.searchParams.set('error_description', failure.description)
+    }
+    else {
+      const code = randomToken()
+      codes.set(code, {
+        clientId,
+        scenario,
+        identity: behavior.identity ?? defaultIdentity,
+        scope: params.get('scope') ?? 'openid',
+        nonce: params.get('nonce'),
+        redirectUri,
+        codeChallenge: params.get('code_challenge'),
+        codeChallengeMethod: params.get('code_challenge_method') ?? 'plain',
+        expiresAt: Date.now() + 60_000,
+      })
+      redirect.searchParams.set('code', code)
+    }
+    res.writeHead(302, { 'Location': redirect.toString(), 'Cache-Control': 'no-store' })
+    res.end()
+  }
+
+  async function handleToken(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const params = new URLSearchParams(await readBody(req))
+    const clientId = authenticateClient(req, params)
+    const grantType = params.get('grant_type')
+
+    if (grantType === 'authorization_code') {
+      const code = codes.get(params.get('code') ?? '')
+      codes.delete(params.get('code') ?? '')
+      if (!code || code.expiresAt < Date.now() || code.clientId !== clientId)
+        throw new OAuthError(400, 'invalid_grant', 'Unknown, expired or already used code')
+      if (params.get('redirect_uri') !== code.redirectUri)
+        throw new OAuthError(400, 'invalid_grant', 'redirect_uri does not match the authorization request')
+      if (code.codeChallenge) {
+        const verifier = params.get('code_verifier') ?? ''
+        const challenge = code.codeChallengeMethod === 'S256'
+          ? createHash('sha256').update(verifier).digest('base64url')
+          : verifier
+        if (challenge !== code.codeChallenge)
+          throw new OAuthError(400, 'invalid_grant', 'PKCE verification failed')
+      }
+      scenarioError(code.scenario, 'token')
+
+      const { scenario, identity, scope, nonce } = code
+      const grant: Grant = { clientId, scenario, identity, scope, nonce }
+      const refreshToken = randomToken()
+      refreshTokens.set(refreshToken, grant)
+      sendJSON(res, 200, await issueTokens(grant, refreshToken))
+      return
+    }
+
+    if (grantType === 'refresh_token') {
+      const refreshToken = params.get('refresh_token') ?? ''
+      const grant = refreshTokens.get(refreshToken)
+      if (!grant || grant.clientId !== clientId)
+        throw new OAuthError(400, 'invalid_grant', 'Unknown refresh token')
+      scenarioError(grant.scenario, 'token')
+      sendJSON(res, 200, await issueTokens({ ...grant, nonce: null }, refreshToken))
+      return
+    }
+
+    throw new OAuthError(400, 'unsupported_grant_type', `Unsupported grant_type "${grantType}"`)
+  }
+
+  function handleUserInfo(req: IncomingMessage, res: ServerResponse): void {
+    const authorization = req.headers.authorization ?? ''
+    const token = accessTokens.get(authorization.replace(/^Bearer /i, ''))
+    if (!token || token.expiresAt < Date.now())
+      throw new OAuthError(401, 'invalid_token', 'Unknown or expired access token')
+    scenarioError(token.scenario, 'userinfo')
+    sendJSON(res, 200, identityClaims(token.identity))
+  }
+
+  async function handleControl(req: IncomingMessage, res: ServerResponse, id: string): Promise<void> {
+    if (options.controlSecret) {
+      const given = req.headers[CONTROL_SECRET_HEADER]
+      if (typeof given !== 'string' || !sameSecret(given, options.controlSecret))
+        throw new OAuthError(401, 'unauthorized', `Missing or wrong ${CONTROL_SECRET_HEADER} header`)
+    }
+    if (req.method === 'PUT') {
+      scenarios.set(id, JSON.parse(await readBody(req)) as MockOIDCBehavior)
+    }
+    else if (req.method === 'DELETE') {
+      scenarios.delete(id)
+    }
+    else {
+      throw new OAuthError(405, 'invalid_request', 'Use PUT or DELETE')
+    }
+    res.writeHead(204)
+    res.end()
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', issuer)
+    switch (url.pathname) {
+      case '/.well-known/openid-configuration':
+        return sendJSON(res, 200, {
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          userinfo_endpoint: `${issuer}/userinfo`,
+          jwks_uri: `${issuer}/jwks`,
+          response_types_supported: ['code'],
+          grant_types_supported: ['authorization_code', 'refresh_token'],
+          subject_types_supported: ['public'],
+          id_token_signing_alg_values_supported: ['RS256'],
+          scopes_supported: ['openid', 'email', 'profile', 'offline_access'],
+          token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+          code_challenge_methods_supported: ['S256', 'plain'],
+          claims_supported: ['sub', 'email', 'email_verified', 'name', 'picture'],
+        })
+      case '/jwks':
+        return sendJSON(res, 200, jwks)
+      case '/authorize':
+        return handleAuthorize(req, res, url)
+      case '/token':
+        if (req.method !== 'POST')
+          throw new OAuthError(405, 'invalid_request', 'Use POST')
+        return handleToken(req, res)
+      case '/userinfo':
+        return handleUserInfo(req, res)
+    }
+    if (url.pathname.startsWith(CONTROL_PATH))
+      return handleControl(req, res, decodeURIComponent(url.pathname.slice(CONTROL_PATH.length)))
+    throw new OAuthError(404, 'not_found', `No endpoint at ${url.pathname}`)
+  }
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((err) => {
+      const failure = err instanceof OAuthError
+        ? err
+        : new OAuthError(500, 'server_error', err instanceof Error ? err.message : String(err))
+      sendJSON(
+        res,
+        failure.status,
+        { error: failure.error, error_description: failure.description },
+        failure.status === 401 && failure.error === 'invalid_token'
+          ? { 'WWW-Authenticate': `Bearer error="invalid_token"` }
+          : {},
+      )
+    })
+  })
+
+  const host = options.host ?? '127.0.0.1'
+  if (!options.controlSecret && !isLoopback(host)) {
+    throw new Error(
+      `better-auth-playwright: the mock OIDC provider needs a controlSecret to listen on ${host}, `
+      + 'or anyone who can reach it could pick the identity that signs in',
+    )
+  }
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(options.port ?? 4010, host, () => {
+      server.off('error', reject)
+      resolve()
+    })
+  })
+  const { port } = server.address() as AddressInfo
+  issuer = `http://${host.includes(':') ? `[${host}]` : host}:${port}`
+
+  return {
+    issuer,
+    discoveryUrl: `${issuer}/.well-known/openid-configuration`,
+    stop: () => new Promise<void>((resolve, reject) => {
+      server.close(err => (err ? reject(err) : resolve()))
+      server.closeIdleConnections()
+    }),
+  }
+}
+
+/**
+ * Set (or with null, remove) the behavior of a scenario on a running
+ * mock provider.
+ */
+export async function setMockOIDCScenario(
+  issuer: string,
+  scenario: string,
+  behavior: MockOIDCBehavior | null,
+  options: { controlSecret?: string } = {},
+): Promise<void> {
+  const url = `${issuer.replace(/\/+$/, '')}${CONTROL_PATH}${encodeURIComponent(scenario)}`
+  const headers: Record<string, string> = options.controlSecret
+    ? { [CONTROL_SECRET_HEADER]: options.controlSecret }
+    : {}
+  const res = await fetch(url, behavior
+    ? { method: 'PUT', headers: { ...headers, 'Content-Type': 'application/json' }, body: JSON.stringify(behavior) }
+    : { method: 'DELETE', headers })
+  if (!res.ok) {
+    throw new Error(
+      `better-auth-playwright: mock OIDC provider at ${issuer} rejected the scenario (${res.status}): ${await res.text()}`,
+    )
+  }
+}
@@ -1,64 +1,335 @@
-import type { Page, TestType } from '@playwright/test'
+import type {
+  APIRequestContext,
+  Browser,
+  BrowserContext,
+  BrowserContextOptions,
+  Page,
+  PlaywrightWorkerArgs,
+  TestInfo,
+  TestType,
+  WorkerInfo,
+} from '@playwright/test'
+import type {
+  ActiveSessionOptions,
+  BatchTestUser,
+  CreatedUser,
+  CreateLinkOptions,
+  CreateOAuthUserOptions,
+  CreateUserOptions,
+  CreateUsersOptions,
+  OAuthProvider,
+  ScenarioTestUser,
+  SeededScenario,
+  SessionCookieUpdate,
+  SessionFields,
+  TestAuthLink,
+  TestCookie,
+  TestDataClient,
+  TestOAuthUser,
+  TestStorageState,
+  TestUser,
+} from './client.js'
+import type { LoadScenarioOptions } from './load-scenario.js'
+import type { TestMailFilter, TestMailMessage } from './mailbox.js'
+import type { MockOIDCBehavior, MockOIDCEndpoint, MockOIDCError, MockOIDCIdentity } from './oidc-provider.js'
+import type { TestScenario } from './scenario.js'
+import type { TOTPOptions } from './totp.js'
+import type {
+  AnyTestDataPlugin,
+  InferTestDataPlugins,
+  TestDataPluginSource,
+  UntypedTestDataPlugins,
+} from './types.js'
+import type { VirtualAuthenticator, VirtualAuthenticatorOptions } from './webauthn.js'
+import { dirname, resolve } from 'node:path'
 import { test as defaultBase } from '@playwright/test'
+import { createTestDataClient } from './client.js'
+import { loadScenario } from './load-scenario.js'
+import { MOCK_OIDC_SCENARIO_COOKIE, setMockOIDCScenario } from './oidc-provider.js'
+import { RUN_ID_ENV } from './test-run.js'
+import { generateTOTP } from './totp.js'
+import { createVirtualAuthenticator } from './webauthn.js'
+
+interface WaitForMessageOptions extends TestMailFilter {
+  /** Maximum time to wait in milliseconds. Defaults to 10000 */
+  timeout?: number
+  /** Polling interval in milliseconds. Defaults to 250 */
+  interval?: number
+}
+
+interface TestAuthMailbox {
+  /** Captured messages matching the filter, oldest first */
+  messages: (filter?: TestMailFilter) => Promise<TestMailMessage[]>
 
-interface CreateUserOptions {
-  email?: string
-  name?: string
   /**
-   * Set a password for this user.
-   * Only needed if the test exercises the login form.
-   * Omit for faster tests that skip login entirely.
+   * Wait until a matching message has been captured and return the
+   * most recent one. Throws if none arrives within `timeout`.
    */
-  password?: string
-  /** Plugin-specific options, keyed by plugin ID */
-  pluginData?: Record<string, unknown>
+  waitForMessage: (options: WaitForMessageOptions) => Promise<TestMailMessage>
+
+  /** Remove captured messages, optionally only those sent to `to` */
+  clear: (to?: string) => Promise<void>
 }
 
-type OAuthProvider = 'google' | 'github' | 'apple' | 'microsoft' | 'facebook' | 'twitter' | 'discord' | 'gitlab'
-
-interface CreateOAuthUserOptions {
-  /** OAuth provider to simulate (e.g. 'google', 'github') */
-  provider: OAuthProvider
-  email?: string
-  name?: string
-  /** Provider account ID. Auto-generated if omitted. */
-  providerAccountId?: string
-  /** Plugin-specific options, keyed by plugin ID */
-  pluginData?: Record<string, unknown>
+/**
+ * Per-test control of the mock OIDC provider. Settings apply to sign-ins
+ * started from one browser context (the page's by default), so parallel
+ * tests don't see each other's identities or errors.
+ */
+interface TestAuthOIDC {
+  /** Issuer URL of the mock provider */
+  issuer: string
+
+  /**
+   * Sign in as this identity. A user the app creates for its email is
+   * deleted after the test.
+   */
+  setIdentity: (identity: MockOIDCIdentity, context?: BrowserContext) => Promise<void>
+
+  /** Redirect back with `error=access_denied`, as if the user declined */
+  denyConsent: (context?: BrowserContext) => Promise<void>
+
+  /**
+   * Make an endpoint fail. Authorize errors redirect back to the app;
+   * token and userinfo errors are returned to the app's server.
+   */
+  failWith: (endpoint: MockOIDCEndpoint, error: MockOIDCError, context?: BrowserContext) => Promise<void>
+
+  /** Merge settings into the context's scenario, e.g. `{ omitIdToken: true }` */
+  configure: (behavior: MockOIDCBehavior, context?: BrowserContext) => Promise<void>
+
+  /** Back to the provider's default identity, with consent and no errors */
+  reset: (context?: BrowserContext) => Promise<void>
 }
 
-interface TestUser {
-  id: string
-  email: string
-  name: string
-  session: { id: string, token: string }
-  /** Plugin-specific data, keyed by plugin ID */
-  plugins: Record<string, unknown>
+interface BrowserTargetOptions {
+  /**
+   * Browser context that receives the session cookies.
+   * Defaults to the test's `page.context()`.
+   */
+  context?: BrowserContext
+  /**
+   * Add the user as another signed-in account of the `multi-session`
+   * plugin: only its multi-session cookie is set, and the browser's
+   * active session stays as it is. Switch with `setActiveSession`.
+   */
+  multiSession?: boolean
+}
+
+/**
+ * Options for `createAnonymousUser`. The email is generated the way
+ * `/sign-in/anonymous` does, and is never verified.
+ */
+type CreateAnonymousUserOptions<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins>
+  = Omit<CreateUserOptions<TPlugins>, 'email' | 'emailVerified' | 'password'>
+
+interface CreateUsernameUserOptions<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins>
+  extends CreateUserOptions<TPlugins> {
+  /** Username to sign in with. Defaults to the email's local part */
+  username?: string
+  /** Display username. Defaults to `username` */
+  displayUsername?: string
+}
+
+interface CreatePhoneNumberUserOptions<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins>
+  extends CreateUserOptions<TPlugins> {
+  /** Phone number. Defaults to a random `+1555…` number */
+  phoneNumber?: string
+  /** Whether the number is verified. Defaults to true */
+  phoneNumberVerified?: boolean
 }
 
-interface TestOAuthUser extends TestUser {
-  account: { provider: OAuthProvider, providerAccountId: string }
+interface TestUserContext<TUser extends TestUser = TestUser> {
+  user: TUser
+  /** A fresh browser context signed in as `user`. Closed after the test. */
+  context: BrowserContext
+  page: Page
 }
 
-interface TestAuth {
+/** How a user's API request context authenticates */
+type RequestAuth = 'cookie' | 'bearer'
+
+interface RequestAuthOptions {
+  /**
+   * How `user.request` authenticates: with the session cookie, or an
+   * `Authorization: Bearer` header for apps using the bearer plugin.
+   * Defaults to the fixture's `requestAuth` (`'cookie'`).
+   */
+  requestAuth?: RequestAuth
+}
+
+interface UserRequestContext {
   /**
-   * Create a test user and set session cookies on the current browser context.
+   * Playwright API request context signed in as the user, for calling
+   * the app's API. It holds the session as it was when created — use
+   * `requestAs` for a fresh one after changing the session. Disposed
+   * after the test.
+   */
+  request: APIRequestContext
+}
+
+/**
+ * The page-less `apiAuth` fixture, for API-only projects. Users come
+ * with an authenticated `request` instead of browser cookies.
+ */
+interface TestApiAuth<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins> {
+  /**
+   * Create a test user with a session and an API request context
+   * signed in as them.
    *
    * The user is created via internalAdapter (no password hashing unless
-   * `password` is specified). A session is created directly in the DB
-   * and the session cookie is set on the browser context.
+   * `password` is specified). A session is created directly in the DB.
    */
-  createUser: (options?: CreateUserOptions) => Promise<TestUser>
+  createUser: (options?: CreateUserOptions<TPlugins> & RequestAuthOptions) => Promise<TestUser<TPlugins> & UserRequestContext>
 
   /**
-   * Create a test OAuth user (Google, GitHub, etc) without going through the
-   * real provider's auth flow. Uses internalAdapter.createOAuthUser, which
-   * exercises the same database hooks as a real OAuth signup — including
+   * Create many users in one request — for pagination, member lists
+   * and admin tables. Pass a count or per-user options. No browser
+   * context is touched; use `signInAs` to sign one of them in, or
+   * `requestAs` to call the API as one.
+   * All users are deleted after the test.
+   */
+  createUsers: (
+    users: number | CreateUserOptions<TPlugins>[],
+    options?: CreateUsersOptions,
+  ) => Promise<BatchTestUser<TPlugins>[]>
+
+  /**
+   * Create a test OAuth user (Google, GitHub, a genericOAuth provider,
+   * etc) without going through the real provider's auth flow. Exercises
+   * the same database hooks as a real OAuth signup — including
    * databaseHooks.user.create.after AND databaseHooks.account.create.after
    * with the correct providerId. Use for testing OAuth-specific behavior in
-   * your app's auth hooks.
+   * your app's auth hooks, or seed tokens for code that calls the
+   * provider's API. The provider must be configured in the app.
+   */
+  createOAuthUser: (
+    options: CreateOAuthUserOptions<TPlugins> & RequestAuthOptions,
+  ) => Promise<TestOAuthUser<TPlugins> & UserRequestContext>
+
+  /**
+   * Create an anonymous user (`isAnonymous: true`), as after
+   * `/sign-in/anonymous`. Requires `anonymousTest()` on the server.
+   * Linking an account may delete the user; cleanup allows for that.
+   */
+  createAnonymousUser: (
+    options?: CreateAnonymousUserOptions<TPlugins> & RequestAuthOptions,
+  ) => Promise<TestUser<TPlugins> & UserRequestContext>
+
+  /**
+   * Create a user with a `username` and `displayUsername`. Pass a
+   * `password` to sign in through `/sign-in/username`. Requires
+   * `usernameTest()` on the server.
+   */
+  createUsernameUser: (
+    options?: CreateUsernameUserOptions<TPlugins> & RequestAuthOptions,
+  ) => Promise<TestUser<TPlugins> & UserRequestContext>
+
+  /**
+   * Create a user with a verified (default) or unverified
+   * `phoneNumber`. Requires `phoneNumberTest()` on the server.
    */
-  createOAuthUser: (options: CreateOAuthUserOptions) => Promise<TestOAuthUser>
+  createPhoneNumberUser: (
+    options?: CreatePhoneNumberUserOptions<TPlugins> & RequestAuthOptions,
+  ) => Promise<TestUser<TPlugins> & UserRequestContext>
+
+  /**
+   * Create a whole test world in one request: users keyed by alias and
+   * organizations that refer to them by alias, from an object or a
+   * JSON/YAML fixture file (resolved against the test file). Members
+   * are created before the owners of their organizations. Users get an
+   * API request context; use `signInAs` to sign one into a browser.
+   * Everything is deleted after the test.
+   */
+  seed: <TUsers extends string = never, TOrgs extends string = never>(
+    scenario: TestScenario<TPlugins, TUsers, TOrgs> | string,
+    options?: LoadScenarioOptions,
+  ) => Promise<SeededScenario<ScenarioTestUser<TPlugins> & UserRequestContext, TUsers, TOrgs>>
+
+  /**
+   * A new API request context signed in as an existing test user,
+   * with the user's current session. Works for users created by this
+   * fixture (including batch users with a session) and for
+   * `workerAuth` users. Disposed after the test.
+   */
+  requestAs: (
+    user: TestUser<any> | BatchTestUser<any> | WorkerTestUser<any>,
+    options?: RequestAuthOptions,
+  ) => Promise<APIRequestContext>
+
+  /**
+   * Mint the email-verification link Better Auth would send to `user`,
+   * without sending mail. Open `url` to exercise the landing page.
+   */
+  createVerificationLink: (user: { email: string }, options?: CreateLinkOptions) => Promise<TestAuthLink>
+
+  /**
+   * Mint the password-reset link Better Auth would send to `user`.
+   * Pass `expiresIn: -60` (or any value <= 0) for an expired token.
+   */
+  createPasswordResetLink: (user: { email: string }, options?: CreateLinkOptions) => Promise<TestAuthLink>
+
+  /**
+   * Expire the user's session now. Clients keep the session token, so
+   * the app sees an expired (not a missing) session on its next
+   * request; a cookie cache is cleared.
+   */
+  expireSession: (user: TestUser | BatchTestUser) => Promise<TestSessionExpiry>
+
+  /**
+   * Set a custom expiry for the user's session. The session cookie is
+   * re-issued to match and a cookie cache is cleared.
+   */
+  setSessionExpiry: (user: TestUser | BatchTestUser, expiresAt: Date) => Promise<TestSessionExpiry>
+
+  /**
+   * Move the user's session into the `updateAge` window, so the next
+   * `getSession` call refreshes it (extends `expiresAt` and re-issues
+   * the cookie).
+   */
+  enterRefreshWindow: (user: TestUser | BatchTestUser) => Promise<TestSessionExpiry>
+
+  /**
+   * Set fields on the user's session, e.g. `activeOrganizationId`.
+   * The session cookie is re-signed and a cookie cache rebuilt;
+   * `requestAs` picks them up, while `user.request` keeps the cookies
+   * it was created with.
+   */
+  updateSession: (user: TestUser | BatchTestUser, fields: SessionFields) => Promise<TestSession>
+
+  /**
+   * Make an organization the session's active one (`null` clears it),
+   * like `/organization/set-active`. Takes an ID or an object with one,
+   * such as an entry of `plugins.organization.organizations`.
+   */
+  switchOrganization: (
+    user: TestUser | BatchTestUser,
+    organization: string | { id: string } | null,
+  ) => Promise<TestSession>
+
+  /** Revoke the user's session */
+  revokeSession: (user: TestUser | BatchTestUser) => Promise<void>
+
+  /** Revoke every session of the user (e.g. "sign out everywhere") */
+  revokeAllSessions: (user: TestUser | BatchTestUser) => Promise<void>
+
+  /**
+   * Generate the current TOTP code for a two-factor secret.
+   *
+   * Accepts either the raw secret or the `plugins['two-factor']` result
+   * from `twoFactorTest()`, whose `digits`/`period` are used by default.
+   * Use it to fill in the 2FA challenge page.
+   */
+  generateTOTP: (
+    secret: string | { secret: string, digits?: number, period?: number },
+    options?: TOTPOptions,
+  ) => Promise<string>
+
+  /**
+   * Read emails captured by the server's `createTestMailbox()`.
+   * Messages for addresses queried here are cleared after the test.
+   */
+  mailbox: TestAuthMailbox
 
   /**
    * Delete a test user by email. Called automatically in teardown
@@ -67,11 +338,243 @@ interface TestAuth {
   cleanup: (email: string) => Promise<void>
 }
 
-interface TestAuthFixtures {
-  auth: TestAuth
+/** What `auth` and `apiAuth` share: `auth` without its browser-only members */
+type AuthCore<TPlugins extends readonly AnyTestDataPlugin[]> = Omit<
+  TestAuth<TPlugins>,
+  'createUserContext' | 'signInAs' | 'setActiveSession' | 'oidc' | 'createVirtualAuthenticator'
+>
+
+/** How `auth` keeps browser contexts' cookies in step with test users' sessions */
+interface BrowserSessions {
+  /** Sign a user into a context (the page's by default) */
+  signIn: (user: { id: string }, cookies: TestCookie[], context?: BrowserContext) => Promise<void>
+  /**
+   * The context changes to a user's session go to: the one given, else
+   * the one the user was last signed into, else the page's
+   */
+  contextFor: (user: { id: string }, context?: BrowserContext) => BrowserContext
 }
 
-export type { CreateOAuthUserOptions, CreateUserOptions, OAuthProvider, TestAuth, TestAuthFixtures, TestOAuthUser, TestUser }
+/**
+ * The `auth` fixture: `apiAuth` plus browser sign-in. Session changes
+ * are applied to the browser's cookies too: in the context given, else
+ * the one the user was last signed into, else the page's. Another
+ * multi-session account's change leaves the context's active session alone.
+ */
+interface TestAuth<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins> extends TestApiAuth<TPlugins> {
+  /**
+   * Create a test user and set session cookies on a browser context
+   * (the current page's context unless `context` is given).
+   *
+   * The user is created via internalAdapter (no password hashing unless
+   * `password` is specified). A session is created directly in the DB
+   * and the session cookie is set on the browser context.
+   */
+  createUser: (
+    options?: CreateUserOptions<TPlugins> & BrowserTargetOptions & RequestAuthOptions,
+  ) => Promise<TestUser<TPlugins> & UserRequestContext>
+
+  /**
+   * Create a test user in a new, isolated browser context.
+   * Use for tests with several signed-in users (chat, sharing, invites).
+   */
+  createUserContext: (
+    options?: CreateUserOptions<TPlugins> & RequestAuthOptions & {
+      /** Options for `browser.newContext()`. `baseURL` defaults to the project's */
+      contextOptions?: BrowserContextOptions
+    },
+  ) => Promise<TestUserContext<TestUser<TPlugins> & UserRequestContext>>
+
+  /**
+   * Like `apiAuth.createOAuthUser`, and sets the session cookies on a
+   * browser context (the current page's context unless `context` is given).
+   */
+  createOAuthUser: (
+    options: CreateOAuthUserOptions<TPlugins> & BrowserTargetOptions & RequestAuthOptions,
+  ) => Promise<TestOAuthUser<TPlugins> & UserRequestContext>
+
+  /** Like `apiAuth.createAnonymousUser`, signed into a browser context */
+  createAnonymousUser: (
+    options?: CreateAnonymousUserOptions<TPlugins> & BrowserTargetOptions & RequestAuthOptions,
+  ) => Promise<TestUser<TPlugins> & UserRequestContext>
+
+  /** Like `apiAuth.createUsernameUser`, signed into a browser context */
+  createUsernameUser: (
+    options?: CreateUsernameUserOptions<TPlugins> & BrowserTargetOptions & RequestAuthOptions,
+  ) => Promise<TestUser<TPlugins> & UserRequestContext>
+
+  /** Like `apiAuth.createPhoneNumberUser`, signed into a browser context */
+  createPhoneNumberUser: (
+    options?: CreatePhoneNumberUserOptions<TPlugins> & BrowserTargetOptions & RequestAuthOptions,
+  ) => Promise<TestUser<TPlugins> & UserRequestContext>
+
+  /**
+   * Apply an existing test user's session cookies to a browser context
+   * (the current page's context by default). Works for users created
+   * by this fixture and for `workerAuth` users.
+   */
+  signInAs: (user: TestUser<any> | BatchTestUser<any> | WorkerTestUser<any>, context?: BrowserContext) => Promise<void>
+
+  /**
+   * Make the user the active account of a browser context (the one it
+   * was last signed into by default), like `/multi-session/set-active`. The
+   * session cookie is re-issued for the user's session; the context's
+   * other multi-session accounts stay signed in.
+   */
+  setActiveSession: (user: TestUser | BatchTestUser, context?: BrowserContext) => Promise<void>
+
+  /**
+   * Expire the user's session now. The browser keeps its session
+   * token cookie, so the app sees an expired (not a missing) session
+   * on its next request; a cookie cache is cleared.
+   */
+  expireSession: (user: TestUser | BatchTestUser, context?: BrowserContext) => Promise<TestSessionExpiry>
+
+  /**
+   * Set a custom expiry for the user's session. The session cookie is
+   * re-issued to match and a cookie cache is cleared.
+   */
+  setSessionExpiry: (
+    user: TestUser | BatchTestUser,
+    expiresAt: Date,
+    context?: BrowserContext,
+  ) => Promise<TestSessionExpiry>
+
+  /**
+   * Move the user's session into the `updateAge` window, so the next
+   * `getSession` call refreshes it (extends `expiresAt` and re-issues
+   * the cookie).
+   */
+  enterRefreshWindow: (user: TestUser | BatchTestUser, context?: BrowserContext) => Promise<TestSessionExpiry>
+
+  /**
+   * Set fields on the user's session, e.g. `activeOrganizationId`.
+   * The re-signed session cookie and rebuilt cookie cache are applied
+   * to the browser, so the app sees the change on its next request.
+   */
+  updateSession: (
+    user: TestUser | BatchTestUser,
+    fields: SessionFields,
+    context?: BrowserContext,
+  ) => Promise<TestSession>
+
+  /**
+   * Make an organization the session's active one (`null` clears it),
+   * like `/organization/set-active`, and apply the new cookies to the
+   * browser. Takes an ID or an object with one, such as an entry of
+   * `plugins.organization.organizations`.
+   */
+  switchOrganization: (
+    user: TestUser | BatchTestUser,
+    organization: string | { id: string } | null,
+    context?: BrowserContext,
+  ) => Promise<TestSession>
+
+  /** Revoke the user's session and clear its cookies from the browser */
+  revokeSession: (user: TestUser | BatchTestUser, context?: BrowserContext) => Promise<void>
+
+  /**
+   * Revoke every session of the user (e.g. "sign out everywhere") and
+   * clear the session cookies from the browser.
+   */
+  revokeAllSessions: (user: TestUser | BatchTestUser, context?: BrowserContext) => Promise<void>
+
+  /**
+   * Control the mock OIDC provider from `startMockOIDCProvider()`.
+   * Requires `createTestFixtures({ oidc: { issuer } })`.
+   */
+  oidc: TestAuthOIDC
+
+  /**
+   * Install a virtual WebAuthn authenticator in a page (the test's page
+   * unless `page` is given). Chromium only. Pass
+   * `passkeys: [user.plugins.passkey]` to sign in with a passkey from
+   * `passkeyTest()`, or nothing to test registration. Removed after
+   * the test.
+   */
+  createVirtualAuthenticator: (
+    options?: VirtualAuthenticatorOptions & { page?: Page },
+  ) => Promise<VirtualAuthenticator>
+}
+
+interface TestSessionExpiry {
+  id: string
+  token: string
+  expiresAt: Date
+}
+
+/** A session record after `updateSession`, with every stored field */
+interface TestSession extends TestSessionExpiry {
+  [field: string]: unknown
+}
+
+interface TestAuthFixtures<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins> {
+  auth: TestAuth<TPlugins>
+  apiAuth: TestApiAuth<TPlugins>
+}
+
+interface WorkerTestUser<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins> extends TestUser<TPlugins> {
+  /** Ready-to-use `storageState` holding the user's session cookies */
+  storageState: TestStorageState
+}
+
+interface WorkerAuth<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins> {
+  /**
+   * Create a user owned by the current worker. It is deleted when the
+   * worker shuts down, not after each test. No browser context is
+   * touched — use `storageState` to sign a context in.
+   */
+  createUser: (options?: CreateUserOptions<TPlugins>) => Promise<WorkerTestUser<TPlugins>>
+
+  /**
+   * Get the worker's user for `key`, creating it on first use.
+   * Every test in the worker gets the same user for the same key.
+   */
+  getUser: (key: string, options?: CreateUserOptions<TPlugins>) => Promise<WorkerTestUser<TPlugins>>
+}
+
+/** `TBase` extended with the `auth`, `apiAuth` and `workerAuth` fixtures */
+type TestWithAuth<TBase extends TestType<any, any>, TPlugins extends readonly AnyTestDataPlugin[]>
+  = TBase extends TestType<infer TArgs, infer TWorkerArgs>
+    ? TestType<TArgs & TestAuthFixtures<TPlugins>, TWorkerArgs & TestAuthWorkerFixtures<TPlugins>>
+    : never
+
+interface TestAuthWorkerFixtures<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins> {
+  workerAuth: WorkerAuth<TPlugins>
+}
+
+export type {
+  BatchTestUser,
+  BrowserTargetOptions,
+  CreateAnonymousUserOptions,
+  CreateLinkOptions,
+  CreateOAuthUserOptions,
+  CreatePhoneNumberUserOptions,
+  CreateUsernameUserOptions,
+  CreateUserOptions,
+  CreateUsersOptions,
+  OAuthProvider,
+  RequestAuth,
+  RequestAuthOptions,
+  SessionFields,
+  TestApiAuth,
+  TestAuth,
+  TestAuthFixtures,
+  TestAuthLink,
+  TestAuthMailbox,
+  TestAuthOIDC,
+  TestAuthWorkerFixtures,
+  TestOAuthUser,
+  TestSession,
+  TestSessionExpiry,
+  TestUser,
+  TestUserContext,
+  TestWithAuth,
+  UserRequestContext,
+  WaitForMessageOptions,
+  WorkerAuth,
+  WorkerTestUser,
+}
 
 /**
  * Create Playwright fixtures configured for your Better Auth app.
@@ -87,9 +590,23 @@ export type { CreateOAuthUserOptions, CreateUserOptions, OAuthProvider, TestAuth
  *
  * export { expect } from '@playwright/test'
  * ```
+ *
+ * Pass the server's test data plugins as the type argument (the
+ * plugin list or the `testPlugin()` options) to type `pluginData` and
+ * `user.plugins`:
+ *
+ * ```ts
+ * import type { testPlugins } from '../src/auth'
+ *
+ * export const test = createTestFixtures<typeof testPlugins>({ ... })
+ * ```
+ *
+ * With a custom base test, pass its type as the second argument.
  */
-// eslint-disable-next-line ts/explicit-function-return-type
-export function createTestFixtures(config: {
+export function createTestFixtures<
+  TSource extends TestDataPluginSource = UntypedTestDataPlugins,
+  TBase extends TestType<any, any> = typeof defaultBase,
+>(config: {
   /** Secret that matches the server plugin's secret */
   secret: string
   /**
@@ -97,181 +614,617 @@ export function createTestFixtures(config: {
    * Defaults to '/api/auth'.
    */
   basePath?: string
+  /**
+   * Extra domains every session cookie is copied onto, for apps whose
+   * pages and auth server live on different hosts (e.g. with
+   * `crossSubDomainCookies`). Use a leading dot to include subdomains.
+   */
+  cookieDomains?: string[]
+  /**
+   * Fail fast when the server's better-auth-playwright version is
+   * incompatible with this one. Checked once per worker. Defaults to true.
+   */
+  checkServerVersion?: boolean
+  /**
+   * The mock OIDC provider `auth.oidc` controls, started with
+   * `startMockOIDCProvider()`, and its `controlSecret` if it has one
+   */
+  oidc?: { issuer: string, controlSecret?: string }
+  /**
+   * How users' `request` contexts authenticate: `'cookie'` (default)
+   * or `'bearer'` for apps using the bearer plugin
+   */
+  requestAuth?: RequestAuth
   /**
    * Custom Playwright base test to extend.
    * Pass your framework's test (e.g. Nuxt's `test` from `@nuxt/test-utils/playwright`)
    * to preserve its fixtures while adding `auth`.
    * Defaults to `@playwright/test`'s `test`.
    */
-  test?: TestType<any, any>
-}) {
+  test?: TBase
+}): TestWithAuth<TBase, InferTestDataPlugins<TSource>> {
+  type TPlugins = InferTestDataPlugins<TSource>
   const basePath = config.basePath ?? '/api/auth'
-  const baseTest = config.test ?? defaultBase
+  const baseTest: TestType<any, any> = config.test ?? defaultBase
+
+  // One version check per worker and server
+  const versionChecks = new Map<string, Promise<void>>()
+  async function checkServerVersion(baseURL: string, client: TestDataClient<TPlugins>): Promise<void> {
+    if (config.checkServerVersion === false)
+      return
+    let check = versionChecks.get(baseURL)
+    if (!check) {
+      check = client.checkServerVersion()
+      versionChecks.set(baseURL, check)
+    }
+    await check
+  }
+
+  // State and methods `auth` and `apiAuth` share. `browser` mirrors
+  // session cookie changes into browser contexts; `apiAuth` has none.
+  async function createAuthCore(
+    { playwright, baseURL, extraHTTPHeaders }: {
+      playwright: PlaywrightWorkerArgs['playwright']
+      baseURL: string | undefined
+      extraHTTPHeaders: Record<string, string> | undefined
+    },
+    testInfo: TestInfo,
+    browser?: BrowserSessions,
+  ): Promise<{
+    client: TestDataClient<TPlugins>
+    auth: AuthCore<TPlugins>
+    userCookies: (user: TestUser<any> | BatchTestUser<any> | WorkerTestUser<any>, method: string) => TestCookie[]
+    activateSession: (user: TestUser | BatchTestUser, method: string, context?: BrowserContext) => Promise<void>
+    created: string[]
+    teardown: () => Promise<void>
+    dispose: () => Promise<void>
+  }> {
+    if (!baseURL) {
+      throw new Error('baseURL must be configured in Playwright')
+    }
+
+    // Inside a test this context picks up the project's proxy, headers
+    // and HTTPS options, and its requests are traced. Not its
+    // storageState: test data requests carry no user's cookies.
+    const transport = await playwright.request.newContext({ storageState: { cookies: [], origins: [] } })
+    const client = createTestDataClient<TPlugins>({
+      baseURL,
+      secret: config.secret,
+      basePath,
+      cookieDomains: config.cookieDomains,
+      // eslint-disable-next-line node/prefer-global/process
+      runId: process.env[RUN_ID_ENV],
+      worker: String(testInfo.workerIndex),
+      request: transport,
+    })
+    try {
+      await checkServerVersion(baseURL, client)
+    }
+    catch (err) {
+      await transport.dispose()
+      throw err
+    }
+    const created: string[] = []
+    // Users the app may delete itself (anonymous users on account linking)
+    const mayBeDeleted = new Set<string>()
+    const mailboxRecipients = new Set<string>()
+    const requestContexts: APIRequestContext[] = []
+    // Session cookies per user ID, so signInAs and requestAs can re-apply them
+    const sessionCookies = new Map<string, TestCookie[]>()
 
-  return baseTest.extend<TestAuthFixtures>({
-    auth: async ({ page, baseURL }: { page: Page, baseURL: string | undefined }, use: (r: TestAuth) => Promise<void>) => {
-      if (!baseURL) {
-        throw new Error('baseURL must be configured in Playwright')
+    function userCookies(user: TestUser<any> | BatchTestUser<any> | WorkerTestUser<any>, method: string): TestCookie[] {
+      const cookies = 'storageState' in user
+        ? user.storageState.cookies
+        : sessionCookies.get(user.id)
+      if (!cookies) {
+        throw new Error(
+          `better-auth-playwright: ${method}: no session known for ${user.email}. `
+          + 'Only users created by auth, apiAuth or workerAuth with a session are known.',
+        )
       }
+      return cookies
+    }
 
-      const verifiedBaseURL = baseURL
-      const origin = verifiedBaseURL.replace(/\/+$/, '')
-      const created: string[] = []
-      const context = page.context()
-
-      // Apply Set-Cookie headers from a fetch response onto the browser context
-      async function applyCookiesFromResponse(res: Response): Promise<void> {
-        const domain = new URL(verifiedBaseURL).hostname
-        const setCookieHeaders = res.headers.getSetCookie()
-        const cookies = setCookieHeaders.map((header) => {
-          const [nameValue, ...attrs] = header.split(';')
-          const [name, ...valueParts] = nameValue!.split('=')
-          const value = valueParts.join('=')
-          return {
-            name: name!.trim(),
-            value,
-            domain,
-            path: '/',
-            httpOnly: attrs.some(a => a.trim().toLowerCase() === 'httponly'),
-            secure: attrs.some(a => a.trim().toLowerCase() === 'secure'),
-          }
-        }).filter(c => c.name && c.value)
-        if (cookies.length > 0) {
-          await context.addCookies(cookies)
-        }
+    async function newUserRequest(
+      user: TestUser<any> | BatchTestUser<any> | WorkerTestUser<any>,
+      cookies: TestCookie[],
+      requestAuth: RequestAuth = config.requestAuth ?? 'cookie',
+    ): Promise<APIRequestContext> {
+      let request: APIRequestContext
+      if (requestAuth === 'bearer') {
+        // The signed session cookie value, as the bearer plugin's
+        // `set-auth-token` header hands it out
+        const cookie = cookies.find(c => c.name.endsWith('session_token'))
+        const token = cookie?.value ?? user.session?.token
+        request = await playwright.request.newContext({
+          baseURL,
+          extraHTTPHeaders: { ...extraHTTPHeaders, Authorization: `Bearer ${token}` },
+          // Only the token authenticates, not the project's cookies
+          storageState: { cookies: [], origins: [] },
+        })
+      }
+      else {
+        request = await playwright.request.newContext({
+          baseURL,
+          extraHTTPHeaders,
+          storageState: { cookies, origins: [] },
+        })
+      }
+      requestContexts.push(request)
+      return request
+    }
+
+    // Apply cookies the server re-issued or deleted for a user's
+    // session, and remember them for later signInAs calls
+    async function applyCookieUpdate(
+      user: TestUser | BatchTestUser,
+      update: SessionCookieUpdate,
+      context?: BrowserContext,
+    ): Promise<void> {
+      if (context) {
+        for (const { name, domain, path } of update.clearedCookies)
+          await context.clearCookies({ name, domain, path })
+        if (update.cookies.length > 0)
+          await context.addCookies(update.cookies)
+      }
+
+      // A cookie is identified by name, domain and path
+      const key = (c: { name: string, domain: string, path: string }): string => `${c.name};${c.domain};${c.path}`
+      const changed = new Set([...update.clearedCookies, ...update.cookies].map(key))
+      const kept = (sessionCookies.get(user.id) ?? []).filter(c => !changed.has(key(c)))
+      sessionCookies.set(user.id, [...kept, ...update.cookies])
+    }
+
+    function sessionToken(user: TestUser | BatchTestUser, method: string): string {
+      if (!user.session) {
+        throw new Error(
+          `better-auth-playwright: ${method}: ${user.email} was created without a session`,
+        )
       }
+      return user.session.token
+    }
 
-      const auth: TestAuth = {
-        async createUser(options = {}) {
-          const email
-            = options.email
-              ?? `test-${crypto.randomUUID().slice(0, 8)}@test.local`
-
-          const res = await fetch(`${origin}${basePath}/test-data/user`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'X-Test-Secret': config.secret,
-            },
-            body: JSON.stringify({
-              email,
-              name: options.name,
-              password: options.password,
-              pluginData: options.pluginData,
-            }),
-          })
-
-          if (!res.ok) {
-            const error = await res.text()
+    // The token of the session a context's session cookie holds, so
+    // the server leaves it alone when changing another account's session
+    async function activeToken(context: BrowserContext): Promise<string | null> {
+      const cookie = (await context.cookies()).find(c => c.name.endsWith('session_token'))
+      return cookie ? decodeURIComponent(cookie.value).split('.')[0]! : null
+    }
+
+    // Change a user's session on the server and apply the cookie
+    // changes to the context the user is signed into
+    async function changeSession<T extends SessionCookieUpdate>(
+      user: TestUser | BatchTestUser,
+      context: BrowserContext | undefined,
+      change: (options: ActiveSessionOptions) => Promise<T>,
+    ): Promise<T> {
+      const target = browser?.contextFor(user, context)
+      const update = await change(target ? { activeToken: await activeToken(target) } : {})
+      await applyCookieUpdate(user, update, target)
+      return update
+    }
+
+    async function activateSession(
+      user: TestUser | BatchTestUser,
+      method: string,
+      context?: BrowserContext,
+    ): Promise<void> {
+      await changeSession(user, context, async () => client.activateSession(sessionToken(user, method)))
+    }
+
+    async function updateSessionExpiry(
+      user: TestUser | BatchTestUser,
+      target: Date | 'expired' | 'refresh-window',
+      method: string,
+      context?: BrowserContext,
+    ): Promise<TestSessionExpiry> {
+      const token = sessionToken(user, method)
+      const { session } = await changeSession(user, context, async options => client.setSessionExpiry(token, target, options))
+      return session
+    }
+
+    function fetchMessages(filter: TestMailFilter): Promise<TestMailMessage[]> {
+      if (filter.to)
+        mailboxRecipients.add(filter.to.toLowerCase())
+      return client.mailboxMessages(filter)
+    }
+
+    const mailbox: TestAuthMailbox = {
+      messages: (filter = {}) => fetchMessages(filter),
+
+      async waitForMessage({ timeout = 10_000, interval = 250, ...filter }) {
+        const deadline = Date.now() + timeout
+        while (true) {
+          const messages = await fetchMessages(filter)
+          const latest = messages.at(-1)
+          if (latest)
+            return latest
+          if (Date.now() >= deadline) {
             throw new Error(
-              `better-auth-playwright: createUser failed (${res.status}): ${error}`,
+              `better-auth-playwright: no ${filter.type ?? 'message'} for ${filter.to ?? 'any recipient'} `
+              + `arrived within ${timeout}ms`,
             )
           }
+          await new Promise(resolve => setTimeout(resolve, interval))
+        }
+      },
 
-          const data = (await res.json()) as {
-            user: { id: string, email: string, name: string }
-            session: { id: string, token: string }
-            plugins: Record<string, unknown>
-          }
-          created.push(email)
-          await applyCookiesFromResponse(res)
-
-          return {
-            id: data.user.id,
-            email: data.user.email,
-            name: data.user.name,
-            session: data.session,
-            plugins: data.plugins,
+      clear: to => client.clearMailbox(to),
+    }
+
+    // The cookies a new user's sign-in leaves in the browser: all of
+    // them, or for an extra multi-session account only its own cookie
+    function browserCookies(cookies: TestCookie[], multiSession?: boolean): TestCookie[] {
+      if (!multiSession)
+        return cookies
+      const multiSessionCookies = cookies.filter(c => c.name.includes('_multi-'))
+      if (multiSessionCookies.length === 0) {
+        throw new Error(
+          'better-auth-playwright: multiSession requires the Better Auth "multi-session" plugin',
+        )
+      }
+      return multiSessionCookies
+    }
+
+    // Add a mode plugin's options (anonymousTest etc) to pluginData
+    function withPluginData(
+      pluginData: CreateUserOptions<TPlugins>['pluginData'],
+      id: string,
+      options: Record<string, unknown>,
+    ): CreateUserOptions<TPlugins>['pluginData'] {
+      const given = (pluginData as Record<string, Record<string, unknown> | undefined> | undefined)?.[id]
+      return { ...pluginData, [id]: { ...options, ...given } } as CreateUserOptions<TPlugins>['pluginData']
+    }
+
+    const auth: AuthCore<TPlugins> = {
+      async createUser({ context, multiSession, requestAuth, ...options } = {}) {
+        const { user, cookies } = await client.createUser(options)
+        created.push(user.email)
+        sessionCookies.set(user.id, cookies)
+        await browser?.signIn(user, browserCookies(cookies, multiSession), context)
+        return { ...user, request: await newUserRequest(user, cookies, requestAuth) }
+      },
+
+      async createUsers(users, options) {
+        const results = await client.createUsers(users, options)
+        for (const { user, cookies } of results) {
+          created.push(user.email)
+          if (cookies.length > 0)
+            sessionCookies.set(user.id, cookies)
+        }
+        return results.map(r => r.user)
+      },
+
+      async createOAuthUser({ context, multiSession, requestAuth, ...options }) {
+        const { user, cookies } = await client.createOAuthUser(options)
+        created.push(user.email)
+        sessionCookies.set(user.id, cookies)
+        await browser?.signIn(user, browserCookies(cookies, multiSession), context)
+        return { ...user, request: await newUserRequest(user, cookies, requestAuth) }
+      },
+
+      async createAnonymousUser({ pluginData, ...options } = {}) {
+        const user = await auth.createUser({
+          name: 'Anonymous',
+          ...options,
+          pluginData: withPluginData(pluginData, 'anonymous', { isAnonymous: true }),
+        })
+        mayBeDeleted.add(user.email)
+        return user
+      },
+
+      createUsernameUser: ({ username, displayUsername, pluginData, ...options } = {}) =>
+        auth.createUser({
+          ...options,
+          pluginData: withPluginData(pluginData, 'username', { username, displayUsername }),
+        }),
+
+      createPhoneNumberUser: ({ phoneNumber, phoneNumberVerified, pluginData, ...options } = {}) =>
+        auth.createUser({
+          ...options,
+          pluginData: withPluginData(pluginData, 'phone-number', { phoneNumber, phoneNumberVerified }),
+        }),
+
+      async seed(scenario, options) {
+        const { users, organizations } = await client.seed(typeof scenario === 'string'
+          ? await loadScenario<TPlugins>(resolve(dirname(testInfo.file), scenario), options)
+          : scenario)
+        const entries = Object.entries<CreatedUser<ScenarioTestUser<TPlugins>>>(users)
+        // Register every user for cleanup before anything else can fail
+        for (const [, { user, cookies }] of entries) {
+          created.push(user.email)
+          sessionCookies.set(user.id, cookies)
+        }
+        const handles = {} as Record<string, ScenarioTestUser<TPlugins> & UserRequestContext>
+        for (const [alias, { user, cookies }] of entries)
+          handles[alias] = { ...user, request: await newUserRequest(user, cookies) }
+        return { users: handles, organizations }
+      },
+
+      requestAs: (user, options = {}) =>
+        newUserRequest(user, userCookies(user, 'requestAs'), options.requestAuth),
+
+      createVerificationLink: (user, options) => client.createVerificationLink(user.email, options),
+
+      createPasswordResetLink: (user, options) => client.createPasswordResetLink(user.email, options),
+
+      expireSession: (user, context) =>
+        updateSessionExpiry(user, 'expired', 'expireSession', context),
+
+      setSessionExpiry: (user, expiresAt, context) =>
+        updateSessionExpiry(user, expiresAt, 'setSessionExpiry', context),
+
+      enterRefreshWindow: (user, context) =>
+        updateSessionExpiry(user, 'refresh-window', 'enterRefreshWindow', context),
+
+      async updateSession(user, fields, context) {
+        const token = sessionToken(user, 'updateSession')
+        const { session } = await changeSession(user, context, async options => client.updateSession(token, fields, options))
+        return session
+      },
+
+      switchOrganization: (user, organization, context) =>
+        auth.updateSession(user, {
+          activeOrganizationId: typeof organization === 'object' && organization !== null
+            ? organization.id
+            : organization,
+        }, context),
+
+      async revokeSession(user, context) {
+        const token = sessionToken(user, 'revokeSession')
+        await changeSession(user, context, async options => client.revokeSession(token, options))
+      },
+
+      async revokeAllSessions(user, context) {
+        await changeSession(user, context, async options => client.revokeAllSessions(user.id, options))
+      },
+
+      async generateTOTP(secret, options = {}) {
+        if (typeof secret === 'string')
+          return generateTOTP(secret, options)
+        return generateTOTP(secret.secret, {
+          digits: secret.digits,
+          period: secret.period,
+          ...options,
+        })
+      },
+
+      mailbox,
+
+      cleanup: email => client.deleteUser(email),
+    }
+
+    async function teardown(): Promise<void> {
+      // Drop API contexts first so nothing holds sessions being deleted
+      for (const request of requestContexts) {
+        await request.dispose().catch(() => {})
+      }
+
+      // Auto-cleanup all created users after test, whichever context they used
+      for (const email of created) {
+        await client.deleteUser(email, { ignoreMissing: mayBeDeleted.has(email) })
+      }
+      for (const to of mailboxRecipients) {
+        await mailbox.clear(to).catch((err) => {
+          console.warn(
+            `[better-auth-playwright] mailbox cleanup failed for ${to}:`,
+            err instanceof Error ? err.message : err,
+          )
+        })
+      }
+    }
+
+    return { client, auth, userCookies, activateSession, created, teardown, dispose: () => transport.dispose() }
+  }
+
+  const extended = baseTest.extend<TestAuthFixtures<TPlugins>, TestAuthWorkerFixtures<TPlugins>>({
+    auth: async (
+      { page, browser, playwright, baseURL, extraHTTPHeaders }: {
+        page: Page
+        browser: Browser
+        playwright: PlaywrightWorkerArgs['playwright']
+        baseURL: string | undefined
+        extraHTTPHeaders: Record<string, string> | undefined
+      },
+      use: (r: TestAuth<TPlugins>) => Promise<void>,
+      testInfo: TestInfo,
+    ) => {
+      const contexts: BrowserContext[] = []
+      // Mock OIDC scenario per browser context, and the emails it signs in
+      const oidcScenarios = new Map<BrowserContext, { id: string, behavior: MockOIDCBehavior }>()
+      const oidcEmails = new Set<string>()
+      const authenticators: VirtualAuthenticator[] = []
+
+      // The context each user was last signed into, where session
+      // changes go unless a test names another
+      const signedInto = new Map<string, BrowserContext>()
+      const browserSessions: BrowserSessions = {
+        async signIn(user, cookies, context = page.context()) {
+          signedInto.set(user.id, context)
+          if (cookies.length > 0) {
+            await context.addCookies(cookies)
           }
         },
+        contextFor: (user, context) => context ?? signedInto.get(user.id) ?? page.context(),
+      }
 
-        async createOAuthUser(options) {
-          const email
-            = options.email
-              ?? `test-oauth-${crypto.randomUUID().slice(0, 8)}@test.local`
-
-          const res = await fetch(`${origin}${basePath}/test-data/oauth-user`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'X-Test-Secret': config.secret,
-            },
-            body: JSON.stringify({
-              email,
-              name: options.name,
-              provider: options.provider,
-              providerAccountId: options.providerAccountId,
-              pluginData: options.pluginData,
-            }),
-          })
-
-          if (!res.ok) {
-            const error = await res.text()
-            throw new Error(
-              `better-auth-playwright: createOAuthUser failed (${res.status}): ${error}`,
-            )
-          }
+      const core = await createAuthCore(
+        { playwright, baseURL, extraHTTPHeaders },
+        testInfo,
+        browserSessions,
+      )
+      const { client } = core
 
-          const data = (await res.json()) as {
-            user: { id: string, email: string, name: string }
-            session: { id: string, token: string }
-            account: { provider: OAuthProvider, providerAccountId: string }
-            plugins: Record<string, unknown>
-          }
-          created.push(email)
-          await applyCookiesFromResponse(res)
-
-          return {
-            id: data.user.id,
-            email: data.user.email,
-            name: data.user.name,
-            session: data.session,
-            account: data.account,
-            plugins: data.plugins,
-          }
+      async function configureOIDC(
+        update: (behavior: MockOIDCBehavior) => MockOIDCBehavior,
+        context: BrowserContext = page.context(),
+      ): Promise<void> {
+        if (!config.oidc) {
+          throw new Error(
+            'better-auth-playwright: auth.oidc requires createTestFixtures({ oidc: { issuer } })',
+          )
+        }
+        let scenario = oidcScenarios.get(context)
+        if (!scenario) {
+          scenario = { id: crypto.randomUUID(), behavior: {} }
+          oidcScenarios.set(context, scenario)
+          await context.addCookies([{ name: MOCK_OIDC_SCENARIO_COOKIE, value: scenario.id, url: config.oidc.issuer }])
+        }
+        const behavior = update(scenario.behavior)
+        await setMockOIDCScenario(config.oidc.issuer, scenario.id, behavior, config.oidc)
+        scenario.behavior = behavior
+        if (behavior.identity)
+          oidcEmails.add(behavior.identity.email.toLowerCase())
+      }
+
+      const oidc: TestAuthOIDC = {
+        issuer: config.oidc?.issuer ?? '',
+        setIdentity: (identity, context) => configureOIDC(behavior => ({ ...behavior, identity }), context),
+        denyConsent: context => configureOIDC(behavior => ({ ...behavior, denyConsent: true }), context),
+        failWith: (endpoint, error, context) =>
+          configureOIDC(behavior => ({ ...behavior, errors: { ...behavior.errors, [endpoint]: error } }), context),
+        configure: (update, context) => configureOIDC(behavior => ({ ...behavior, ...update }), context),
+        reset: context => configureOIDC(() => ({}), context),
+      }
+
+      const auth: TestAuth<TPlugins> = {
+        ...core.auth,
+
+        async createUserContext({ contextOptions, ...options } = {}) {
+          const context = await browser.newContext({ baseURL, ...contextOptions })
+          contexts.push(context)
+          const user = await auth.createUser({ ...options, context })
+          return { user, context, page: await context.newPage() }
         },
 
-        async cleanup(email: string) {
-          try {
-            const res = await fetch(`${origin}${basePath}/test-data/delete-user`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'X-Test-Secret': config.secret,
-              },
-              body: JSON.stringify({ email }),
-            })
-            if (!res.ok) {
-              console.warn(
-                `[better-auth-playwright] cleanup failed for ${email}: `
-                + `${res.status} ${res.statusText}`,
-              )
-            }
-            else {
-              const body = await res.json() as { success: boolean, warnings?: string[] }
-              if (body.warnings?.length) {
-                console.warn(
-                  `[better-auth-playwright] cleanup warnings for ${email}:`,
-                  body.warnings.join('; '),
-                )
-              }
-            }
-          }
-          catch (err) {
-            console.warn(
-              `[better-auth-playwright] cleanup failed for ${email}:`,
-              err instanceof Error ? err.message : err,
-            )
-          }
+        async signInAs(user, context) {
+          await browserSessions.signIn(user, core.userCookies(user, 'signInAs'), context)
+        },
+
+        setActiveSession: (user, context) => core.activateSession(user, 'setActiveSession', context),
+
+        oidc,
+
+        async createVirtualAuthenticator({ page: target = page, ...options } = {}) {
+          const authenticator = await createVirtualAuthenticator(target, options)
+          authenticators.push(authenticator)
+          return authenticator
         },
       }
 
       await use(auth)
 
-      // Auto-cleanup all created users after test
-      for (const email of created) {
-        await auth.cleanup(email)
+      for (const authenticator of authenticators) {
+        await authenticator.remove().catch(() => {})
+      }
+
+      // Close extra contexts first so nothing holds sessions being deleted
+      for (const context of contexts) {
+        await context.close().catch(() => {})
+      }
+
+      await core.teardown()
+      // Users signed in through the mock provider may or may not exist
+      for (const email of oidcEmails) {
+        if (!core.created.some(createdEmail => createdEmail.toLowerCase() === email))
+          await client.deleteUser(email, { ignoreMissing: true })
+      }
+      for (const { id } of oidcScenarios.values()) {
+        await setMockOIDCScenario(config.oidc!.issuer, id, null, config.oidc).catch((err) => {
+          console.warn(
+            `[better-auth-playwright] mock OIDC scenario cleanup failed:`,
+            err instanceof Error ? err.message : err,
+          )
+        })
       }
+      await core.dispose()
     },
+
+    apiAuth: async (
+      { playwright, baseURL, extraHTTPHeaders }: {
+        playwright: PlaywrightWorkerArgs['playwright']
+        baseURL: string | undefined
+        extraHTTPHeaders: Record<string, string> | undefined
+      },
+      use: (r: TestApiAuth<TPlugins>) => Promise<void>,
+      testInfo: TestInfo,
+    ) => {
+      const core = await createAuthCore({ playwright, baseURL, extraHTTPHeaders }, testInfo)
+      await use(core.auth)
+      await core.teardown()
+      await core.dispose()
+    },
+
+    workerAuth: [
+      async (
+        { playwright }: { playwright: PlaywrightWorkerArgs['playwright'] },
+        use: (r: WorkerAuth<TPlugins>) => Promise<void>,
+        workerInfo: WorkerInfo,
+      ) => {
+        // baseURL and the request options are test-scoped, so read them
+        // from the project config
+        const { baseURL, extraHTTPHeaders, httpCredentials, ignoreHTTPSErrors, proxy } = workerInfo.project.use
+        if (!baseURL) {
+          throw new Error('baseURL must be configured in Playwright')
+        }
+
+        const transport = await playwright.request.newContext({
+          extraHTTPHeaders,
+          httpCredentials,
+          ignoreHTTPSErrors,
+          proxy,
+          storageState: { cookies: [], origins: [] },
+        })
+
+        const client = createTestDataClient<TPlugins>({
+          baseURL,
+          secret: config.secret,
+          basePath,
+          cookieDomains: config.cookieDomains,
+          // eslint-disable-next-line node/prefer-global/process
+          runId: process.env[RUN_ID_ENV],
+          worker: String(workerInfo.workerIndex),
+          request: transport,
+        })
+        try {
+          await checkServerVersion(baseURL, client)
+        }
+        catch (err) {
+          await transport.dispose()
+          throw err
+        }
+        const created: string[] = []
+        const byKey = new Map<string, Promise<WorkerTestUser<TPlugins>>>()
+
+        const workerAuth: WorkerAuth<TPlugins> = {
+          async createUser(options = {}) {
+            const { user, cookies } = await client.createUser(options)
+            created.push(user.email)
+            return { ...user, storageState: { cookies, origins: [] } }
+          },
+
+          getUser(key, options) {
+            let user = byKey.get(key)
+            if (!user) {
+              user = workerAuth.createUser(options)
+              // Don't cache failures — let the next test retry
+              user.catch(() => byKey.delete(key))
+              byKey.set(key, user)
+            }
+            return user
+          },
+        }
+
+        await use(workerAuth)
+
+        // Auto-cleanup all worker users when the worker shuts down
+        for (const email of created) {
+          await client.deleteUser(email)
+        }
+        await transport.dispose()
+      },
+      { scope: 'worker' },
+    ],
   })
+  return extended as TestWithAuth<TBase, TPlugins>
 }
@@ -0,0 +1,56 @@
+import type { AnyTestDataPlugin } from './types.js'
+import { z } from 'zod/v4'
+
+/**
+ * Validate `pluginData` against the installed test data plugins.
+ *
+ * Unknown plugin IDs are rejected — a typo would otherwise be ignored
+ * and the test would run without the data it asked for. Options of
+ * plugins with an `optionsSchema` are parsed with it, so bad options
+ * fail before anything is written and schema defaults apply. Plugins
+ * without options in the input are left out; they still get `{}`.
+ */
+export function parsePluginData(
+  plugins: readonly AnyTestDataPlugin[],
+  input: Record<string, unknown>,
+): Record<string, unknown> {
+  const known = plugins.map(p => p.id)
+  const unknownIds = Object.keys(input).filter(id => !known.includes(id))
+  if (unknownIds.length > 0) {
+    throw new Error(
+      `unknown plugin ID(s) ${unknownIds.map(id => `"${id}"`).join(', ')} in pluginData; `
+      + `installed test data plugins: ${known.length > 0 ? known.join(', ') : '(none)'}`,
+    )
+  }
+
+  const parsed: Record<string, unknown> = {}
+  for (const plugin of plugins) {
+    const value = input[plugin.id]
+    if (value === undefined)
+      continue
+    if (!plugin.optionsSchema) {
+      parsed[plugin.id] = value
+      continue
+    }
+
+    const result = plugin.optionsSchema.safeParse(value)
+    if (!result.success) {
+      const issue = result.error.issues[0]!
+      const field = ['pluginData', plugin.id, ...issue.path.map(String)].join('.')
+      throw new Error(`${field}: ${issue.message}`)
+    }
+    parsed[plugin.id] = result.data
+  }
+  return parsed
+}
+
+/**
+ * JSON Schema of a plugin's options as the client sends them, or null
+ * when the plugin declares no schema. Parts JSON Schema cannot express
+ * (transforms, custom checks) become unconstrained.
+ */
+export function pluginOptionsJsonSchema(plugin: AnyTestDataPlugin): Record<string, unknown> | null {
+  if (!plugin.optionsSchema)
+    return null
+  return z.toJSONSchema(plugin.optionsSchema, { io: 'input', unrepresentable: 'any' }) as Record<string, unknown>
+}
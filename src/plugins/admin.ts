@@ -0,0 +1,176 @@
+import type { AuthContext, Session, User } from 'better-auth'
+import type { CreateUserContext, TestDataPlugin } from '../types.js'
+import { z } from 'zod/v4'
+
+export interface AdminTestOptions {
+  /** Role(s) to assign. Multiple roles are stored comma-separated */
+  role?: string | string[]
+  /** Ban the user. Banned users get no session cookie */
+  banned?: boolean
+  /** Reason stored alongside the ban */
+  banReason?: string
+  /** When the ban expires (Date or ISO string). Omit for a permanent ban */
+  banExpires?: Date | string
+  /**
+   * ID of an admin user who impersonates the created user.
+   * The browser receives the impersonation session (with
+   * `impersonatedBy` set) plus the admin's session in the
+   * `admin_session` cookie, exactly like `/admin/impersonate-user`.
+   */
+  impersonatedBy?: string
+  /** Skip admin field updates entirely */
+  skip?: boolean
+}
+
+const adminTestOptionsSchema = z.strictObject({
+  role: z.union([z.string().min(1), z.array(z.string().min(1))]).optional(),
+  banned: z.boolean().optional(),
+  banReason: z.string().optional(),
+  banExpires: z.union([z.date(), z.string()])
+    .refine(value => !Number.isNaN(new Date(value).valueOf()), 'Must be a date or an ISO date string')
+    .optional(),
+  impersonatedBy: z.string().min(1).optional(),
+  skip: z.boolean().optional(),
+})
+
+export interface AdminTestResult {
+  role: string | null
+  banned: boolean
+  banReason: string | null
+  banExpires: Date | null
+  impersonation: {
+    sessionId: string
+    sessionToken: string
+    impersonatedBy: string
+    expiresAt: Date
+  } | null
+}
+
+interface AdminPluginOptions {
+  roles?: Record<string, unknown>
+  impersonationSessionDuration?: number
+}
+
+const ADMIN_SESSION_COOKIE_NAME = 'admin_session'
+
+export function adminTest(
+  defaults?: AdminTestOptions,
+): TestDataPlugin<'admin', AdminTestOptions, AdminTestResult | null> {
+  return {
+    id: 'admin',
+    optionsSchema: adminTestOptionsSchema,
+
+    async onCreateUser(ctx: CreateUserContext, opts: AdminTestOptions) {
+      const options = { ...defaults, ...opts }
+
+      if (options.skip)
+        return null
+
+      const authPlugin = ctx.authContext.getPlugin('admin')
+      if (!authPlugin) {
+        throw new Error(
+          'adminTest requires the Better Auth "admin" plugin to be installed',
+        )
+      }
+      const pluginOptions = (authPlugin.options ?? {}) as AdminPluginOptions
+
+      if (options.banned && options.impersonatedBy) {
+        throw new Error('a banned user cannot be impersonated (banned and impersonatedBy are mutually exclusive)')
+      }
+
+      const roles = options.role == null
+        ? []
+        : Array.isArray(options.role) ? options.role : [options.role]
+      if (pluginOptions.roles) {
+        const unknownRoles = roles.filter(role => !pluginOptions.roles![role])
+        if (unknownRoles.length > 0) {
+          throw new Error(
+            `role "${unknownRoles.join(', ')}" is not defined in the admin plugin's roles`,
+          )
+        }
+      }
+
+      const adapter = ctx.authContext.internalAdapter
+      const banExpires = options.banExpires != null ? new Date(options.banExpires) : null
+      const updated = await adapter.updateUser(ctx.user.id, {
+        ...(roles.length > 0 ? { role: roles.join(',') } : {}),
+        ...(options.banned
+          ? {
+              banned: true,
+              banReason: options.banReason ?? null,
+              banExpires,
+            }
+          : {}),
+      }) as User & { role?: string | null }
+
+      // Banning revokes every session, same as /admin/ban-user
+      if (options.banned) {
+        await adapter.deleteSessions(ctx.user.id)
+        ctx.sessionCookie.token = null
+      }
+
+      let impersonation: AdminTestResult['impersonation'] = null
+      if (options.impersonatedBy) {
+        const adminUser = await adapter.findUserById(options.impersonatedBy)
+        if (!adminUser) {
+          throw new Error(`impersonating admin "${options.impersonatedBy}" not found`)
+        }
+
+        // Reuse the admin's live session if it has one, so stopping
+        // impersonation returns to the session the admin test user holds
+        const adminSessions = await adapter.listSessions(adminUser.id) as (Session & { impersonatedBy?: string | null })[]
+        const adminSession = adminSessions.find(
+          s => !s.impersonatedBy && new Date(s.expiresAt) > new Date(),
+        ) ?? await adapter.createSession(adminUser.id)
+
+        const duration = pluginOptions.impersonationSessionDuration ?? 3600
+        const session = await adapter.createSession(ctx.user.id, true, {
+          impersonatedBy: adminUser.id,
+          expiresAt: new Date(Date.now() + duration * 1000),
+        }, true)
+
+        const adminCookie = ctx.authContext.createAuthCookie(ADMIN_SESSION_COOKIE_NAME)
+        await ctx.endpoint.setSignedCookie(
+          adminCookie.name,
+          `${adminSession.token}:`,
+          ctx.authContext.secret,
+          ctx.authContext.authCookies.sessionToken.attributes,
+        )
+        ctx.sessionCookie.token = session.token
+
+        impersonation = {
+          sessionId: session.id,
+          sessionToken: session.token,
+          impersonatedBy: adminUser.id,
+          expiresAt: session.expiresAt,
+        }
+      }
+
+      return {
+        role: updated?.role ?? null,
+        banned: !!options.banned,
+        banReason: options.banned ? options.banReason ?? null : null,
+        banExpires: options.banned ? banExpires : null,
+        impersonation,
+      }
+    },
+
+    async onDeleteUser(ctx: AuthContext, user: User) {
+      try {
+        // Impersonation sessions are owned by the impersonated user and
+        // removed with them; only sessions this user started as admin
+        // remain, and those must not outlive the admin.
+        const sessions = await ctx.adapter.findMany<{ token: string }>({
+          model: 'session',
+          where: [{ field: 'impersonatedBy', value: user.id }],
+        })
+        for (const session of sessions) {
+          await ctx.internalAdapter.deleteSession(session.token)
+        }
+      }
+      catch {
+        // Best-effort cleanup: impersonation sessions expire on their own.
+      }
+    },
+  }
+}
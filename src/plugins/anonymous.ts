@@ -0,0 +1,71 @@
+import type { CreateUserContext, TestDataPlugin } from '../types.js'
+import { z } from 'zod/v4'
+
+export interface AnonymousTestOptions {
+  /**
+   * Make the user anonymous. Defaults to false: unlike other test data
+   * plugins this one is opt-in, so only users asking for it (e.g. via
+   * `auth.createAnonymousUser()`) are anonymous
+   */
+  isAnonymous?: boolean
+}
+
+const anonymousTestOptionsSchema = z.strictObject({
+  isAnonymous: z.boolean().optional(),
+})
+
+export interface AnonymousTestResult {
+  isAnonymous: true
+  /** The placeholder email the anonymous plugin would have generated */
+  email: string
+}
+
+interface AnonymousPluginOptions {
+  emailDomainName?: string
+  generateRandomEmail?: () => string | Promise<string>
+}
+
+// Same placeholder emails as /sign-in/anonymous
+async function anonymousEmail(options: AnonymousPluginOptions): Promise<string> {
+  const custom = await options.generateRandomEmail?.()
+  if (custom)
+    return custom
+  const id = crypto.randomUUID().replace(/-/g, '')
+  return options.emailDomainName
+    ? `temp-${id}@${options.emailDomainName}`
+    : `temp@${id}.com`
+}
+
+export function anonymousTest(
+  defaults?: AnonymousTestOptions,
+): TestDataPlugin<'anonymous', AnonymousTestOptions, AnonymousTestResult | null> {
+  return {
+    id: 'anonymous',
+    optionsSchema: anonymousTestOptionsSchema,
+
+    async onCreateUser(ctx: CreateUserContext, opts: AnonymousTestOptions) {
+      const options = { ...defaults, ...opts }
+
+      if (!options.isAnonymous)
+        return null
+
+      const authPlugin = ctx.authContext.getPlugin('anonymous')
+      if (!authPlugin) {
+        throw new Error(
+          'anonymousTest requires the Better Auth "anonymous" plugin to be installed',
+        )
+      }
+
+      // Anonymous users have a generated, unverified email, exactly
+      // like users from /sign-in/anonymous
+      const email = await anonymousEmail((authPlugin.options ?? {}) as AnonymousPluginOptions)
+      await ctx.authContext.internalAdapter.updateUser(ctx.user.id, {
+        email,
+        emailVerified: false,
+        isAnonymous: true,
+      })
+
+      return { isAnonymous: true, email }
+    },
+  }
+}
@@ -1,5 +1,6 @@
 import type { AuthContext, User } from 'better-auth'
 import type { CreateUserContext, TestDataPlugin } from '../types.js'
+import { z } from 'zod/v4'
 
 export interface ApiKeyTestOptions {
   /** Key display name. Defaults to "test-key" */
@@ -18,6 +19,16 @@ export interface ApiKeyTestOptions {
   skip?: boolean
 }
 
+const apiKeyTestOptionsSchema = z.strictObject({
+  name: z.string().optional(),
+  prefix: z.string().optional(),
+  expiresIn: z.number().optional(),
+  remaining: z.number().int().nonnegative().optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  permissions: z.record(z.string(), z.array(z.string())).optional(),
+  skip: z.boolean().optional(),
+})
+
 export interface ApiKeyTestResult {
   id: string
   /** The raw unhashed key — only available at creation time */
@@ -56,6 +67,7 @@ export function apiKeyTest(
 ): TestDataPlugin<'api-key', ApiKeyTestOptions, ApiKeyTestResult | null> {
   return {
     id: 'api-key',
+    optionsSchema: apiKeyTestOptionsSchema,
 
     async onCreateUser(ctx: CreateUserContext, opts: ApiKeyTestOptions) {
       const options = { ...defaults, ...opts }
@@ -0,0 +1,76 @@
+import type { CreateUserContext, TestDataPlugin } from '../types.js'
+import { z } from 'zod/v4'
+
+export interface BearerTestOptions {
+  /** Skip token creation entirely */
+  skip?: boolean
+}
+
+const bearerTestOptionsSchema = z.strictObject({
+  skip: z.boolean().optional(),
+})
+
+export interface BearerTestResult {
+  /**
+   * The signed session token, as the bearer plugin's `set-auth-token`
+   * header returns it. Send it as `Authorization: Bearer <token>`.
+   */
+  token: string
+  /** Ready-made `Authorization` header */
+  headers: { Authorization: string }
+}
+
+// Same format as Better Auth's signed session cookie: the token, a dot
+// and its base64 HMAC-SHA256 signature, URI-encoded
+async function signSessionToken(token: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(token))
+  return encodeURIComponent(`${token}.${btoa(String.fromCharCode(...new Uint8Array(signature)))}`)
+}
+
+function bearerResult(token: string): BearerTestResult {
+  return { token, headers: { Authorization: `Bearer ${token}` } }
+}
+
+export function bearerTest(
+  defaults?: BearerTestOptions,
+): TestDataPlugin<'bearer', BearerTestOptions, BearerTestResult | null> {
+  return {
+    id: 'bearer',
+    optionsSchema: bearerTestOptionsSchema,
+
+    async onCreateUser(ctx: CreateUserContext, opts: BearerTestOptions) {
+      const options = { ...defaults, ...opts }
+
+      if (options.skip)
+        return null
+
+      if (!ctx.authContext.getPlugin('bearer')) {
+        throw new Error(
+          'bearerTest requires the Better Auth "bearer" plugin to be installed',
+        )
+      }
+
+      return bearerResult(await signSessionToken(ctx.session.token, ctx.authContext.secret))
+    },
+
+    // Sign the session the user ends up with: other plugins may swap it
+    // (an impersonation session) or withhold it (a pending 2FA
+    // challenge, a ban), and a token for a deleted session is no use
+    async afterCreateUser(ctx: CreateUserContext, result: BearerTestResult | null) {
+      if (!result || !ctx.sessionCookie.token)
+        return null
+      if (!await ctx.authContext.internalAdapter.findSession(ctx.sessionCookie.token))
+        return null
+
+      return bearerResult(await signSessionToken(ctx.sessionCookie.token, ctx.authContext.secret))
+    },
+  }
+}
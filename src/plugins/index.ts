@@ -1,3 +1,29 @@
+export { adminTest } from './admin.js'
+export type { AdminTestOptions, AdminTestResult } from './admin.js'
+export { anonymousTest } from './anonymous.js'
+export type { AnonymousTestOptions, AnonymousTestResult } from './anonymous.js'
 export { apiKeyTest } from './api-key.js'
 export type { ApiKeyTestOptions, ApiKeyTestResult } from './api-key.js'
+export { bearerTest } from './bearer.js'
+export type { BearerTestOptions, BearerTestResult } from './bearer.js'
+export { jwtTest } from './jwt.js'
+export type { JwtTestOptions, JwtTestResult } from './jwt.js'
 export { organizationTest } from './organization.js'
+export type {
+  OrganizationTestDefaults,
+  OrgTestInvitation,
+  OrgTestMember,
+  OrgTestOptions,
+  OrgTestOrganization,
+  OrgTestOrganizationOptions,
+  OrgTestResult,
+  OrgTestTeam,
+} from './organization.js'
+export { passkeyTest } from './passkey.js'
+export type { PasskeyTestOptions, PasskeyTestResult } from './passkey.js'
+export { phoneNumberTest } from './phone-number.js'
+export type { PhoneNumberTestOptions, PhoneNumberTestResult } from './phone-number.js'
+export { twoFactorTest } from './two-factor.js'
+export type { TwoFactorTestOptions, TwoFactorTestResult } from './two-factor.js'
+export { usernameTest } from './username.js'
+export type { UsernameTestOptions, UsernameTestResult } from './username.js'
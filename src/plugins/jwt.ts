@@ -0,0 +1,110 @@
+import type { JwtOptions } from 'better-auth/plugins'
+import type { CreateUserContext, TestDataPlugin } from '../types.js'
+import { z } from 'zod/v4'
+
+export interface JwtTestOptions {
+  /**
+   * Claims added to the app's payload, overriding it (and `sub`) where
+   * they overlap — e.g. `{ role: 'admin' }` or `{ nbf: <future> }`
+   */
+  claims?: Record<string, unknown>
+  /**
+   * Token lifetime in seconds. Zero or negative mints an already-expired
+   * token. Defaults to the plugin's `jwt.expirationTime` (15 minutes)
+   */
+  expiresIn?: number
+  /** `iss` claim. Defaults to the plugin's `jwt.issuer` (the app's base URL) */
+  issuer?: string
+  /** `aud` claim. Defaults to the plugin's `jwt.audience` (the app's base URL) */
+  audience?: string | string[]
+  /** Skip token creation entirely */
+  skip?: boolean
+}
+
+const jwtTestOptionsSchema = z.strictObject({
+  claims: z.record(z.string(), z.unknown()).optional(),
+  expiresIn: z.number().optional(),
+  issuer: z.string().min(1).optional(),
+  audience: z.union([z.string().min(1), z.array(z.string().min(1))]).optional(),
+  skip: z.boolean().optional(),
+})
+
+export interface JwtTestResult {
+  /** The signed JWT, as `/token` would return it for the new session */
+  token: string
+  /** The token's claims */
+  payload: Record<string, unknown>
+  expiresAt: Date
+}
+
+async function importJwtPlugin(): Promise<typeof import('better-auth/plugins')> {
+  try {
+    return await import('better-auth/plugins')
+  }
+  catch (err) {
+    throw new Error(
+      'better-auth-playwright: jwtTest requires "better-auth" to be installed. '
+      + 'Could not import signJWT from "better-auth/plugins".',
+      { cause: err },
+    )
+  }
+}
+
+function decodePayload(token: string): Record<string, unknown> {
+  const base64 = token.split('.')[1]!.replace(/-/g, '+').replace(/_/g, '/')
+  const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0))
+  return JSON.parse(new TextDecoder().decode(bytes))
+}
+
+export function jwtTest(
+  defaults?: JwtTestOptions,
+): TestDataPlugin<'jwt', JwtTestOptions, JwtTestResult | null> {
+  return {
+    id: 'jwt',
+    optionsSchema: jwtTestOptionsSchema,
+
+    async onCreateUser(ctx: CreateUserContext, opts: JwtTestOptions) {
+      const options = { ...defaults, ...opts }
+
+      if (options.skip)
+        return null
+
+      const authPlugin = ctx.authContext.getPlugin('jwt')
+      if (!authPlugin) {
+        throw new Error(
+          'jwtTest requires the Better Auth "jwt" plugin to be installed',
+        )
+      }
+      const pluginOptions = authPlugin.options as JwtOptions | undefined
+
+      const { signJWT } = await importJwtPlugin()
+
+      // Same payload as the plugin's getJwtToken, signed with the app's
+      // current JWKS key (created on first use, like the plugin does)
+      const session = { user: ctx.user, session: ctx.session }
+      const iat = Math.floor(Date.now() / 1000)
+      const payload = pluginOptions?.jwt?.definePayload
+        ? await pluginOptions.jwt.definePayload(session)
+        : ctx.user
+      const token = await signJWT(ctx.endpoint, {
+        options: pluginOptions,
+        payload: {
+          iat,
+          ...payload,
+          sub: await pluginOptions?.jwt?.getSubject?.(session) ?? ctx.user.id,
+          ...options.claims,
+          ...(options.expiresIn !== undefined && { exp: iat + options.expiresIn }),
+          ...(options.issuer !== undefined && { iss: options.issuer }),
+          ...(options.audience !== undefined && { aud: options.audience }),
+        },
+      })
+
+      const claims = decodePayload(token)
+      return {
+        token,
+        payload: claims,
+        expiresAt: new Date((claims.exp as number) * 1000),
+      }
+    },
+  }
+}
@@ -1,23 +1,157 @@
 import type { AuthContext, User } from 'better-auth'
+import type { OrganizationOptions } from 'better-auth/plugins'
 import type { CreateUserContext, TestDataPlugin } from '../types.js'
+import { z } from 'zod/v4'
 
-interface OrgTestOptions {
+/**
+ * A user referenced from test data: an email address (anything with
+ * an `@`) or a user ID. The user must already exist.
+ */
+type UserRef = string
+
+/** Role(s) in an organization. Multiple roles are stored comma-separated */
+type OrgRole = string | string[]
+
+export interface OrgTestMember {
+  /** Existing user, by email or ID */
+  user: UserRef
+  /** Defaults to `'member'` */
+  role?: OrgRole
+}
+
+export interface OrgTestTeam {
+  name: string
+  /**
+   * Organization members to add to the team, by email or ID.
+   * The created user joins every team unless `join` is `false`.
+   */
+  members?: UserRef[]
+  /** Add the created user to the team. Defaults to `true` */
+  join?: boolean
+}
+
+export interface OrgTestInvitation {
+  /** Invitee email; it doesn't need to belong to an existing user */
+  email: string
+  /** Defaults to `'member'` */
+  role?: OrgRole
+  /**
+   * Invitation state. `'expired'` is a pending invitation whose
+   * `expiresAt` has passed, which is how Better Auth models it.
+   * Defaults to `'pending'`.
+   */
+  status?: 'pending' | 'expired' | 'accepted' | 'rejected' | 'canceled'
+  /** Teams to join on acceptance, by name */
+  teams?: string[]
+}
+
+export interface OrgTestOrganizationOptions {
   /** Organization name. Defaults to "{user.name}'s Org" */
   name?: string
   /** Organization slug. Defaults to slugified email prefix */
   slug?: string
-  /** User's role in the org. Defaults to 'owner' */
-  role?: 'owner' | 'admin' | 'member'
+  /**
+   * User's role in the org. Defaults to the plugin's `creatorRole`
+   * (`'owner'`). Validated against the plugin's `roles` when custom
+   * access control is configured.
+   */
+  role?: OrgRole
+  /** Other existing users to add as members */
+  members?: OrgTestMember[]
+  /** Teams to create. Requires `teams.enabled` in the organization plugin */
+  teams?: OrgTestTeam[]
+  /** Invitations to create, sent by the created user */
+  invitations?: OrgTestInvitation[]
+}
+
+export interface OrgTestOptions extends OrgTestOrganizationOptions {
+  /**
+   * Further organizations the user belongs to, created after the one
+   * described by the top-level options
+   */
+  organizations?: OrgTestOrganizationOptions[]
+  /** Slug of the session's active organization. Defaults to the first one */
+  activeOrganization?: string
+  /** Name of the session's active team, within the active organization */
+  activeTeam?: string
   /** Skip org creation entirely (for bare-user scenarios) */
   skip?: boolean
 }
 
-interface OrgTestResult {
+export interface OrganizationTestDefaults extends OrgTestOptions {
+  /**
+   * Builds the link an invitation email would carry. Defaults to
+   * `{origin}/accept-invitation/{id}`, the path Better Auth's docs use.
+   */
+  acceptInvitationURL?: (invitation: { id: string, email: string, organizationId: string }) => string
+}
+
+const roleSchema = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)])
+
+const orgSchema = z.strictObject({
+  name: z.string().min(1).optional(),
+  slug: z.string().min(1).optional(),
+  role: roleSchema.optional(),
+  members: z.array(z.strictObject({
+    user: z.string().min(1),
+    role: roleSchema.optional(),
+  })).optional(),
+  teams: z.array(z.strictObject({
+    name: z.string().min(1),
+    members: z.array(z.string().min(1)).optional(),
+    join: z.boolean().optional(),
+  })).optional(),
+  invitations: z.array(z.strictObject({
+    email: z.email(),
+    role: roleSchema.optional(),
+    status: z.enum(['pending', 'expired', 'accepted', 'rejected', 'canceled']).optional(),
+    teams: z.array(z.string().min(1)).optional(),
+  })).optional(),
+})
+
+const orgTestOptionsSchema = orgSchema.extend({
+  organizations: z.array(orgSchema).optional(),
+  activeOrganization: z.string().min(1).optional(),
+  activeTeam: z.string().min(1).optional(),
+  skip: z.boolean().optional(),
+})
+
+export interface OrgTestOrganization {
   id: string
   name: string
   slug: string
+  /** The created user's role */
+  role: string
+  /** Every member, the created user first */
+  members: { id: string, userId: string, email: string, role: string }[]
+  teams: { id: string, name: string, memberIds: string[] }[]
+  invitations: {
+    id: string
+    email: string
+    role: string
+    status: string
+    expiresAt: Date
+    teamIds: string[]
+    /** Link for the invitee to accept, built by `acceptInvitationURL` */
+    url: string
+  }[]
+}
+
+export interface OrgTestResult extends OrgTestOrganization {
+  /** All created organizations, the top-level one first */
+  organizations: OrgTestOrganization[]
+  activeOrganizationId: string
+  activeTeamId: string | null
 }
 
+const DEFAULT_ROLES = ['owner', 'admin', 'member']
+
+/**
+ * Prefix of the verification record listing the organizations created
+ * for a user, so deleting the user leaves orgs it merely joined alone
+ */
+const ORG_TAG_PREFIX = 'better-auth-playwright:organizations:'
+
 async function importOrgPlugin(): Promise<typeof import('better-auth/plugins')> {
   try {
     return await import('better-auth/plugins')
@@ -32,64 +166,229 @@ async function importOrgPlugin(): Promise<typeof import('better-auth/plugins')>
 }
 
 export function organizationTest(
-  defaults?: OrgTestOptions,
+  defaults?: OrganizationTestDefaults,
 ): TestDataPlugin<'organization', OrgTestOptions, OrgTestResult | null> {
+  function getPluginOptions(ctx: AuthContext): OrganizationOptions {
+    return (ctx.getPlugin('organization')?.options ?? {}) as OrganizationOptions
+  }
+
   // eslint-disable-next-line ts/explicit-function-return-type
   async function getAdapter(ctx: AuthContext) {
     const { getOrgAdapter } = await importOrgPlugin()
-    return getOrgAdapter(ctx)
+    return getOrgAdapter(ctx, getPluginOptions(ctx))
   }
 
   return {
     id: 'organization',
+    optionsSchema: orgTestOptionsSchema,
 
     async onCreateUser(ctx: CreateUserContext, opts: OrgTestOptions) {
-      const options = { ...defaults, ...opts }
+      const { acceptInvitationURL, ...options } = { ...defaults, ...opts }
 
       if (options.skip)
         return null
 
+      const pluginOptions = getPluginOptions(ctx.authContext)
       const orgAdapter = await getAdapter(ctx.authContext)
+      const adapter = ctx.authContext.internalAdapter
 
-      const name = options.name ?? `${ctx.user.name}'s Org`
-      const slug
-        = options.slug
-          ?? ctx.user.email
-            .split('@')[0]
-            .replace(/[^a-z0-9-]/g, '-')
-      const role = options.role ?? 'owner'
+      const knownRoles = pluginOptions.roles ? Object.keys(pluginOptions.roles) : DEFAULT_ROLES
+      function parseRole(role: OrgRole): string {
+        const roles = Array.isArray(role) ? role : [role]
+        const unknownRoles = roles.filter(r => !knownRoles.includes(r))
+        if (unknownRoles.length > 0) {
+          throw new Error(
+            `role "${unknownRoles.join(', ')}" is not defined in the organization plugin's roles`,
+          )
+        }
+        return roles.join(',')
+      }
 
-      const org = await orgAdapter.createOrganization({
-        organization: { name, slug, createdAt: new Date() },
-      })
+      async function findUser(ref: UserRef): Promise<User> {
+        const user = ref.includes('@')
+          ? (await adapter.findUserByEmail(ref.toLowerCase()))?.user
+          : await adapter.findUserById(ref)
+        if (!user)
+          throw new Error(`organization member "${ref}" not found`)
+        return user
+      }
 
-      await orgAdapter.createMember({
-        organizationId: org.id,
-        userId: ctx.user.id,
-        role,
+      const urlFor = acceptInvitationURL
+        ?? (invitation => `${new URL(ctx.authContext.baseURL).origin}/accept-invitation/${invitation.id}`)
+      const defaultSlug = ctx.user.email
+        .split('@')[0]
+        .replace(/[^a-z0-9-]/g, '-')
+      const specs = [options, ...(options.organizations ?? [])]
+
+      const organizations: OrgTestOrganization[] = []
+      for (const [index, spec] of specs.entries()) {
+        const suffix = index === 0 ? '' : `-${index + 1}`
+        const name = spec.name ?? `${ctx.user.name}'s Org${index === 0 ? '' : ` ${index + 1}`}`
+        const slug = spec.slug ?? `${defaultSlug}${suffix}`
+        const role = parseRole(spec.role ?? pluginOptions.creatorRole ?? 'owner')
+
+        if ((spec.teams?.length ?? 0) > 0 && !pluginOptions.teams?.enabled) {
+          throw new Error(
+            'organizationTest teams require `teams: { enabled: true }` in the Better Auth "organization" plugin',
+          )
+        }
+
+        const org = await orgAdapter.createOrganization({
+          organization: { name, slug, createdAt: new Date() },
+        })
+
+        const members: OrgTestOrganization['members'] = []
+        const creator = await orgAdapter.createMember({
+          organizationId: org.id,
+          userId: ctx.user.id,
+          role,
+        })
+        members.push({ id: creator.id, userId: ctx.user.id, email: ctx.user.email, role })
+
+        for (const member of spec.members ?? []) {
+          const user = await findUser(member.user)
+          const memberRole = parseRole(member.role ?? 'member')
+          const created = await orgAdapter.createMember({
+            organizationId: org.id,
+            userId: user.id,
+            role: memberRole,
+          })
+          members.push({ id: created.id, userId: user.id, email: user.email, role: memberRole })
+        }
+
+        // Team members must belong to the org, like addTeamMember requires
+        function findMember(ref: UserRef): OrgTestOrganization['members'][number] {
+          const member = members.find(m => ref.includes('@')
+            ? m.email === ref.toLowerCase()
+            : m.userId === ref)
+          if (!member)
+            throw new Error(`team member "${ref}" is not a member of organization "${slug}"`)
+          return member
+        }
+
+        const teams: OrgTestOrganization['teams'] = []
+        for (const team of spec.teams ?? []) {
+          const created = await orgAdapter.createTeam({
+            name: team.name,
+            organizationId: org.id,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          })
+          const userIds = [
+            ...(team.join ?? true ? [ctx.user.id] : []),
+            ...(team.members ?? []).map(ref => findMember(ref).userId),
+          ]
+          for (const userId of new Set(userIds))
+            await orgAdapter.findOrCreateTeamMember({ teamId: created.id, userId })
+          teams.push({ id: created.id, name: created.name, memberIds: [...new Set(userIds)] })
+        }
+
+        function findTeam(teamName: string): OrgTestOrganization['teams'][number] {
+          const team = teams.find(t => t.name === teamName)
+          if (!team)
+            throw new Error(`team "${teamName}" is not defined in organization "${slug}"`)
+          return team
+        }
+
+        const invitations: OrgTestOrganization['invitations'] = []
+        for (const entry of spec.invitations ?? []) {
+          const status = entry.status ?? 'pending'
+          const email = entry.email.toLowerCase()
+          const invitationRole = parseRole(entry.role ?? 'member')
+          const teamIds = (entry.teams ?? []).map(teamName => findTeam(teamName).id)
+          const invitation = await orgAdapter.createInvitation({
+            invitation: {
+              email,
+              role: invitationRole,
+              organizationId: org.id,
+              teamIds,
+              ...(status === 'expired' && { expiresAt: new Date(Date.now() - 60_000) }),
+            },
+            user: ctx.user,
+          })
+          if (status !== 'pending' && status !== 'expired')
+            await orgAdapter.updateInvitation({ invitationId: invitation.id, status })
+
+          invitations.push({
+            id: invitation.id,
+            email,
+            role: invitationRole,
+            status: status === 'expired' ? 'pending' : status,
+            expiresAt: new Date(invitation.expiresAt),
+            teamIds,
+            url: urlFor({ id: invitation.id, email, organizationId: org.id }),
+          })
+        }
+
+        organizations.push({ id: org.id, name: org.name, slug: org.slug, role, members, teams, invitations })
+      }
+
+      const active = options.activeOrganization == null
+        ? organizations[0]
+        : organizations.find(org => org.slug === options.activeOrganization)
+      if (!active)
+        throw new Error(`active organization "${options.activeOrganization}" is not one of the created organizations`)
+
+      let activeTeamId: string | null = null
+      if (options.activeTeam != null) {
+        const team = active.teams.find(t => t.name === options.activeTeam)
+        if (!team)
+          throw new Error(`active team "${options.activeTeam}" is not defined in organization "${active.slug}"`)
+        activeTeamId = team.id
+      }
+
+      // Only these orgs are deleted with the user; orgs it was added
+      // to as a member of someone else's belong to that user
+      await adapter.createVerificationValue({
+        identifier: `${ORG_TAG_PREFIX}${ctx.user.id}`,
+        value: JSON.stringify(organizations.map(org => org.id)),
+        expiresAt: new Date('9999-12-31T00:00:00.000Z'),
       })
 
-      // Set active org on session so middleware doesn't redirect
-      const adapter = ctx.authContext.internalAdapter
+      // Set active org (and team) on session so middleware doesn't redirect
       await adapter.updateSession(ctx.session.token, {
-        activeOrganizationId: org.id,
+        activeOrganizationId: active.id,
+        ...(activeTeamId && { activeTeamId }),
       })
 
-      return { id: org.id, name: org.name, slug: org.slug }
+      // A copy: better-call serializes objects seen twice as "[Circular]"
+      return {
+        ...structuredClone(organizations[0]!),
+        organizations,
+        activeOrganizationId: active.id,
+        activeTeamId,
+      }
     },
 
     async onDeleteUser(ctx: AuthContext, user: User) {
+      const identifier = `${ORG_TAG_PREFIX}${user.id}`
+      const tags = await ctx.adapter.findMany<{ value: string }>({
+        model: 'verification',
+        where: [{ field: 'identifier', value: identifier }],
+      })
+      const orgIds = tags.flatMap(tag => JSON.parse(tag.value) as string[])
       const orgAdapter = await getAdapter(ctx)
-      const orgs = await orgAdapter.listOrganizations(user.id)
-      for (const org of orgs) {
+      const failures: string[] = []
+      for (const orgId of orgIds) {
         try {
-          await orgAdapter.deleteOrganization(org.id)
+          // deleteOrganization removes members and invitations, not teams
+          if (getPluginOptions(ctx).teams?.enabled) {
+            for (const team of await orgAdapter.listTeams(orgId))
+              await orgAdapter.deleteTeam(team.id)
+          }
+          await orgAdapter.deleteOrganization(orgId)
         }
-        catch {
-          // Best-effort: continue deleting remaining orgs.
-          // The organization schema may cascade-delete when the user is removed.
+        catch (err) {
+          // Continue with the remaining orgs, then report
+          failures.push(`${orgId}: ${err instanceof Error ? err.message : String(err)}`)
         }
       }
+      await ctx.adapter.deleteMany({
+        model: 'verification',
+        where: [{ field: 'identifier', value: identifier }],
+      })
+      if (failures.length > 0)
+        throw new Error(`could not delete organizations ${failures.join('; ')}`)
     },
   }
 }
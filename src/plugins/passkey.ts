@@ -0,0 +1,151 @@
+import type { AuthContext, User } from 'better-auth'
+import type { CreateUserContext, TestDataPlugin } from '../types.js'
+import { z } from 'zod/v4'
+
+export interface PasskeyTestOptions {
+  /** Passkey name shown in the app's passkey list. Defaults to "Test passkey" */
+  name?: string
+  /**
+   * Whether the credential is synced (a multi-device passkey).
+   * Defaults to false, a device-bound credential.
+   */
+  backedUp?: boolean
+  /** Transports stored with the credential. Defaults to `['internal']` */
+  transports?: string[]
+  /** Skip passkey creation entirely */
+  skip?: boolean
+}
+
+const passkeyTestOptionsSchema = z.strictObject({
+  name: z.string().min(1).optional(),
+  backedUp: z.boolean().optional(),
+  transports: z.array(z.string().min(1)).optional(),
+  skip: z.boolean().optional(),
+})
+
+export interface PasskeyTestResult {
+  /** ID of the stored passkey record */
+  id: string
+  name: string
+  /** Credential ID, base64url-encoded */
+  credentialId: string
+  /** Relying party ID the credential is scoped to */
+  rpId: string
+  /** User handle the authenticator returns, base64url-encoded */
+  userHandle: string
+  /**
+   * The credential's ES256 private key (PKCS#8, base64url-encoded).
+   * Load it into a virtual authenticator to sign in with the passkey.
+   */
+  privateKey: string
+  /** Signature counter stored with the credential */
+  signCount: number
+}
+
+interface PasskeyPluginOptions {
+  rpID?: string
+}
+
+function base64url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// COSE_Key for an ES256 public key, CBOR-encoded as authenticators
+// return it: {1: 2 (EC2), 3: -7 (ES256), -1: 1 (P-256), -2: x, -3: y}
+function coseP256PublicKey(raw: Uint8Array): Uint8Array {
+  const x = raw.subarray(1, 33)
+  const y = raw.subarray(33, 65)
+  return new Uint8Array([
+    0xA5,
+    0x01,
+    0x02,
+    0x03,
+    0x26,
+    0x20,
+    0x01,
+    0x21,
+    0x58,
+    0x20,
+    ...x,
+    0x22,
+    0x58,
+    0x20,
+    ...y,
+  ])
+}
+
+export function passkeyTest(
+  defaults?: PasskeyTestOptions,
+): TestDataPlugin<'passkey', PasskeyTestOptions, PasskeyTestResult | null> {
+  return {
+    id: 'passkey',
+    optionsSchema: passkeyTestOptionsSchema,
+
+    async onCreateUser(ctx: CreateUserContext, opts: PasskeyTestOptions) {
+      const options = { ...defaults, ...opts }
+
+      if (options.skip)
+        return null
+
+      const authPlugin = ctx.authContext.getPlugin('passkey')
+      if (!authPlugin) {
+        throw new Error(
+          'passkeyTest requires the Better Auth "passkey" plugin to be installed',
+        )
+      }
+      const pluginOptions = (authPlugin.options ?? {}) as PasskeyPluginOptions
+
+      // A credential as a platform authenticator would create it: a
+      // fresh P-256 key pair under a random credential ID
+      const keyPair = await crypto.subtle.generateKey(
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        true,
+        ['sign', 'verify'],
+      )
+      const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey))
+      const privateKey = new Uint8Array(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey))
+      const credentialId = base64url(crypto.getRandomValues(new Uint8Array(32)))
+      const name = options.name ?? 'Test passkey'
+      const backedUp = options.backedUp ?? false
+
+      // Same record the plugin's /passkey/verify-registration stores
+      const passkey = await ctx.authContext.adapter.create<Record<string, unknown>, { id: string }>({
+        model: 'passkey',
+        data: {
+          name,
+          userId: ctx.user.id,
+          credentialID: credentialId,
+          publicKey: btoa(String.fromCharCode(...coseP256PublicKey(publicKey))),
+          counter: 0,
+          deviceType: backedUp ? 'multiDevice' : 'singleDevice',
+          backedUp,
+          transports: (options.transports ?? ['internal']).join(','),
+          createdAt: new Date(),
+          aaguid: '00000000-0000-0000-0000-000000000000',
+        },
+      })
+
+      return {
+        id: passkey.id,
+        name,
+        credentialId,
+        rpId: pluginOptions.rpID ?? new URL(ctx.authContext.baseURL).hostname,
+        userHandle: base64url(new TextEncoder().encode(ctx.user.id)),
+        privateKey: base64url(privateKey),
+        signCount: 0,
+      }
+    },
+
+    async onDeleteUser(ctx: AuthContext, user: User) {
+      try {
+        await ctx.adapter.deleteMany({
+          model: 'passkey',
+          where: [{ field: 'userId', value: user.id }],
+        })
+      }
+      catch {
+        // Best-effort: the passkey schema may cascade-delete with the user.
+      }
+    },
+  }
+}
@@ -0,0 +1,77 @@
+import type { User } from 'better-auth'
+import type { CreateUserContext, TestDataPlugin } from '../types.js'
+import { z } from 'zod/v4'
+
+export interface PhoneNumberTestOptions {
+  /** Phone number to store. Defaults to a random `+1555…` number */
+  phoneNumber?: string
+  /** Whether the number is verified. Defaults to true */
+  phoneNumberVerified?: boolean
+  /** Skip setting a phone number entirely */
+  skip?: boolean
+}
+
+const phoneNumberTestOptionsSchema = z.strictObject({
+  phoneNumber: z.string().min(1).optional(),
+  phoneNumberVerified: z.boolean().optional(),
+  skip: z.boolean().optional(),
+})
+
+export interface PhoneNumberTestResult {
+  phoneNumber: string
+  phoneNumberVerified: boolean
+}
+
+interface PhoneNumberPluginOptions {
+  phoneNumberValidator?: (phoneNumber: string) => boolean | Promise<boolean>
+}
+
+// A number in the reserved 555 range, unlikely to collide between tests
+function randomPhoneNumber(): string {
+  const digits = crypto.getRandomValues(new Uint32Array(1))[0]! % 10_000_000
+  return `+1555${String(digits).padStart(7, '0')}`
+}
+
+export function phoneNumberTest(
+  defaults?: PhoneNumberTestOptions,
+): TestDataPlugin<'phone-number', PhoneNumberTestOptions, PhoneNumberTestResult | null> {
+  return {
+    id: 'phone-number',
+    optionsSchema: phoneNumberTestOptionsSchema,
+
+    async onCreateUser(ctx: CreateUserContext, opts: PhoneNumberTestOptions) {
+      const options = { ...defaults, ...opts }
+
+      if (options.skip)
+        return null
+
+      const authPlugin = ctx.authContext.getPlugin('phone-number')
+      if (!authPlugin) {
+        throw new Error(
+          'phoneNumberTest requires the Better Auth "phone-number" plugin to be installed',
+        )
+      }
+      const pluginOptions = (authPlugin.options ?? {}) as PhoneNumberPluginOptions
+
+      const phoneNumber = options.phoneNumber ?? randomPhoneNumber()
+      if (pluginOptions.phoneNumberValidator && !await pluginOptions.phoneNumberValidator(phoneNumber)) {
+        throw new Error(`phone number "${phoneNumber}" is rejected by the phone-number plugin's validator`)
+      }
+      const taken = await ctx.authContext.adapter.findOne<User>({
+        model: 'user',
+        where: [{ field: 'phoneNumber', value: phoneNumber }],
+      })
+      if (taken) {
+        throw new Error(`phone number "${phoneNumber}" is already in use`)
+      }
+
+      const phoneNumberVerified = options.phoneNumberVerified ?? true
+      await ctx.authContext.internalAdapter.updateUser(ctx.user.id, {
+        phoneNumber,
+        phoneNumberVerified,
+      })
+
+      return { phoneNumber, phoneNumberVerified }
+    },
+  }
+}
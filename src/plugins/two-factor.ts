@@ -0,0 +1,231 @@
+import type { AuthContext, User } from 'better-auth'
+import type { CreateUserContext, TestDataPlugin } from '../types.js'
+import { z } from 'zod/v4'
+
+export interface TwoFactorTestOptions {
+  /**
+   * Raw TOTP secret. Defaults to a random 32-character string,
+   * matching what `/two-factor/enable` generates.
+   */
+  secret?: string
+  /**
+   * Number of backup codes to generate. Defaults to the plugin's
+   * setting (10). With `customBackupCodesGenerate`, it is called until
+   * there are this many.
+   */
+  backupCodes?: number
+  /**
+   * Session state after creation:
+   * - `'verified'` (default): signed in, already past the 2FA step
+   * - `'pending'`: no session cookie; the browser holds the 2FA
+   *   challenge cookie, as if the user just submitted their password
+   */
+  session?: 'verified' | 'pending'
+  /** Issuer used in the returned `totpURI`. Defaults to the app name */
+  issuer?: string
+  /** Skip 2FA enrollment entirely */
+  skip?: boolean
+}
+
+const twoFactorTestOptionsSchema = z.strictObject({
+  secret: z.string().min(1).optional(),
+  backupCodes: z.number().int().nonnegative().optional(),
+  session: z.enum(['verified', 'pending']).optional(),
+  issuer: z.string().optional(),
+  skip: z.boolean().optional(),
+})
+
+export interface TwoFactorTestResult {
+  /** The raw TOTP secret — pass to `auth.generateTOTP()` */
+  secret: string
+  /** `otpauth://` URI, as returned by `/two-factor/enable` */
+  totpURI: string
+  /** Raw backup codes — stored encrypted according to the plugin's settings */
+  backupCodes: string[]
+  digits: number
+  period: number
+  /** True when the user was left at the 2FA challenge */
+  pending: boolean
+}
+
+interface TwoFactorPluginOptions {
+  issuer?: string
+  totpOptions?: { digits?: 6 | 8, period?: number }
+  backupCodeOptions?: {
+    amount?: number
+    length?: number
+    customBackupCodesGenerate?: () => string[]
+    storeBackupCodes?: 'plain' | 'encrypted' | { encrypt: (token: string) => Promise<string> }
+  }
+  twoFactorCookieMaxAge?: number
+}
+
+const TWO_FACTOR_TABLE_NAME = 'twoFactor'
+const TWO_FACTOR_COOKIE_NAME = 'two_factor'
+
+async function importCrypto(): Promise<typeof import('better-auth/crypto')> {
+  try {
+    return await import('better-auth/crypto')
+  }
+  catch (err) {
+    throw new Error(
+      'better-auth-playwright: twoFactorTest requires "better-auth" to be installed. '
+      + 'Could not import symmetricEncrypt/generateRandomString from "better-auth/crypto".',
+      { cause: err },
+    )
+  }
+}
+
+function toBase32(input: string): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+  const bytes = new TextEncoder().encode(input)
+  let bits = 0
+  let value = 0
+  let output = ''
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += alphabet[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0)
+    output += alphabet[(value << (5 - bits)) & 31]
+  return output
+}
+
+export function twoFactorTest(
+  defaults?: TwoFactorTestOptions,
+): TestDataPlugin<'two-factor', TwoFactorTestOptions, TwoFactorTestResult | null> {
+  return {
+    id: 'two-factor',
+    optionsSchema: twoFactorTestOptionsSchema,
+
+    async onCreateUser(ctx: CreateUserContext, opts: TwoFactorTestOptions) {
+      const options = { ...defaults, ...opts }
+
+      if (options.skip)
+        return null
+
+      const authPlugin = ctx.authContext.getPlugin('two-factor')
+      if (!authPlugin) {
+        throw new Error(
+          'twoFactorTest requires the Better Auth "two-factor" plugin to be installed',
+        )
+      }
+      const pluginOptions = (authPlugin.options ?? {}) as TwoFactorPluginOptions
+
+      const { generateRandomString, symmetricEncrypt } = await importCrypto()
+
+      const secret = options.secret ?? generateRandomString(32)
+      const encryptedSecret = await symmetricEncrypt({
+        key: ctx.authContext.secret,
+        data: secret,
+      })
+
+      // Same format and storage modes as the plugin's generateBackupCodes
+      const backupCodeOptions = pluginOptions.backupCodeOptions ?? {}
+      const { customBackupCodesGenerate } = backupCodeOptions
+      let backupCodes: string[]
+      if (!customBackupCodesGenerate) {
+        backupCodes = Array.from(
+          { length: options.backupCodes ?? backupCodeOptions.amount ?? 10 },
+          () => generateRandomString(backupCodeOptions.length ?? 10, 'a-z', '0-9', 'A-Z'),
+        ).map(code => `${code.slice(0, 5)}-${code.slice(5)}`)
+      }
+      else if (options.backupCodes === undefined) {
+        backupCodes = customBackupCodesGenerate()
+      }
+      else {
+        // The custom generator decides how many codes a call returns;
+        // call it until there are enough
+        backupCodes = []
+        while (backupCodes.length < options.backupCodes) {
+          const generated = customBackupCodesGenerate()
+          if (generated.length === 0)
+            throw new Error('customBackupCodesGenerate returned no codes, so backupCodes can\'t be reached')
+          backupCodes.push(...generated)
+        }
+        backupCodes = backupCodes.slice(0, options.backupCodes)
+      }
+      const storeBackupCodes = backupCodeOptions.storeBackupCodes ?? 'encrypted'
+      const serializedBackupCodes = JSON.stringify(backupCodes)
+      const storedBackupCodes = storeBackupCodes === 'encrypted'
+        ? await symmetricEncrypt({ key: ctx.authContext.secret, data: serializedBackupCodes })
+        : typeof storeBackupCodes === 'object'
+          ? await storeBackupCodes.encrypt(serializedBackupCodes)
+          : serializedBackupCodes
+
+      await ctx.authContext.adapter.create({
+        model: TWO_FACTOR_TABLE_NAME,
+        data: {
+          secret: encryptedSecret,
+          backupCodes: storedBackupCodes,
+          userId: ctx.user.id,
+        },
+      })
+      await ctx.authContext.internalAdapter.updateUser(ctx.user.id, {
+        twoFactorEnabled: true,
+      })
+
+      const digits = pluginOptions.totpOptions?.digits ?? 6
+      const period = pluginOptions.totpOptions?.period ?? 30
+      const issuer = options.issuer ?? pluginOptions.issuer ?? ctx.authContext.appName
+      const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(ctx.user.email)}`
+      const params = new URLSearchParams({
+        secret: toBase32(secret),
+        issuer,
+        digits: String(digits),
+        period: String(period),
+      })
+      const totpURI = `otpauth://totp/${label}?${params.toString()}`
+
+      // Mirror the two-factor sign-in hook: instead of a session cookie,
+      // the browser gets a signed challenge cookie pointing at a
+      // verification record that resolves to the user, and the session
+      // created for the sign-in is deleted.
+      const pending = options.session === 'pending'
+      if (pending) {
+        const maxAge = pluginOptions.twoFactorCookieMaxAge ?? 600
+        const identifier = `2fa-${generateRandomString(20)}`
+        await ctx.authContext.internalAdapter.createVerificationValue({
+          value: ctx.user.id,
+          identifier,
+          expiresAt: new Date(Date.now() + maxAge * 1000),
+        })
+        const challengeCookie = ctx.authContext.createAuthCookie(TWO_FACTOR_COOKIE_NAME, { maxAge })
+        await ctx.endpoint.setSignedCookie(
+          challengeCookie.name,
+          identifier,
+          ctx.authContext.secret,
+          challengeCookie.attributes,
+        )
+        await ctx.authContext.internalAdapter.deleteSession(ctx.session.token)
+        ctx.sessionCookie.token = null
+      }
+
+      return {
+        secret,
+        totpURI,
+        backupCodes,
+        digits,
+        period,
+        pending,
+      }
+    },
+
+    async onDeleteUser(ctx: AuthContext, user: User) {
+      try {
+        await ctx.adapter.deleteMany({
+          model: TWO_FACTOR_TABLE_NAME,
+          where: [{ field: 'userId', value: user.id }],
+        })
+      }
+      catch {
+        // Best-effort cleanup: the twoFactor schema references the user,
+        // so rows are removed with the user on cascading databases.
+      }
+    },
+  }
+}
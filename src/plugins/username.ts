@@ -0,0 +1,106 @@
+import type { User } from 'better-auth'
+import type { CreateUserContext, TestDataPlugin } from '../types.js'
+import { z } from 'zod/v4'
+
+export interface UsernameTestOptions {
+  /**
+   * Username to sign in with. Defaults to the email's local part,
+   * made valid for the default validator
+   */
+  username?: string
+  /** Display username. Defaults to `username` as given, like sign-up */
+  displayUsername?: string
+  /** Skip setting a username entirely */
+  skip?: boolean
+}
+
+const usernameTestOptionsSchema = z.strictObject({
+  username: z.string().min(1).optional(),
+  displayUsername: z.string().min(1).optional(),
+  skip: z.boolean().optional(),
+})
+
+export interface UsernameTestResult {
+  /** The username as stored (normalized by the plugin) */
+  username: string
+  displayUsername: string
+}
+
+interface UsernamePluginOptions {
+  minUsernameLength?: number
+  maxUsernameLength?: number
+  usernameValidator?: (username: string) => boolean | Promise<boolean>
+  displayUsernameValidator?: (displayUsername: string) => boolean | Promise<boolean>
+  usernameNormalization?: ((username: string) => string) | false
+  validationOrder?: { username?: 'pre-normalization' | 'post-normalization' }
+}
+
+function normalizeUsername(username: string, options: UsernamePluginOptions): string {
+  if (options.usernameNormalization === false)
+    return username
+  return options.usernameNormalization
+    ? options.usernameNormalization(username)
+    : username.toLowerCase()
+}
+
+export function usernameTest(
+  defaults?: UsernameTestOptions,
+): TestDataPlugin<'username', UsernameTestOptions, UsernameTestResult | null> {
+  return {
+    id: 'username',
+    optionsSchema: usernameTestOptionsSchema,
+
+    async onCreateUser(ctx: CreateUserContext, opts: UsernameTestOptions) {
+      const options = { ...defaults, ...opts }
+
+      if (options.skip)
+        return null
+
+      const authPlugin = ctx.authContext.getPlugin('username')
+      if (!authPlugin) {
+        throw new Error(
+          'usernameTest requires the Better Auth "username" plugin to be installed',
+        )
+      }
+      const pluginOptions = (authPlugin.options ?? {}) as UsernamePluginOptions
+      const minLength = pluginOptions.minUsernameLength || 3
+      const maxLength = pluginOptions.maxUsernameLength || 30
+
+      const requested = options.username
+        ?? ctx.user.email.split('@')[0]!.replace(/[^\w.]/g, '_').slice(0, maxLength).padEnd(minLength, '_')
+      const username = normalizeUsername(requested, pluginOptions)
+
+      // The same checks /sign-up/email runs for a username
+      const validated = pluginOptions.validationOrder?.username === 'post-normalization' ? username : requested
+      if (validated.length < minLength || validated.length > maxLength) {
+        throw new Error(`username "${requested}" must be ${minLength} to ${maxLength} characters long`)
+      }
+      const validator = pluginOptions.usernameValidator ?? (value => /^[\w.]+$/.test(value))
+      if (!await validator(validated)) {
+        throw new Error(`username "${requested}" is rejected by the username plugin's validator`)
+      }
+      const displayUsername = options.displayUsername ?? requested
+      if (pluginOptions.displayUsernameValidator && !await pluginOptions.displayUsernameValidator(displayUsername)) {
+        throw new Error(`displayUsername "${displayUsername}" is rejected by the username plugin's validator`)
+      }
+      const taken = await ctx.authContext.adapter.findOne<User>({
+        model: 'user',
+        where: [{ field: 'username', value: username }],
+      })
+      if (taken) {
+        throw new Error(`username "${username}" is already taken`)
+      }
+
+      // The plugin's database hook normalizes both fields on update
+      const updated = await ctx.authContext.internalAdapter.updateUser(ctx.user.id, {
+        username,
+        displayUsername,
+      }) as User & UsernameTestResult
+
+      return {
+        username: updated.username,
+        displayUsername: updated.displayUsername,
+      }
+    },
+  }
+}
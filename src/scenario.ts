@@ -0,0 +1,195 @@
+import type { CreateOAuthUserOptions, CreateUserOptions } from './client.js'
+import type { OrgTestInvitation } from './plugins/organization.js'
+import type { AnyTestDataPlugin, UntypedTestDataPlugins } from './types.js'
+
+/** Role(s) in an organization. Multiple roles are stored comma-separated */
+type ScenarioRole = string | string[]
+
+/** An OAuth account to link to a scenario user, as with `createOAuthUser` */
+interface ScenarioOAuthAccount extends Omit<
+  CreateOAuthUserOptions,
+  'email' | 'name' | 'pluginData' | 'accessTokenExpiresAt' | 'refreshTokenExpiresAt'
+> {
+  /** A date, or an ISO string in fixture files */
+  accessTokenExpiresAt?: Date | string
+  refreshTokenExpiresAt?: Date | string
+}
+
+interface ScenarioUser<TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins>
+  extends CreateUserOptions<TPlugins> {
+  /** Also link an OAuth account, as if the user had signed up with it */
+  oauth?: ScenarioOAuthAccount
+}
+
+type ScenarioInvitation<TUsers extends string = string> = Omit<OrgTestInvitation, 'email'> & (
+  | { email: string, user?: never }
+  /** Invite a scenario user by alias */
+  | { user: TUsers, email?: never }
+)
+
+interface ScenarioOrganization<TUsers extends string = string> {
+  /** Alias of the user who creates the organization */
+  owner: TUsers
+  /** Defaults to "{owner.name}'s Org" */
+  name?: string
+  /** Defaults to the owner's email prefix */
+  slug?: string
+  /** The owner's role. Defaults to the plugin's `creatorRole` (`'owner'`) */
+  role?: ScenarioRole
+  /** Other scenario users to add, by alias. Defaults to role `'member'` */
+  members?: { user: TUsers, role?: ScenarioRole }[]
+  /**
+   * Teams to create, with members by alias. The owner joins every team
+   * unless `join` is `false`. Requires `teams.enabled`.
+   */
+  teams?: { name: string, members?: TUsers[], join?: boolean }[]
+  /** Invitations sent by the owner */
+  invitations?: ScenarioInvitation<TUsers>[]
+}
+
+/**
+ * A declarative test world: users keyed by alias, and organizations
+ * that refer to those users by alias. Seeded with `auth.seed()`.
+ */
+interface TestScenario<
+  TPlugins extends readonly AnyTestDataPlugin[] = UntypedTestDataPlugins,
+  TUsers extends string = string,
+  TOrgs extends string = string,
+> {
+  users?: Record<TUsers, ScenarioUser<TPlugins>>
+  /** Requires `organizationTest()` on the server */
+  organizations?: Record<TOrgs, ScenarioOrganization<NoInfer<TUsers>>>
+}
+
+export type {
+  ScenarioInvitation,
+  ScenarioOAuthAccount,
+  ScenarioOrganization,
+  ScenarioRole,
+  ScenarioUser,
+  TestScenario,
+}
+
+/** A scenario as the server receives it: every user has an email */
+interface ScenarioRequest {
+  users: Record<string, { email: string, pluginData?: Record<string, unknown> }>
+  organizations?: Record<string, {
+    owner: string
+    name?: string
+    slug?: string
+    role?: ScenarioRole
+    members?: { user: string, role?: ScenarioRole }[]
+    teams?: { name: string, members?: string[], join?: boolean }[]
+    invitations?: {
+      email?: string
+      user?: string
+      role?: ScenarioRole
+      status?: OrgTestInvitation['status']
+      teams?: string[]
+    }[]
+  }>
+}
+
+interface ScenarioPlan {
+  /** Users in creation order, with organizationTest options filled in */
+  users: { alias: string, pluginData: Record<string, unknown> }[]
+  /** Where each organization ends up in its owner's organizationTest result */
+  organizations: Record<string, { owner: string, index: number }>
+}
+
+/**
+ * Work out how to create a scenario with the existing user creation:
+ * each organization becomes organizationTest options of its owner,
+ * and users are ordered so every member exists before the owner of
+ * an organization they belong to. Throws on unknown aliases and
+ * circular membership.
+ */
+export function planScenario(
+  scenario: ScenarioRequest,
+  options: { organizationPlugin: boolean },
+): ScenarioPlan {
+  const users = scenario.users
+  const organizations = Object.entries(scenario.organizations ?? {})
+  if (organizations.length > 0 && !options.organizationPlugin)
+    throw new Error('scenario organizations require organizationTest() in testPlugin({ plugins })')
+
+  function emailOf(alias: string, where: string): string {
+    const user = users[alias]
+    if (!user)
+      throw new Error(`${where} refers to unknown user "${alias}"`)
+    return user.email
+  }
+
+  // Users each user must be created after, and the organizations
+  // each owner creates, in declaration order
+  const dependencies = new Map<string, Set<string>>(Object.keys(users).map(alias => [alias, new Set()]))
+  const owned = new Map<string, Record<string, unknown>[]>()
+  const placement: ScenarioPlan['organizations'] = {}
+
+  for (const [orgAlias, org] of organizations) {
+    const where = `organization "${orgAlias}"`
+    emailOf(org.owner, where)
+    const members = (org.members ?? []).map((member) => {
+      if (member.user === org.owner)
+        throw new Error(`${where}: owner "${org.owner}" cannot also be listed as a member`)
+      dependencies.get(org.owner)!.add(member.user)
+      return { user: emailOf(member.user, where), role: member.role }
+    })
+    const teams = org.teams?.map(team => ({
+      name: team.name,
+      members: team.members?.map(alias => emailOf(alias, `${where} team "${team.name}"`)),
+      join: team.join,
+    }))
+    // Invitees don't have to exist yet, only their email is needed
+    const invitations = org.invitations?.map(({ user, email, ...invitation }) => {
+      if ((user === undefined) === (email === undefined))
+        throw new Error(`${where}: each invitation needs either an email or a user`)
+      return { ...invitation, email: user === undefined ? email! : emailOf(user, where) }
+    })
+
+    const ownedOrgs = owned.get(org.owner) ?? []
+    placement[orgAlias] = { owner: org.owner, index: ownedOrgs.length }
+    ownedOrgs.push({ name: org.name, slug: org.slug, role: org.role, members, teams, invitations })
+    owned.set(org.owner, ownedOrgs)
+  }
+
+  // Depth-first, so users keep their declaration order where possible
+  const order: string[] = []
+  const state = new Map<string, 'visiting' | 'done'>()
+  function visit(alias: string, path: string[]): void {
+    if (state.get(alias) === 'done')
+      return
+    if (state.get(alias) === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(alias)), alias]
+      throw new Error(`circular organization membership: ${cycle.join(' → ')}`)
+    }
+    state.set(alias, 'visiting')
+    for (const dependency of dependencies.get(alias)!)
+      visit(dependency, [...path, alias])
+    state.set(alias, 'done')
+    order.push(alias)
+  }
+  for (const alias of Object.keys(users))
+    visit(alias, [])
+
+  return {
+    users: order.map((alias) => {
+      const pluginData = { ...users[alias]!.pluginData }
+      const [first, ...rest] = owned.get(alias) ?? []
+      if (first) {
+        if (pluginData.organization !== undefined) {
+          throw new Error(
+            `user "${alias}" owns scenario organizations; describe them under organizations, not pluginData.organization`,
+          )
+        }
+        pluginData.organization = { ...first, ...(rest.length > 0 && { organizations: rest }) }
+      }
+      // Only declared organizations exist, not organizationTest's default one
+      else if (options.organizationPlugin && pluginData.organization === undefined) {
+        pluginData.organization = { skip: true }
+      }
+      return { alias, pluginData }
+    }),
+    organizations: placement,
+  }
+}
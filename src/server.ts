@@ -1,12 +1,65 @@
-import type { BetterAuthPlugin } from 'better-auth'
+import type { AuthContext, BetterAuthPlugin, GenericEndpointContext, Session, User } from 'better-auth'
+import type { TestMailbox } from './mailbox.js'
+import type { PurgeResult, TestUserTag } from './test-run.js'
 import type { CreateUserContext, TestDataPlugin } from './types.js'
-import { setSessionCookie } from 'better-auth/cookies'
+import { generateId } from 'better-auth'
+import { getIp } from 'better-auth/api'
+import { deleteSessionCookie, expireCookie, setSessionCookie } from 'better-auth/cookies'
+import { constantTimeEqual, signJWT } from 'better-auth/crypto'
+import { setTokenUtil } from 'better-auth/oauth2'
 import { createAuthEndpoint } from 'better-auth/plugins'
-import { z } from 'zod'
+import { z } from 'zod/v4'
+import { parsePluginData, pluginOptionsJsonSchema } from './plugin-data.js'
+import { planScenario } from './scenario.js'
+import { NONCE_HEADER, SIGNATURE_HEADER, signTestRequest, TIMESTAMP_HEADER } from './signing.js'
+import { RUN_ID_HEADER, USER_TAG_PREFIX, WORKER_HEADER } from './test-run.js'
+import { supportsTransactions, withTransaction } from './transaction.js'
+import { parseAdditionalUserFields } from './user-fields.js'
+import { VERSION } from './version.js'
 
+export { createTestMailbox } from './mailbox.js'
+export type { TestMailbox, TestMailFilter, TestMailMessage, TestMailType } from './mailbox.js'
+export type { AdminTestOptions, AdminTestResult } from './plugins/admin.js'
+export type { AnonymousTestOptions, AnonymousTestResult } from './plugins/anonymous.js'
 export type { ApiKeyTestOptions, ApiKeyTestResult } from './plugins/api-key.js'
-export { apiKeyTest, organizationTest } from './plugins/index.js'
-export type { CreateUserContext, TestDataPlugin } from './types.js'
+export type { BearerTestOptions, BearerTestResult } from './plugins/bearer.js'
+export {
+  adminTest,
+  anonymousTest,
+  apiKeyTest,
+  bearerTest,
+  jwtTest,
+  organizationTest,
+  passkeyTest,
+  phoneNumberTest,
+  twoFactorTest,
+  usernameTest,
+} from './plugins/index.js'
+export type { JwtTestOptions, JwtTestResult } from './plugins/jwt.js'
+export type {
+  OrganizationTestDefaults,
+  OrgTestInvitation,
+  OrgTestMember,
+  OrgTestOptions,
+  OrgTestOrganization,
+  OrgTestOrganizationOptions,
+  OrgTestResult,
+  OrgTestTeam,
+} from './plugins/organization.js'
+export type { PasskeyTestOptions, PasskeyTestResult } from './plugins/passkey.js'
+export type { PhoneNumberTestOptions, PhoneNumberTestResult } from './plugins/phone-number.js'
+export type { TwoFactorTestOptions, TwoFactorTestResult } from './plugins/two-factor.js'
+export type { UsernameTestOptions, UsernameTestResult } from './plugins/username.js'
+export type { PurgeResult, TestUserTag } from './test-run.js'
+export type {
+  AnyTestDataPlugin,
+  CreateUserContext,
+  InferPluginData,
+  InferPluginResults,
+  InferTestDataPlugins,
+  TestDataPlugin,
+  TestDataPluginSource,
+} from './types.js'
 
 interface TestPluginOptions {
   /**
@@ -16,17 +69,614 @@ interface TestPluginOptions {
   plugins?: TestDataPlugin<any, any, any>[]
 
   /**
-   * Secret required in X-Test-Secret header.
+   * Secret that authenticates requests, either by signing them (what
+   * the Playwright fixtures do) or sent as the X-Test-Secret header.
    * If not set, uses TEST_DATA_SECRET env var.
    * If neither is set, endpoints return 404 (disabled).
    */
   secret?: string
+
+  /**
+   * Only accept HMAC-signed requests, rejecting the plain
+   * X-Test-Secret header. Defaults to false.
+   */
+  requireSignature?: boolean
+
+  /**
+   * How far (in seconds) a signed request's timestamp may be from the
+   * server's clock. Nonces are remembered for this long, so a captured
+   * request cannot be replayed. Defaults to 300.
+   */
+  signatureMaxAge?: number
+
+  /**
+   * Only accept requests from these client IPs, as resolved by Better
+   * Auth's `advanced.ipAddress` settings.
+   */
+  allowedIPs?: string[]
+
+  /**
+   * Only accept requests addressed to these hosts (the Host header,
+   * without port), e.g. `['localhost', 'staging.internal']`.
+   */
+  allowedHosts?: string[]
+
+  /**
+   * Register the endpoints even when NODE_ENV is "production".
+   * Defaults to false: in production the plugin registers no endpoints.
+   */
+  allowInProduction?: boolean
+
+  /**
+   * Capture mailbox created with `createTestMailbox()`.
+   * Exposes captured emails via `/test-data/mailbox`.
+   */
+  mailbox?: TestMailbox
+}
+
+type TestEndpointContext = GenericEndpointContext & { request?: Request }
+
+type TestEndpointResponse = ReturnType<TestEndpointContext['json']>
+
+/** Tags `/test-data/purge` reads per query */
+const PURGE_PAGE_SIZE = 100
+
+/** Session fields `/test-data/session/update` leaves alone */
+const PROTECTED_SESSION_FIELDS = ['token', 'userId', 'expiresAt', 'createdAt', 'updatedAt']
+
+/** How a failed user creation was undone, returned as `rollback` */
+export interface UserCreationRollback {
+  /**
+   * `transaction`: the database rolled back every write.
+   * `cleanup`: the adapter has no transactions, so the steps that
+   * succeeded were undone one by one.
+   */
+  strategy: 'transaction' | 'cleanup'
+  /** The step that failed */
+  failedStep: 'user' | 'session' | 'plugin'
+  /** ID of the plugin that failed, when `failedStep` is `plugin` */
+  plugin: string | null
+  /** What was removed, in order */
+  cleanedUp: string[]
+  /** Cleanup steps that failed; orphan records may remain when non-empty */
+  failures: string[]
+}
+
+interface UserCreation {
+  user: User
+  session: Session
+  results: Record<string, unknown>
+  sessionCookie: CreateUserContext['sessionCookie']
+}
+
+type UserCreationResult
+  = | ({ ok: true } & UserCreation)
+    | { ok: false, error: string, rollback: UserCreationRollback }
+
+interface OAuthAccountSummary {
+  provider: string
+  providerAccountId: string
+  scope: string | null
+  accessTokenExpiresAt: Date | null
+  refreshTokenExpiresAt: Date | null
+}
+
+interface UserRemoval {
+  cleanedUp: string[]
+  failures: string[]
+  /** Whether the user record itself is gone */
+  removed: boolean
 }
 
 export function testPlugin(options: TestPluginOptions = {}): BetterAuthPlugin {
   // eslint-disable-next-line node/prefer-global/process
   const secret = options.secret ?? process.env.TEST_DATA_SECRET
   const testPlugins = options.plugins ?? []
+  const mailbox = options.mailbox
+  const signatureMaxAge = options.signatureMaxAge ?? 300
+
+  // Refuse to expose test data endpoints in production, however the
+  // secret got there
+  // eslint-disable-next-line node/prefer-global/process
+  if (process.env.NODE_ENV === 'production' && !options.allowInProduction) {
+    return {
+      id: 'test',
+      init(ctx) {
+        if (secret) {
+          ctx.logger.error(
+            'better-auth-playwright: testPlugin() is disabled because NODE_ENV is "production". '
+            + 'Remove it from production builds, or pass allowInProduction: true.',
+          )
+        }
+      },
+    }
+  }
+
+  // Nonces of accepted signed requests, with when they may be forgotten
+  const seenNonces = new Map<string, number>()
+
+  function fail(
+    ctx: TestEndpointContext,
+    status: number,
+    error: string | null,
+    details?: Record<string, unknown>,
+  ): TestEndpointResponse {
+    // better-call drops the status passed to ctx.json() when called
+    // through auth.handler; setStatus survives
+    ctx.setStatus(status as Parameters<typeof ctx.setStatus>[0])
+    return ctx.json(error === null ? null : { error, ...details })
+  }
+
+  function reject(ctx: TestEndpointContext, status: number, reason: string): TestEndpointResponse {
+    ctx.context.logger.warn(`better-auth-playwright: rejected ${ctx.path} request: ${reason}`)
+    return fail(ctx, status, status === 403 ? 'Forbidden' : 'Unauthorized')
+  }
+
+  // Authenticate a test data request. Returns the error response to
+  // send, or undefined to proceed. The response itself may be null (a
+  // bodyless 404 when disabled), so callers compare with undefined.
+  async function authorize(ctx: TestEndpointContext): Promise<TestEndpointResponse | undefined> {
+    if (!secret)
+      return fail(ctx, 404, null)
+
+    if (options.allowedHosts) {
+      const host = (ctx.headers?.get('host') ?? (ctx.request ? new URL(ctx.request.url).host : ''))
+        .replace(/:\d+$/, '')
+        .toLowerCase()
+      if (!options.allowedHosts.some(allowed => allowed.toLowerCase() === host))
+        return reject(ctx, 403, `host "${host}" is not in allowedHosts`)
+    }
+
+    if (options.allowedIPs) {
+      const ip = getIp(ctx.request ?? ctx.headers ?? new Headers(), ctx.context.options)
+      if (!ip || !options.allowedIPs.includes(ip))
+        return reject(ctx, 403, `client IP "${ip ?? 'unknown'}" is not in allowedIPs`)
+    }
+
+    const signature = ctx.headers?.get(SIGNATURE_HEADER)
+    if (signature) {
+      const timestamp = Number(ctx.headers?.get(TIMESTAMP_HEADER))
+      const nonce = ctx.headers?.get(NONCE_HEADER)
+      if (!Number.isFinite(timestamp) || Math.abs(Date.now() - timestamp) > signatureMaxAge * 1000)
+        return reject(ctx, 401, 'signature timestamp missing or outside the replay window')
+      if (!nonce)
+        return reject(ctx, 401, 'signature nonce missing')
+      if (!ctx.request)
+        return reject(ctx, 401, 'signed requests must go through the HTTP handler')
+
+      const url = new URL(ctx.request.url)
+      const expected = await signTestRequest(secret, {
+        method: ctx.request.method,
+        path: url.pathname + url.search,
+        body: await ctx.request.clone().text(),
+        timestamp,
+        nonce,
+      })
+      if (!constantTimeEqual(expected, signature))
+        return reject(ctx, 401, 'invalid signature')
+
+      const now = Date.now()
+      for (const [seen, forgetAt] of seenNonces) {
+        if (forgetAt < now)
+          seenNonces.delete(seen)
+      }
+      if (seenNonces.has(nonce))
+        return reject(ctx, 401, 'replayed request (nonce already used)')
+      seenNonces.set(nonce, timestamp + signatureMaxAge * 1000)
+      return undefined
+    }
+
+    if (options.requireSignature)
+      return reject(ctx, 401, 'unsigned request (requireSignature is enabled)')
+
+    const headerSecret = ctx.headers?.get('x-test-secret')
+    if (!headerSecret || !constantTimeEqual(headerSecret, secret))
+      return reject(ctx, 401, headerSecret ? 'invalid X-Test-Secret' : 'missing X-Test-Secret or signature')
+    return undefined
+  }
+
+  // Create a user directly via internalAdapter (bypasses sign-up flow),
+  // plus a credential account with a hashed password when given.
+  // Additional fields must already be validated.
+  async function createUserRecord(
+    ctx: TestEndpointContext,
+    input: {
+      email: string
+      name?: string
+      password?: string
+      emailVerified?: boolean
+      image?: string | null
+      additionalFields?: Record<string, unknown>
+    },
+  ): Promise<User> {
+    const adapter = ctx.context.internalAdapter
+    const user = await adapter.createUser({
+      ...input.additionalFields,
+      email: input.email,
+      name: input.name ?? input.email.split('@')[0],
+      emailVerified: input.emailVerified ?? true,
+      image: input.image,
+    })
+
+    if (input.password) {
+      const hash = await ctx.context.password.hash(input.password)
+      await adapter.createAccount({
+        userId: user.id,
+        providerId: 'credential',
+        accountId: user.id,
+        password: hash,
+      })
+    }
+    await tagUser(ctx, user)
+    return user
+  }
+
+  // Record which run and worker created the user, so /test-data/purge
+  // can find users a crashed run never deleted
+  async function tagUser(ctx: TestEndpointContext, user: User): Promise<void> {
+    const tag: TestUserTag = {
+      userId: user.id,
+      email: user.email,
+      runId: ctx.headers?.get(RUN_ID_HEADER) || null,
+      worker: ctx.headers?.get(WORKER_HEADER) || null,
+      createdAt: new Date().toISOString(),
+    }
+    await ctx.context.internalAdapter.createVerificationValue({
+      identifier: `${USER_TAG_PREFIX}${user.id}`,
+      value: JSON.stringify(tag),
+      // Tags live as long as the user; purge removes them
+      expiresAt: new Date('9999-12-31T00:00:00.000Z'),
+    })
+  }
+
+  async function deleteUserTag(ctx: TestEndpointContext, userId: string): Promise<void> {
+    await ctx.context.adapter.deleteMany({
+      model: 'verification',
+      where: [{ field: 'identifier', value: `${USER_TAG_PREFIX}${userId}` }],
+    })
+  }
+
+  // Validate additional fields against the app's user schema before
+  // anything is written, so bad input never needs a rollback
+  function parseUserFields(
+    ctx: TestEndpointContext,
+    input: Record<string, unknown> | undefined,
+  ): { ok: true, fields: Record<string, unknown> } | { ok: false, error: string } {
+    try {
+      const fields = parseAdditionalUserFields(
+        ctx.context.options.user?.additionalFields ?? {},
+        input ?? {},
+      )
+      return { ok: true, fields }
+    }
+    catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  }
+
+  // Validate plugin options against each plugin's schema up front too
+  function parsePluginOptions(
+    input: Record<string, unknown> | undefined,
+  ): { ok: true, data: Record<string, unknown> } | { ok: false, error: string } {
+    try {
+      return { ok: true, data: parsePluginData(testPlugins, input ?? {}) }
+    }
+    catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  }
+
+  // Provider IDs an OAuth account may be created for: the app's
+  // socialProviders plus genericOAuth providers, which the plugin adds
+  // to the context's list (read from its config too, in case it doesn't)
+  function configuredOAuthProviders(ctx: TestEndpointContext): string[] {
+    const ids = new Set(ctx.context.socialProviders.map(p => p.id))
+    const genericOAuth = ctx.context.getPlugin('generic-oauth') as
+      | { options?: { config?: { providerId: string }[] } }
+      | null
+    for (const { providerId } of genericOAuth?.options?.config ?? [])
+      ids.add(providerId)
+    return [...ids]
+  }
+
+  function checkOAuthProvider(ctx: TestEndpointContext, provider: string): string | null {
+    const providers = configuredOAuthProviders(ctx)
+    if (providers.includes(provider))
+      return null
+    return `Unknown OAuth provider "${provider}"; configured providers: ${providers.length > 0 ? providers.join(', ') : '(none)'}`
+  }
+
+  // Link an OAuth account as a real sign-in stores it, firing
+  // databaseHooks.account.create.after with the provider's ID
+  async function createOAuthAccount(
+    ctx: TestEndpointContext,
+    user: User,
+    input: z.infer<typeof oauthAccountBody>,
+  ): Promise<OAuthAccountSummary> {
+    const providerAccountId = input.providerAccountId ?? `test-${input.provider}-${Date.now()}`
+    const scope = Array.isArray(input.scope) ? input.scope.join(',') : input.scope
+    const accessTokenExpiresAt = input.accessTokenExpiresAt ? new Date(input.accessTokenExpiresAt) : undefined
+    const refreshTokenExpiresAt = input.refreshTokenExpiresAt ? new Date(input.refreshTokenExpiresAt) : undefined
+    await ctx.context.internalAdapter.createAccount({
+      userId: user.id,
+      providerId: input.provider,
+      accountId: providerAccountId,
+      // Encrypted like a real sign-in when encryptOAuthTokens is on
+      accessToken: await setTokenUtil(input.accessToken, ctx.context),
+      refreshToken: await setTokenUtil(input.refreshToken, ctx.context),
+      idToken: input.idToken,
+      scope,
+      accessTokenExpiresAt,
+      refreshTokenExpiresAt,
+    })
+    return {
+      provider: input.provider,
+      providerAccountId,
+      scope: scope ?? null,
+      accessTokenExpiresAt: accessTokenExpiresAt ?? null,
+      refreshTokenExpiresAt: refreshTokenExpiresAt ?? null,
+    }
+  }
+
+  // The user as stored after plugins ran (they may update it, e.g.
+  // adminTest sets the role), for the full record in the response
+  async function findUserRecord(ctx: TestEndpointContext, user: User): Promise<User> {
+    return await ctx.context.internalAdapter.findUserById(user.id) ?? user
+  }
+
+  // Create the user, its session and every test data plugin's
+  // resources as one unit. Plugins run sequentially in registration
+  // order (and may update the session, e.g. activeOrganizationId).
+  // When the adapter supports transactions everything runs in one, so a
+  // failure rolls it all back; otherwise the steps that succeeded are
+  // undone in reverse order.
+  async function createUserWithPlugins(
+    ctx: TestEndpointContext,
+    createUser: () => Promise<User>,
+    pluginData: Record<string, unknown> | undefined,
+  ): Promise<UserCreationResult> {
+    // What has been done so far, for the rollback
+    const progress: {
+      step: UserCreationRollback['failedStep']
+      plugin: string | null
+      user: User | null
+      session: Session | null
+      succeeded: TestDataPlugin<any, any, any>[]
+    } = { step: 'user', plugin: null, user: null, session: null, succeeded: [] }
+
+    async function create(authContext: AuthContext): Promise<UserCreation> {
+      const user = progress.user = await createUser()
+      progress.step = 'session'
+      const session = progress.session = await ctx.context.internalAdapter.createSession(user.id)
+
+      progress.step = 'plugin'
+      const results: Record<string, unknown> = {}
+      const sessionCookie: CreateUserContext['sessionCookie'] = { token: session.token }
+      if (!ctx.request)
+        throw new Error('Internal error: request object missing from context')
+      const pluginCtx: CreateUserContext = {
+        authContext,
+        user,
+        session,
+        request: ctx.request,
+        endpoint: ctx,
+        sessionCookie,
+      }
+      for (const plugin of testPlugins) {
+        progress.plugin = plugin.id
+        results[plugin.id] = await plugin.onCreateUser(pluginCtx, pluginData?.[plugin.id] ?? {})
+        progress.succeeded.push(plugin)
+      }
+      for (const plugin of testPlugins) {
+        progress.plugin = plugin.id
+        if (plugin.afterCreateUser)
+          results[plugin.id] = await plugin.afterCreateUser(pluginCtx, results[plugin.id])
+      }
+      return { user, session, results, sessionCookie }
+    }
+
+    const transactional = supportsTransactions(ctx.context.adapter)
+    try {
+      const creation = transactional
+        // Plugins given the transaction adapter write through it too
+        ? await withTransaction(ctx.context.adapter, async trx => create({
+            ...ctx.context,
+            // Nested transactions join this one
+            adapter: { ...trx, transaction: async callback => callback(trx) },
+          }))
+        : await create(ctx.context)
+      return { ok: true, ...creation }
+    }
+    catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      const rollback: UserCreationRollback = {
+        strategy: transactional ? 'transaction' : 'cleanup',
+        failedStep: progress.step,
+        plugin: progress.step === 'plugin' ? progress.plugin : null,
+        cleanedUp: [],
+        failures: [],
+      }
+      if (transactional) {
+        rollback.cleanedUp.push('database transaction')
+        // Secondary storage is not part of the transaction
+        if (progress.session && ctx.context.options.secondaryStorage) {
+          try {
+            await ctx.context.internalAdapter.deleteSession(progress.session.token)
+            rollback.cleanedUp.push('session (secondary storage)')
+          }
+          catch (cleanupErr) {
+            const cleanupMessage = cleanupErr instanceof Error ? cleanupErr.message : String(cleanupErr)
+            rollback.failures.push(`Session (secondary storage): ${cleanupMessage}`)
+          }
+        }
+      }
+      else if (progress.user) {
+        const removal = await removeUser(ctx, progress.user, progress.succeeded)
+        rollback.cleanedUp.push(...removal.cleanedUp)
+        rollback.failures.push(...removal.failures)
+      }
+
+      const step = progress.step === 'plugin'
+        ? `Plugin "${progress.plugin}"`
+        : `${progress.step === 'user' ? 'User' : 'Session'} creation`
+      const rollbackNote = rollback.failures.length > 0
+        ? ' (warning: rollback incomplete — orphan records may exist)'
+        : ''
+      return { ok: false, error: `${step} failed: ${message}${rollbackNote}`, rollback }
+    }
+  }
+
+  // Re-fetch the session after plugins (plugins may have updated it,
+  // e.g. organizationTest sets activeOrganizationId) and set the signed
+  // session cookie, so a cached cookie includes all plugin-added fields.
+  // Plugins may also withhold the cookie (e.g. a pending 2FA challenge).
+  async function setFinalSessionCookie(
+    ctx: TestEndpointContext,
+    sessionCookie: CreateUserContext['sessionCookie'],
+  ): Promise<string | null> {
+    if (!sessionCookie.token)
+      return null
+    const finalSession = await ctx.context.internalAdapter.findSession(sessionCookie.token)
+    if (!finalSession) {
+      return 'Session lookup failed after plugin execution'
+    }
+    await setSessionCookie(ctx, {
+      session: finalSession.session,
+      user: finalSession.user,
+    })
+    await setMultiSessionCookie(ctx, sessionCookie.token)
+    return null
+  }
+
+  // The multi-session plugin keeps each signed-in account in a signed
+  // cookie of its own next to the session cookie. Set it as a sign-in
+  // would (its after hook only does so while under maximumSessions, as
+  // counted from the request's cookies), so the account shows up in
+  // /multi-session/list-device-sessions.
+  function multiSessionCookieName(ctx: TestEndpointContext, token: string): string {
+    return `${ctx.context.authCookies.sessionToken.name}_multi-${token.toLowerCase()}`
+  }
+
+  async function setMultiSessionCookie(ctx: TestEndpointContext, token: string): Promise<void> {
+    if (!ctx.context.getPlugin('multi-session'))
+      return
+    await ctx.setSignedCookie(
+      multiSessionCookieName(ctx, token),
+      token,
+      ctx.context.secret,
+      ctx.context.authCookies.sessionToken.attributes,
+    )
+  }
+
+  function expireMultiSessionCookies(ctx: TestEndpointContext, tokens: string[]): void {
+    if (!ctx.context.getPlugin('multi-session'))
+      return
+    for (const token of tokens) {
+      expireCookie(ctx, {
+        name: multiSessionCookieName(ctx, token),
+        attributes: ctx.context.authCookies.sessionToken.attributes,
+      })
+    }
+  }
+
+  // Undo a user: plugin cleanup in reverse order, then the records
+  // Better Auth keeps for it. Each step is wrapped individually so one
+  // failure doesn't block the others.
+  async function removeUser(
+    ctx: TestEndpointContext,
+    user: User,
+    plugins: TestDataPlugin<any, any, any>[],
+  ): Promise<UserRemoval> {
+    const removal: UserRemoval = { cleanedUp: [], failures: [], removed: false }
+    async function step(label: string, run: () => Promise<void>): Promise<boolean> {
+      try {
+        await run()
+        removal.cleanedUp.push(label)
+        return true
+      }
+      catch (err) {
+        const message = err instanceof Error ? err.message : String(err)
+        removal.failures.push(`${label[0]!.toUpperCase()}${label.slice(1)}: ${message}`)
+        return false
+      }
+    }
+
+    for (const plugin of [...plugins].reverse()) {
+      if (plugin.onDeleteUser)
+        await step(`plugin "${plugin.id}"`, async () => plugin.onDeleteUser!(ctx.context, user))
+    }
+
+    // Verification records pointing at the user (password reset
+    // tokens, 2FA challenges) and its run tag are not removed with the user
+    await step('verification records', async () => {
+      await ctx.context.adapter.deleteMany({
+        model: 'verification',
+        where: [{ field: 'value', value: user.id }],
+      })
+      await deleteUserTag(ctx, user.id)
+    })
+    // Sessions in secondary storage are not removed with the user either
+    await step('sessions', async () => ctx.context.internalAdapter.deleteSessions(user.id))
+    // Always delete the user, even if plugin cleanup had errors
+    removal.removed = await step('user and accounts', async () => ctx.context.internalAdapter.deleteUser(user.id))
+    return removal
+  }
+
+  // Delete a user with every plugin's cleanup. Throws when the user
+  // record itself could not be deleted; other problems become warnings.
+  async function deleteUserWithPlugins(ctx: TestEndpointContext, user: User): Promise<string[]> {
+    const { failures, removed } = await removeUser(ctx, user, testPlugins)
+    if (!removed)
+      throw new Error(failures.at(-1))
+    return failures
+  }
+
+  const createLinkBody = z.object({
+    email: z.string().email(),
+    /** Where Better Auth redirects after handling the link */
+    callbackURL: z.string().optional(),
+    /** Token lifetime in seconds; zero or negative mints an expired token */
+    expiresIn: z.number().int().optional(),
+  })
+
+  const oauthAccountBody = z.object({
+    /** Any provider the app configures, social or genericOAuth */
+    provider: z.string().min(1),
+    providerAccountId: z.string().optional(),
+    accessToken: z.string().optional(),
+    refreshToken: z.string().optional(),
+    idToken: z.string().optional(),
+    /** Granted scopes, stored comma-separated as after a real sign-in */
+    scope: z.union([z.string(), z.array(z.string())]).optional(),
+    accessTokenExpiresAt: z.string().datetime({ offset: true }).optional(),
+    refreshTokenExpiresAt: z.string().datetime({ offset: true }).optional(),
+  })
+
+  const roleBody = z.union([z.string(), z.array(z.string())])
+
+  /**
+   * Token of the session the browser's session cookie holds, `null`
+   * when it holds none. A session-changing endpoint only touches the
+   * session cookie (and cookie cache) for that session; other
+   * multi-session accounts keep theirs. Callers without a browser leave
+   * it out and always get the session cookie.
+   */
+  const activeTokenBody = z.string().nullable().optional()
+
+  function isActiveSession(activeToken: string | null | undefined, token: string): boolean {
+    return activeToken === undefined || activeToken === token
+  }
+
+  const createUserBody = z.object({
+    email: z.string().email(),
+    name: z.string().optional(),
+    password: z.string().optional(),
+    emailVerified: z.boolean().optional(),
+    image: z.string().nullable().optional(),
+    /** Values for the app's `user.additionalFields` */
+    additionalFields: z.record(z.string(), z.any()).optional(),
+    pluginData: z.record(z.string(), z.any()).optional(),
+  })
 
   return {
     id: 'test',
@@ -36,112 +686,157 @@ export function testPlugin(options: TestPluginOptions = {}): BetterAuthPlugin {
         '/test-data/user',
         {
           method: 'POST',
-          body: z.object({
-            email: z.string().email(),
-            name: z.string().optional(),
-            password: z.string().optional(),
-            pluginData: z.record(z.string(), z.any()).optional(),
-          }),
+          body: createUserBody,
+          cloneRequest: true,
           metadata: { isAction: false },
         },
         async (ctx) => {
-          if (!secret)
-            return ctx.json(null, { status: 404 })
-          const headerSecret = ctx.headers?.get('x-test-secret')
-          if (headerSecret !== secret) {
-            return ctx.json({ error: 'Unauthorized' }, { status: 401 })
+          const denied = await authorize(ctx)
+          if (denied !== undefined)
+            return denied
+
+          const parsed = parseUserFields(ctx, ctx.body.additionalFields)
+          if (!parsed.ok) {
+            return fail(ctx, 400, parsed.error)
+          }
+          const pluginData = parsePluginOptions(ctx.body.pluginData)
+          if (!pluginData.ok) {
+            return fail(ctx, 400, pluginData.error)
           }
 
-          const adapter = ctx.context.internalAdapter
-          const email = ctx.body.email
-          const name = ctx.body.name ?? email.split('@')[0]
+          // 1-3. Create user (+ credential account if a password is
+          //      given), session and plugin resources, all or nothing
+          const run = await createUserWithPlugins(
+            ctx,
+            async () => createUserRecord(ctx, { ...ctx.body, additionalFields: parsed.fields }),
+            pluginData.data,
+          )
+          if (!run.ok) {
+            return fail(ctx, 500, run.error, { rollback: run.rollback })
+          }
+          const { user, session } = run
 
-          // 1. Create user directly via internalAdapter (bypasses sign-up flow)
-          const user = await adapter.createUser({
-            email,
-            name,
-            emailVerified: true,
+          // 4. Set signed session cookie AFTER plugins
+          const cookieError = await setFinalSessionCookie(ctx, run.sessionCookie)
+          if (cookieError) {
+            return fail(ctx, 500, cookieError)
+          }
+
+          // 5. Return everything the Playwright side needs
+          return ctx.json({
+            user: await findUserRecord(ctx, user),
+            session: { id: session.id, token: session.token },
+            plugins: run.results,
           })
+        },
+      ),
 
-          // 2. Optionally create credential account with hashed password
-          if (ctx.body.password) {
-            const hash = await ctx.context.password.hash(ctx.body.password)
-            await adapter.createAccount({
-              userId: user.id,
-              providerId: 'credential',
-              accountId: user.id,
-              password: hash,
-            })
-          }
+      createTestUsers: createAuthEndpoint(
+        '/test-data/users',
+        {
+          method: 'POST',
+          body: z.object({
+            users: z.array(createUserBody).min(1).max(500),
+            /** Create a session per user. Defaults to true */
+            session: z.boolean().optional(),
+          }),
+          cloneRequest: true,
+          metadata: { isAction: false },
+        },
+        async (ctx) => {
+          const denied = await authorize(ctx)
+          if (denied !== undefined)
+            return denied
 
-          // 3. Create session directly (bypasses auth flow)
-          const session = await adapter.createSession(user.id)
+          const withSession = ctx.body.session !== false
+          // better-call exposes the response headers at runtime,
+          // but not on the endpoint context's type
+          const responseHeaders = (ctx as unknown as { responseHeaders: Headers }).responseHeaders
+          const created: User[] = []
+          const results: {
+            user: User
+            session: { id: string, token: string } | null
+            plugins: Record<string, unknown>
+            setCookie: string[]
+          }[] = []
 
-          // 4. Run test data plugins sequentially in registration order
-          //    (may update session, e.g. activeOrganizationId)
-          const pluginResults: Record<string, unknown> = {}
-          for (const plugin of testPlugins) {
-            const pluginOpts = ctx.body.pluginData?.[plugin.id] ?? {}
-            if (!ctx.request) {
-              return ctx.json(
-                { error: 'Internal error: request object missing from context' },
-                { status: 500 },
-              )
-            }
-            const pluginCtx: CreateUserContext = {
-              authContext: ctx.context,
-              user,
-              session,
-              request: ctx.request,
-            }
-            try {
-              pluginResults[plugin.id] = await plugin.onCreateUser(
-                pluginCtx,
-                pluginOpts,
-              )
-            }
-            catch (err) {
-              // Clean up the already-created user to avoid orphan records
-              const message = err instanceof Error ? err.message : String(err)
-              let rollbackNote = ''
+          // Undo the whole batch so a failure leaves no partial dataset
+          async function rollback(): Promise<string> {
+            let failed = 0
+            for (const user of [...created].reverse()) {
               try {
-                await adapter.deleteUser(user.id)
+                await deleteUserWithPlugins(ctx, user)
               }
               catch {
-                rollbackNote = ' (warning: user rollback also failed — orphan record may exist)'
+                failed++
               }
-              return ctx.json(
-                { error: `Plugin "${plugin.id}" failed: ${message}${rollbackNote}` },
-                { status: 500 },
-              )
             }
+            return failed > 0
+              ? ` (warning: rollback failed for ${failed} user(s) — orphan records may exist)`
+              : ''
           }
 
-          // 5. Re-fetch session after plugins (plugins may have updated it,
-          //    e.g. organizationTest sets activeOrganizationId).
-          //    This ensures the cookie contains the final session state,
-          //    which matters when cookie caching is enabled.
-          const finalSession = await adapter.findSession(session.token)
-          if (!finalSession) {
-            return ctx.json(
-              { error: 'Session lookup failed after plugin execution' },
-              { status: 500 },
-            )
+          const additionalFields: Record<string, unknown>[] = []
+          const pluginData: Record<string, unknown>[] = []
+          for (const [index, input] of ctx.body.users.entries()) {
+            const parsed = parseUserFields(ctx, input.additionalFields)
+            if (!parsed.ok) {
+              return fail(ctx, 400, `User ${index} (${input.email}): ${parsed.error}`)
+            }
+            additionalFields.push(parsed.fields)
+            const options = parsePluginOptions(input.pluginData)
+            if (!options.ok) {
+              return fail(ctx, 400, `User ${index} (${input.email}): ${options.error}`)
+            }
+            pluginData.push(options.data)
           }
 
-          // 6. Set signed session cookie AFTER plugins so cached cookie
-          //    includes all plugin-added fields (e.g. activeOrganizationId)
-          await setSessionCookie(ctx, {
-            session: finalSession.session,
-            user,
-          })
+          for (const [index, input] of ctx.body.users.entries()) {
+            try {
+              // Plugins always get a session to work with; it is
+              // discarded afterwards when sessions weren't requested
+              const run = await createUserWithPlugins(
+                ctx,
+                async () => createUserRecord(ctx, { ...input, additionalFields: additionalFields[index] }),
+                pluginData[index],
+              )
+              if (!run.ok) {
+                const rollbackNote = await rollback()
+                return fail(ctx, 500, `User ${index} (${input.email}): ${run.error}${rollbackNote}`, { rollback: run.rollback })
+              }
+              const { user, session } = run
+              created.push(user)
 
-          // 7. Return everything the Playwright side needs
-          return ctx.json({
-            user: { id: user.id, email: user.email, name: user.name },
-            session: { id: session.id, token: session.token },
-            plugins: pluginResults,
-          })
+              // Each user's Set-Cookie headers are returned in the body
+              // instead of the response, where they would overwrite
+              // each other
+              let setCookie: string[] = []
+              if (withSession) {
+                const cookieError = await setFinalSessionCookie(ctx, run.sessionCookie)
+                if (cookieError)
+                  throw new Error(cookieError)
+                setCookie = responseHeaders.getSetCookie()
+              }
+              else {
+                await ctx.context.internalAdapter.deleteSessions(user.id)
+              }
+              responseHeaders.delete('set-cookie')
+
+              results.push({
+                user: await findUserRecord(ctx, user),
+                session: withSession ? { id: session.id, token: session.token } : null,
+                plugins: run.results,
+                setCookie,
+              })
+            }
+            catch (err) {
+              const message = err instanceof Error ? err.message : String(err)
+              const rollbackNote = await rollback()
+              return fail(ctx, 500, `User ${index} (${input.email}): ${message}${rollbackNote}`)
+            }
+          }
+
+          return ctx.json({ users: results })
         },
       ),
 
@@ -149,99 +844,298 @@ export function testPlugin(options: TestPluginOptions = {}): BetterAuthPlugin {
         '/test-data/oauth-user',
         {
           method: 'POST',
-          body: z.object({
+          body: oauthAccountBody.extend({
             email: z.string().email(),
             name: z.string().optional(),
-            provider: z.enum(['google', 'github', 'apple', 'microsoft', 'facebook', 'twitter', 'discord', 'gitlab']),
-            providerAccountId: z.string().optional(),
             pluginData: z.record(z.string(), z.any()).optional(),
           }),
+          cloneRequest: true,
           metadata: { isAction: false },
         },
         async (ctx) => {
-          if (!secret)
-            return ctx.json(null, { status: 404 })
-          const headerSecret = ctx.headers?.get('x-test-secret')
-          if (headerSecret !== secret) {
-            return ctx.json({ error: 'Unauthorized' }, { status: 401 })
+          const denied = await authorize(ctx)
+          if (denied !== undefined)
+            return denied
+
+          const pluginData = parsePluginOptions(ctx.body.pluginData)
+          if (!pluginData.ok) {
+            return fail(ctx, 400, pluginData.error)
+          }
+
+          const providerError = checkOAuthProvider(ctx, ctx.body.provider)
+          if (providerError) {
+            return fail(ctx, 400, providerError)
           }
 
-          const adapter = ctx.context.internalAdapter
           const email = ctx.body.email
           const name = ctx.body.name ?? email.split('@')[0]
-          const provider = ctx.body.provider
-          const providerAccountId = ctx.body.providerAccountId ?? `test-${provider}-${Date.now()}`
-
-          // 1. Create user + OAuth account in one transaction via the same
-          //    code path real OAuth signups use. Fires both
-          //    databaseHooks.user.create.after AND
-          //    databaseHooks.account.create.after with the correct providerId.
-          const { user } = await adapter.createOAuthUser(
-            { email, name, emailVerified: true },
-            { providerId: provider, accountId: providerAccountId },
+
+          // 1-3. Create user + OAuth account, session and plugin
+          //      resources, all or nothing. The user and account are the
+          //      two writes createOAuthUser makes, firing both
+          //      databaseHooks.user.create.after AND
+          //      databaseHooks.account.create.after with the correct
+          //      providerId, minus its own transaction so they join ours.
+          let account: OAuthAccountSummary | undefined
+          const run = await createUserWithPlugins(
+            ctx,
+            async () => {
+              const user = await ctx.context.internalAdapter.createUser({ email, name, emailVerified: true })
+              account = await createOAuthAccount(ctx, user, ctx.body)
+              await tagUser(ctx, user)
+              return user
+            },
+            pluginData.data,
           )
+          if (!run.ok) {
+            return fail(ctx, 500, run.error, { rollback: run.rollback })
+          }
+          const { user, session } = run
 
-          // 2. Create session directly (bypasses auth flow)
-          const session = await adapter.createSession(user.id)
-
-          // 3. Run test data plugins sequentially in registration order
-          const pluginResults: Record<string, unknown> = {}
-          for (const plugin of testPlugins) {
-            const pluginOpts = ctx.body.pluginData?.[plugin.id] ?? {}
-            if (!ctx.request) {
-              return ctx.json(
-                { error: 'Internal error: request object missing from context' },
-                { status: 500 },
-              )
+          // 4. Set signed session cookie with the final session state
+          const cookieError = await setFinalSessionCookie(ctx, run.sessionCookie)
+          if (cookieError) {
+            return fail(ctx, 500, cookieError)
+          }
+
+          return ctx.json({
+            user: await findUserRecord(ctx, user),
+            session: { id: session.id, token: session.token },
+            account,
+            plugins: run.results,
+          })
+        },
+      ),
+
+      createTestScenario: createAuthEndpoint(
+        '/test-data/scenario',
+        {
+          method: 'POST',
+          body: z.object({
+            /** Users by alias */
+            users: z.record(z.string(), createUserBody.extend({
+              oauth: oauthAccountBody.optional(),
+            })),
+            /** Organizations by alias, referring to users by alias */
+            organizations: z.record(z.string(), z.object({
+              owner: z.string(),
+              name: z.string().optional(),
+              slug: z.string().optional(),
+              role: roleBody.optional(),
+              members: z.array(z.object({ user: z.string(), role: roleBody.optional() })).optional(),
+              teams: z.array(z.object({
+                name: z.string(),
+                members: z.array(z.string()).optional(),
+                join: z.boolean().optional(),
+              })).optional(),
+              invitations: z.array(z.object({
+                email: z.string().optional(),
+                user: z.string().optional(),
+                role: roleBody.optional(),
+                status: z.enum(['pending', 'expired', 'accepted', 'rejected', 'canceled']).optional(),
+                teams: z.array(z.string()).optional(),
+              })).optional(),
+            })).optional(),
+          }),
+          cloneRequest: true,
+          metadata: { isAction: false },
+        },
+        async (ctx) => {
+          const denied = await authorize(ctx)
+          if (denied !== undefined)
+            return denied
+
+          const users = ctx.body.users
+          let plan: ReturnType<typeof planScenario>
+          try {
+            plan = planScenario(ctx.body, {
+              organizationPlugin: testPlugins.some(plugin => plugin.id === 'organization'),
+            })
+          }
+          catch (err) {
+            return fail(ctx, 400, err instanceof Error ? err.message : String(err))
+          }
+
+          // Validate everything before the first write
+          const inputs: { alias: string, additionalFields: Record<string, unknown>, pluginData: Record<string, unknown> }[] = []
+          for (const { alias, pluginData } of plan.users) {
+            const input = users[alias]!
+            const parsed = parseUserFields(ctx, input.additionalFields)
+            if (!parsed.ok) {
+              return fail(ctx, 400, `User "${alias}": ${parsed.error}`)
             }
-            const pluginCtx: CreateUserContext = {
-              authContext: ctx.context,
-              user,
-              session,
-              request: ctx.request,
+            const options = parsePluginOptions(pluginData)
+            if (!options.ok) {
+              return fail(ctx, 400, `User "${alias}": ${options.error}`)
             }
-            try {
-              pluginResults[plugin.id] = await plugin.onCreateUser(
-                pluginCtx,
-                pluginOpts,
-              )
+            const providerError = input.oauth && checkOAuthProvider(ctx, input.oauth.provider)
+            if (providerError) {
+              return fail(ctx, 400, `User "${alias}": ${providerError}`)
             }
-            catch (err) {
-              const message = err instanceof Error ? err.message : String(err)
-              let rollbackNote = ''
+            inputs.push({ alias, additionalFields: parsed.fields, pluginData: options.data })
+          }
+
+          // better-call exposes the response headers at runtime,
+          // but not on the endpoint context's type
+          const responseHeaders = (ctx as unknown as { responseHeaders: Headers }).responseHeaders
+          const created: User[] = []
+          const results: Record<string, {
+            user: User
+            session: { id: string, token: string }
+            account: OAuthAccountSummary | null
+            plugins: Record<string, unknown>
+            setCookie: string[]
+          }> = {}
+
+          // Undo the whole scenario, owners (created last) first
+          async function rollback(): Promise<string> {
+            let failed = 0
+            for (const user of [...created].reverse()) {
               try {
-                await adapter.deleteUser(user.id)
+                await deleteUserWithPlugins(ctx, user)
               }
               catch {
-                rollbackNote = ' (warning: user rollback also failed — orphan record may exist)'
+                failed++
               }
-              return ctx.json(
-                { error: `Plugin "${plugin.id}" failed: ${message}${rollbackNote}` },
-                { status: 500 },
+            }
+            return failed > 0
+              ? ` (warning: rollback failed for ${failed} user(s) — orphan records may exist)`
+              : ''
+          }
+
+          for (const { alias, additionalFields, pluginData } of inputs) {
+            const { oauth, ...input } = users[alias]!
+            try {
+              let account: OAuthAccountSummary | null = null
+              const run = await createUserWithPlugins(
+                ctx,
+                async () => {
+                  const user = await createUserRecord(ctx, { ...input, additionalFields })
+                  if (oauth)
+                    account = await createOAuthAccount(ctx, user, oauth)
+                  return user
+                },
+                pluginData,
               )
+              if (!run.ok) {
+                const rollbackNote = await rollback()
+                return fail(ctx, 500, `User "${alias}": ${run.error}${rollbackNote}`, { rollback: run.rollback })
+              }
+              const { user, session } = run
+              created.push(user)
+
+              // Cookies per user in the body, as for batches
+              const cookieError = await setFinalSessionCookie(ctx, run.sessionCookie)
+              if (cookieError)
+                throw new Error(cookieError)
+              const setCookie = responseHeaders.getSetCookie()
+              responseHeaders.delete('set-cookie')
+
+              results[alias] = {
+                user: await findUserRecord(ctx, user),
+                session: { id: session.id, token: session.token },
+                account,
+                plugins: run.results,
+                setCookie,
+              }
+            }
+            catch (err) {
+              const message = err instanceof Error ? err.message : String(err)
+              const rollbackNote = await rollback()
+              return fail(ctx, 500, `User "${alias}": ${message}${rollbackNote}`)
             }
           }
 
-          // 4. Re-fetch session after plugins (plugins may have updated it)
-          const finalSession = await adapter.findSession(session.token)
-          if (!finalSession) {
-            return ctx.json(
-              { error: 'Session lookup failed after plugin execution' },
-              { status: 500 },
-            )
+          // Each organization from its owner's organizationTest result,
+          // copied since better-call serializes repeated objects as "[Circular]"
+          const organizations: Record<string, unknown> = {}
+          for (const [alias, { owner, index }] of Object.entries(plan.organizations)) {
+            const result = results[owner]!.plugins.organization as { organizations: unknown[] }
+            organizations[alias] = structuredClone(result.organizations[index])
+          }
+
+          // Handles in the order the scenario declared them
+          return ctx.json({
+            users: Object.fromEntries(Object.keys(users).map(alias => [alias, results[alias]])),
+            organizations,
+          })
+        },
+      ),
+
+      createTestVerificationLink: createAuthEndpoint(
+        '/test-data/verification-link',
+        {
+          method: 'POST',
+          body: createLinkBody,
+          cloneRequest: true,
+          metadata: { isAction: false },
+        },
+        async (ctx) => {
+          const denied = await authorize(ctx)
+          if (denied !== undefined)
+            return denied
+
+          const found = await ctx.context.internalAdapter.findUserByEmail(ctx.body.email)
+          if (!found) {
+            return fail(ctx, 404, 'User not found')
+          }
+
+          // Email verification tokens are signed JWTs rather than
+          // verification records; mint one exactly like
+          // sendVerificationEmail, with the requested lifetime
+          const expiresIn = ctx.body.expiresIn
+            ?? ctx.context.options.emailVerification?.expiresIn
+            ?? 3600
+          const token = await signJWT(
+            { email: found.user.email.toLowerCase() },
+            ctx.context.secret,
+            expiresIn,
+          )
+          const callbackURL = encodeURIComponent(ctx.body.callbackURL ?? '/')
+
+          return ctx.json({
+            url: `${ctx.context.baseURL}/verify-email?token=${token}&callbackURL=${callbackURL}`,
+            token,
+            expiresAt: new Date(Date.now() + expiresIn * 1000),
+          })
+        },
+      ),
+
+      createTestPasswordResetLink: createAuthEndpoint(
+        '/test-data/password-reset-link',
+        {
+          method: 'POST',
+          body: createLinkBody,
+          cloneRequest: true,
+          metadata: { isAction: false },
+        },
+        async (ctx) => {
+          const denied = await authorize(ctx)
+          if (denied !== undefined)
+            return denied
+
+          const found = await ctx.context.internalAdapter.findUserByEmail(ctx.body.email)
+          if (!found) {
+            return fail(ctx, 404, 'User not found')
           }
 
-          // 5. Set signed session cookie
-          await setSessionCookie(ctx, {
-            session: finalSession.session,
-            user,
+          // Same record and URL as /request-password-reset
+          const expiresIn = ctx.body.expiresIn
+            ?? ctx.context.options.emailAndPassword?.resetPasswordTokenExpiresIn
+            ?? 3600
+          const expiresAt = new Date(Date.now() + expiresIn * 1000)
+          const token = generateId(24)
+          await ctx.context.internalAdapter.createVerificationValue({
+            value: found.user.id,
+            identifier: `reset-password:${token}`,
+            expiresAt,
           })
+          const callbackURL = ctx.body.callbackURL ? encodeURIComponent(ctx.body.callbackURL) : ''
 
           return ctx.json({
-            user: { id: user.id, email: user.email, name: user.name },
-            session: { id: session.id, token: session.token },
-            account: { provider, providerAccountId },
-            plugins: pluginResults,
+            url: `${ctx.context.baseURL}/reset-password/${token}?callbackURL=${callbackURL}`,
+            token,
+            expiresAt,
           })
         },
       ),
@@ -253,44 +1147,376 @@ export function testPlugin(options: TestPluginOptions = {}): BetterAuthPlugin {
           body: z.object({
             email: z.string().email(),
           }),
+          cloneRequest: true,
           metadata: { isAction: false },
         },
         async (ctx) => {
-          if (!secret)
-            return ctx.json(null, { status: 404 })
-          const headerSecret = ctx.headers?.get('x-test-secret')
-          if (headerSecret !== secret) {
-            return ctx.json({ error: 'Unauthorized' }, { status: 401 })
-          }
+          const denied = await authorize(ctx)
+          if (denied !== undefined)
+            return denied
 
           const adapter = ctx.context.internalAdapter
           const found = await adapter.findUserByEmail(ctx.body.email)
           if (!found) {
-            return ctx.json({ error: 'User not found' }, { status: 404 })
+            return fail(ctx, 404, 'User not found')
           }
 
-          // Run plugin cleanup in reverse order — wrap individually so one
-          // failure doesn't block user deletion or other plugin cleanup
-          const cleanupErrors: string[] = []
-          for (const plugin of [...testPlugins].reverse()) {
-            if (plugin.onDeleteUser) {
-              try {
-                await plugin.onDeleteUser(ctx.context, found.user)
+          const cleanupErrors = await deleteUserWithPlugins(ctx, found.user)
+
+          if (cleanupErrors.length > 0) {
+            return ctx.json({ success: true, warnings: cleanupErrors })
+          }
+          return ctx.json({ success: true })
+        },
+      ),
+
+      purgeTestUsers: createAuthEndpoint(
+        '/test-data/purge',
+        {
+          method: 'POST',
+          body: z.object({
+            /** Delete the users created by this run */
+            runId: z.string().optional(),
+            /** Delete users created more than this many seconds ago */
+            olderThan: z.number().nonnegative().optional(),
+            /** Report what would be removed without deleting anything */
+            dryRun: z.boolean().optional(),
+          }),
+          cloneRequest: true,
+          metadata: { isAction: false },
+        },
+        async (ctx) => {
+          const denied = await authorize(ctx)
+          if (denied !== undefined)
+            return denied
+          const { runId, olderThan, dryRun } = ctx.body
+          if (runId === undefined && olderThan === undefined) {
+            return fail(ctx, 400, 'Pass runId, olderThan, or both')
+          }
+
+          // Adapters return 100 rows unless told otherwise, so page
+          // through the tags. All are read before any is deleted, which
+          // would shift the pages.
+          const records: { identifier: string, value: string }[] = []
+          for (let offset = 0; ; offset += PURGE_PAGE_SIZE) {
+            const page = await ctx.context.adapter.findMany<{ identifier: string, value: string }>({
+              model: 'verification',
+              where: [{ field: 'identifier', operator: 'starts_with', value: USER_TAG_PREFIX }],
+              sortBy: { field: 'id', direction: 'asc' },
+              limit: PURGE_PAGE_SIZE,
+              offset,
+            })
+            records.push(...page)
+            if (page.length < PURGE_PAGE_SIZE)
+              break
+          }
+          const cutoff = olderThan === undefined ? null : Date.now() - olderThan * 1000
+          const result: PurgeResult = { removed: [], warnings: [] }
+
+          for (const record of records) {
+            let tag: TestUserTag
+            try {
+              tag = JSON.parse(record.value) as TestUserTag
+            }
+            catch {
+              result.warnings.push(`Unreadable tag ${record.identifier}`)
+              continue
+            }
+            // Both filters must match when both are given
+            if (runId !== undefined && tag.runId !== runId)
+              continue
+            if (cutoff !== null && Date.parse(tag.createdAt) > cutoff)
+              continue
+
+            result.removed.push(tag)
+            if (dryRun)
+              continue
+
+            try {
+              const user = await ctx.context.internalAdapter.findUserById(tag.userId)
+              if (user) {
+                const warnings = await deleteUserWithPlugins(ctx, user)
+                result.warnings.push(...warnings.map(w => `${tag.email}: ${w}`))
               }
-              catch (err) {
-                const message = err instanceof Error ? err.message : String(err)
-                cleanupErrors.push(`Plugin "${plugin.id}": ${message}`)
+              else {
+                // Deleted some other way; only the tag is left
+                await deleteUserTag(ctx, tag.userId)
               }
             }
+            catch (err) {
+              const message = err instanceof Error ? err.message : String(err)
+              result.warnings.push(`${tag.email}: ${message}`)
+            }
           }
 
-          // Always delete the user, even if plugin cleanup had errors
-          await adapter.deleteUser(found.user.id)
+          return ctx.json(result)
+        },
+      ),
 
-          if (cleanupErrors.length > 0) {
-            return ctx.json({ success: true, warnings: cleanupErrors })
+      updateTestSessionExpiry: createAuthEndpoint(
+        '/test-data/session/expiry',
+        {
+          method: 'POST',
+          body: z.object({
+            token: z.string(),
+            /** An explicit expiry (ISO string), or a named state */
+            expiresAt: z.string().datetime({ offset: true }).optional(),
+            state: z.enum(['expired', 'refresh-window']).optional(),
+            activeToken: activeTokenBody,
+          }),
+          cloneRequest: true,
+          metadata: { isAction: false },
+        },
+        async (ctx) => {
+          const denied = await authorize(ctx)
+          if (denied !== undefined)
+            return denied
+          if ((ctx.body.expiresAt === undefined) === (ctx.body.state === undefined)) {
+            return fail(ctx, 400, 'Pass exactly one of expiresAt or state')
           }
-          return ctx.json({ success: true })
+
+          const adapter = ctx.context.internalAdapter
+          const found = await adapter.findSession(ctx.body.token)
+          if (!found) {
+            return fail(ctx, 404, 'Session not found')
+          }
+
+          let expiresAt: Date
+          if (ctx.body.state === 'expired') {
+            expiresAt = new Date(Date.now() - 1000)
+          }
+          else if (ctx.body.state === 'refresh-window') {
+            // getSession refreshes once expiresAt - expiresIn + updateAge
+            // <= now; land one second inside that window
+            const { expiresIn, updateAge } = ctx.context.sessionConfig
+            expiresAt = new Date(Date.now() + (expiresIn - updateAge) * 1000 - 1000)
+            if (expiresAt.valueOf() <= Date.now()) {
+              return fail(ctx, 400, `Sessions expire before they can be refreshed (updateAge ${updateAge}s >= expiresIn ${expiresIn}s)`)
+            }
+          }
+          else {
+            expiresAt = new Date(ctx.body.expiresAt!)
+          }
+
+          const updated = await adapter.updateSession(ctx.body.token, { expiresAt })
+          if (!updated) {
+            return fail(ctx, 500, 'Session update failed')
+          }
+
+          // The cookie cache would keep serving the old session without
+          // a database lookup, so it is always dropped. An expired
+          // session keeps its token cookie, letting the app discover the
+          // expiry itself; otherwise the token cookie is re-issued to
+          // live exactly as long as the session, as a refresh would.
+          // Both cookies belong to the browser's active session only.
+          if (isActiveSession(ctx.body.activeToken, updated.token)) {
+            const maxAge = Math.floor((expiresAt.valueOf() - Date.now()) / 1000)
+            if (maxAge > 0) {
+              await ctx.setSignedCookie(
+                ctx.context.authCookies.sessionToken.name,
+                updated.token,
+                ctx.context.secret,
+                { ...ctx.context.authCookies.sessionToken.attributes, maxAge },
+              )
+            }
+            expireCookie(ctx, ctx.context.authCookies.sessionData)
+          }
+
+          return ctx.json({
+            session: { id: updated.id, token: updated.token, expiresAt: updated.expiresAt },
+          })
+        },
+      ),
+
+      updateTestSession: createAuthEndpoint(
+        '/test-data/session/update',
+        {
+          method: 'POST',
+          body: z.object({
+            token: z.string(),
+            /** Session fields to set, e.g. `activeOrganizationId` */
+            fields: z.record(z.string(), z.unknown()),
+            activeToken: activeTokenBody,
+          }),
+          cloneRequest: true,
+          metadata: { isAction: false },
+        },
+        async (ctx) => {
+          const denied = await authorize(ctx)
+          if (denied !== undefined)
+            return denied
+
+          // Re-issuing cookies alone is /test-data/session/activate's job
+          if (Object.keys(ctx.body.fields).length === 0) {
+            return fail(ctx, 400, 'Pass at least one session field')
+          }
+
+          // Identity and lifetime stay under Better Auth's (and
+          // /test-data/session/expiry's) control
+          const sessionFields = ctx.context.tables.session?.fields ?? {}
+          const invalid = Object.keys(ctx.body.fields).filter(
+            field => PROTECTED_SESSION_FIELDS.includes(field) || !(field in sessionFields),
+          )
+          if (invalid.length > 0) {
+            return fail(ctx, 400, `Cannot update session field(s): ${invalid.join(', ')}`)
+          }
+
+          const adapter = ctx.context.internalAdapter
+          const found = await adapter.findSession(ctx.body.token)
+          if (!found) {
+            return fail(ctx, 404, 'Session not found')
+          }
+
+          const updated = await adapter.updateSession(ctx.body.token, ctx.body.fields)
+          if (!updated) {
+            return fail(ctx, 500, 'Session update failed')
+          }
+
+          // Re-sign the token cookie and rebuild the cookie cache, as
+          // Better Auth's own session-changing endpoints do. Another of
+          // the browser's accounts only gets its multi-session cookie
+          // back, so it doesn't take over as the active session.
+          if (isActiveSession(ctx.body.activeToken, updated.token)) {
+            await setSessionCookie(ctx, { session: updated, user: found.user })
+          }
+          await setMultiSessionCookie(ctx, updated.token)
+
+          return ctx.json({ session: updated })
+        },
+      ),
+
+      activateTestSession: createAuthEndpoint(
+        '/test-data/session/activate',
+        {
+          method: 'POST',
+          body: z.object({
+            token: z.string(),
+          }),
+          cloneRequest: true,
+          metadata: { isAction: false },
+        },
+        async (ctx) => {
+          const denied = await authorize(ctx)
+          if (denied !== undefined)
+            return denied
+
+          const found = await ctx.context.internalAdapter.findSession(ctx.body.token)
+          if (!found || found.session.expiresAt.valueOf() <= Date.now()) {
+            return fail(ctx, 404, 'Session not found')
+          }
+
+          // What /multi-session/set-active does: the session cookie
+          // (and cookie cache) switch to this session, while the other
+          // accounts' multi-session cookies are left as they are
+          await setSessionCookie(ctx, found)
+          await setMultiSessionCookie(ctx, found.session.token)
+
+          const { id, token, expiresAt } = found.session
+          return ctx.json({ session: { id, token, expiresAt } })
+        },
+      ),
+
+      revokeTestSession: createAuthEndpoint(
+        '/test-data/session/revoke',
+        {
+          method: 'POST',
+          body: z.object({
+            token: z.string(),
+            activeToken: activeTokenBody,
+          }),
+          cloneRequest: true,
+          metadata: { isAction: false },
+        },
+        async (ctx) => {
+          const denied = await authorize(ctx)
+          if (denied !== undefined)
+            return denied
+
+          const adapter = ctx.context.internalAdapter
+          const found = await adapter.findSession(ctx.body.token)
+          if (!found) {
+            return fail(ctx, 404, 'Session not found')
+          }
+
+          await adapter.deleteSession(ctx.body.token)
+          // Revoking another multi-session account leaves the active one signed in
+          if (isActiveSession(ctx.body.activeToken, ctx.body.token))
+            deleteSessionCookie(ctx)
+          expireMultiSessionCookies(ctx, [ctx.body.token])
+          return ctx.json({ success: true, revoked: 1 })
+        },
+      ),
+
+      revokeTestSessions: createAuthEndpoint(
+        '/test-data/session/revoke-all',
+        {
+          method: 'POST',
+          body: z.object({
+            userId: z.string(),
+            activeToken: activeTokenBody,
+          }),
+          cloneRequest: true,
+          metadata: { isAction: false },
+        },
+        async (ctx) => {
+          const denied = await authorize(ctx)
+          if (denied !== undefined)
+            return denied
+
+          const adapter = ctx.context.internalAdapter
+          const sessions = await adapter.listSessions(ctx.body.userId)
+          await adapter.deleteSessions(ctx.body.userId)
+          const { activeToken } = ctx.body
+          if (activeToken === undefined || sessions.some(session => session.token === activeToken))
+            deleteSessionCookie(ctx)
+          expireMultiSessionCookies(ctx, sessions.map(session => session.token))
+          return ctx.json({ success: true, revoked: sessions.length })
+        },
+      ),
+
+      getTestMailbox: createAuthEndpoint(
+        '/test-data/mailbox',
+        {
+          method: 'GET',
+          query: z.object({
+            to: z.string().optional(),
+            type: z.enum(['verification-email', 'password-reset', 'magic-link', 'email-otp']).optional(),
+            after: z.coerce.number().optional(),
+          }).optional(),
+          cloneRequest: true,
+          metadata: { isAction: false },
+        },
+        async (ctx) => {
+          const denied = await authorize(ctx)
+          if (denied !== undefined)
+            return denied
+          if (!mailbox) {
+            return fail(ctx, 404, 'Mailbox not configured: pass createTestMailbox() to testPlugin({ mailbox })')
+          }
+
+          return ctx.json({ messages: mailbox.messages(ctx.query ?? {}) })
+        },
+      ),
+
+      clearTestMailbox: createAuthEndpoint(
+        '/test-data/mailbox/clear',
+        {
+          method: 'POST',
+          body: z.object({
+            to: z.string().optional(),
+          }),
+          cloneRequest: true,
+          metadata: { isAction: false },
+        },
+        async (ctx) => {
+          const denied = await authorize(ctx)
+          if (denied !== undefined)
+            return denied
+          if (!mailbox) {
+            return fail(ctx, 404, 'Mailbox not configured: pass createTestMailbox() to testPlugin({ mailbox })')
+          }
+
+          return ctx.json({ success: true, removed: mailbox.clear(ctx.body.to) })
         },
       ),
 
@@ -298,23 +1524,26 @@ export function testPlugin(options: TestPluginOptions = {}): BetterAuthPlugin {
         '/test-data/capabilities',
         {
           method: 'GET',
+          cloneRequest: true,
           metadata: { isAction: false },
         },
         async (ctx) => {
-          if (!secret)
-            return ctx.json(null, { status: 404 })
-          const headerSecret = ctx.headers?.get('x-test-secret')
-          if (headerSecret !== secret) {
-            return ctx.json({ error: 'Unauthorized' }, { status: 401 })
-          }
+          const denied = await authorize(ctx)
+          if (denied !== undefined)
+            return denied
 
           const installedBetterAuthPlugins = (
             ctx.context.options.plugins ?? []
           ).map(p => p.id)
 
           return ctx.json({
+            version: VERSION,
             plugins: testPlugins.map(p => p.id),
+            pluginOptions: Object.fromEntries(
+              testPlugins.map(p => [p.id, pluginOptionsJsonSchema(p)]),
+            ),
             detectedAuthPlugins: installedBetterAuthPlugins,
+            mailbox: !!mailbox,
           })
         },
       ),
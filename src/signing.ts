@@ -0,0 +1,52 @@
+export const SIGNATURE_HEADER = 'x-test-signature'
+export const TIMESTAMP_HEADER = 'x-test-timestamp'
+export const NONCE_HEADER = 'x-test-nonce'
+
+export interface SignedRequest {
+  method: string
+  /** Path plus query string, e.g. `/api/auth/test-data/mailbox?to=a` */
+  path: string
+  /** Raw request body; empty for requests without one */
+  body: string
+  /** Milliseconds since epoch */
+  timestamp: number
+  nonce: string
+}
+
+/**
+ * HMAC-SHA256 (hex) over the timestamp, nonce, method, path and body.
+ * The server recomputes it from the raw request; the timestamp and
+ * nonce bound how long, and how often, a captured request is valid.
+ */
+export async function signTestRequest(secret: string, request: SignedRequest): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  )
+  const payload = [
+    request.timestamp,
+    request.nonce,
+    request.method.toUpperCase(),
+    request.path,
+    request.body,
+  ].join('\n')
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload))
+  return Array.from(new Uint8Array(signature), b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** Headers that authenticate a request to the `testPlugin()` endpoints */
+export async function createSignatureHeaders(
+  secret: string,
+  request: Pick<SignedRequest, 'method' | 'path' | 'body'>,
+): Promise<Record<string, string>> {
+  const timestamp = Date.now()
+  const nonce = crypto.randomUUID()
+  return {
+    [TIMESTAMP_HEADER]: String(timestamp),
+    [NONCE_HEADER]: nonce,
+    [SIGNATURE_HEADER]: await signTestRequest(secret, { ...request, timestamp, nonce }),
+  }
+}
@@ -0,0 +1,66 @@
+import type { CreateUserOptions, TestDataClientConfig, TestStorageState, TestUser } from './client.js'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import { createTestDataClient } from './client.js'
+
+interface SaveStorageStateOptions extends TestDataClientConfig {
+  /** Name of the role, used for the default file name */
+  role: string
+  /** Output file. Defaults to `.auth/{role}.json` */
+  path?: string
+  /** Options for the created user */
+  user?: CreateUserOptions
+}
+
+interface SavedStorageState {
+  user: TestUser
+  storageState: TestStorageState
+  /** File the storage state was written to */
+  path: string
+}
+
+export type { SavedStorageState, SaveStorageStateOptions }
+
+/**
+ * Create a test user via `/test-data/user` and write its session as a
+ * Playwright `storageState` file. Use it in a setup project (or
+ * `globalSetup`) and point your projects at the file.
+ *
+ * Users created here outlive the test run; delete them in a teardown
+ * project with `deleteTestUser()`.
+ *
+ * @example
+ * ```ts
+ * // e2e/auth.setup.ts
+ * import { test as setup } from '@playwright/test'
+ * import { saveStorageState } from 'better-auth-playwright'
+ *
+ * setup('admin', async ({ baseURL }) => {
+ *   await saveStorageState({
+ *     baseURL: baseURL!,
+ *     secret: process.env.TEST_DATA_SECRET!,
+ *     role: 'admin',
+ *     user: { pluginData: { admin: { role: 'admin' } } },
+ *   })
+ * })
+ * ```
+ */
+export async function saveStorageState(options: SaveStorageStateOptions): Promise<SavedStorageState> {
+  const client = createTestDataClient(options)
+  const { user, cookies } = await client.createUser(options.user)
+
+  const path = options.path ?? join('.auth', `${options.role}.json`)
+  const storageState: TestStorageState = { cookies, origins: [] }
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, `${JSON.stringify(storageState, null, 2)}\n`)
+
+  return { user, storageState, path }
+}
+
+/**
+ * Delete a test user by email outside of the fixtures, e.g. in a
+ * teardown project for users created with `saveStorageState()`.
+ */
+export async function deleteTestUser(options: TestDataClientConfig & { email: string }): Promise<void> {
+  await createTestDataClient(options).deleteUser(options.email)
+}
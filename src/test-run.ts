@@ -0,0 +1,35 @@
+/** Header carrying the run ID of the Playwright run creating a user */
+export const RUN_ID_HEADER = 'x-test-run-id'
+/** Header carrying the Playwright worker index */
+export const WORKER_HEADER = 'x-test-worker'
+/**
+ * Environment variable holding the run ID. Set by `setupTestRun()` in
+ * globalSetup; Playwright passes it on to every worker.
+ */
+export const RUN_ID_ENV = 'BETTER_AUTH_PLAYWRIGHT_RUN_ID'
+
+/**
+ * Prefix of the verification records that tag test users. Tags live in
+ * the verification table so tracking needs no schema changes.
+ */
+export const USER_TAG_PREFIX = 'better-auth-playwright:user:'
+
+/** Who created a test user, and when */
+export interface TestUserTag {
+  userId: string
+  email: string
+  /** Run ID from `setupTestRun()`, or null outside a tagged run */
+  runId: string | null
+  /** Playwright worker index, or null outside a worker */
+  worker: string | null
+  /** ISO timestamp */
+  createdAt: string
+}
+
+/** Result of `/test-data/purge` */
+export interface PurgeResult {
+  /** Tags of the users that were deleted (or would be, in a dry run) */
+  removed: TestUserTag[]
+  /** Cleanup problems that did not stop the purge */
+  warnings: string[]
+}
@@ -0,0 +1,41 @@
+export interface TOTPOptions {
+  /** Number of digits in the code. Defaults to 6 */
+  digits?: number
+  /** Time step in seconds. Defaults to 30 */
+  period?: number
+  /** Point in time (ms since epoch) to generate the code for. Defaults to now */
+  timestamp?: number
+}
+
+/**
+ * Generate a TOTP code (RFC 6238, HMAC-SHA1) for a raw secret,
+ * compatible with Better Auth's `two-factor` plugin.
+ *
+ * The secret is the raw string returned by `twoFactorTest()`,
+ * not the base32-encoded form found in the `otpauth://` URI.
+ */
+export async function generateTOTP(secret: string, options: TOTPOptions = {}): Promise<string> {
+  const digits = options.digits ?? 6
+  const period = options.period ?? 30
+  const counter = Math.floor((options.timestamp ?? Date.now()) / (period * 1000))
+
+  const message = new ArrayBuffer(8)
+  new DataView(message).setBigUint64(0, BigInt(counter), false)
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign'],
+  )
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message))
+
+  const offset = hmac[hmac.length - 1]! & 0x0F
+  const binary
+    = ((hmac[offset]! & 0x7F) << 24)
+      | (hmac[offset + 1]! << 16)
+      | (hmac[offset + 2]! << 8)
+      | hmac[offset + 3]!
+  return (binary % 10 ** digits).toString().padStart(digits, '0')
+}
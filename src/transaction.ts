@@ -0,0 +1,24 @@
+import type { DBAdapter, DBTransactionAdapter } from 'better-auth'
+import { getCurrentAdapter, runWithTransaction } from '@better-auth/core/context'
+
+/**
+ * Whether the adapter can roll back. Adapters without transaction
+ * support run transaction callbacks as-is, so a failure would leave
+ * every write in place.
+ */
+export function supportsTransactions(adapter: DBAdapter): boolean {
+  return !!adapter.options?.adapterConfig.transaction
+}
+
+/**
+ * Run `fn` in a transaction, passing it the transaction adapter.
+ * Better Auth's `runWithTransaction` also makes the transaction the
+ * current adapter, so `internalAdapter` writes join it, just as they
+ * do in Better Auth's own endpoints.
+ */
+export async function withTransaction<T>(
+  adapter: DBAdapter,
+  fn: (trx: DBTransactionAdapter) => Promise<T>,
+): Promise<T> {
+  return runWithTransaction(adapter, async () => fn(await getCurrentAdapter(adapter)))
+}
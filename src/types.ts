@@ -1,10 +1,22 @@
-import type { AuthContext, Session, User } from 'better-auth'
+import type { AuthContext, GenericEndpointContext, Session, User } from 'better-auth'
+import type { ZodType } from 'zod/v4'
 
 export interface CreateUserContext {
   authContext: AuthContext
   user: User
   session: Session
   request: Request
+  /**
+   * Endpoint context of the test-data request.
+   * Use it to set additional cookies on the response.
+   */
+  endpoint: GenericEndpointContext
+  /**
+   * Controls which session cookie is set once all plugins have run.
+   * Defaults to the created session's token. Set `token` to `null`
+   * to leave the browser without a session cookie.
+   */
+  sessionCookie: { token: string | null }
 }
 
 /**
@@ -22,9 +34,75 @@ export interface TestDataPlugin<
   /** Must match the Better Auth plugin ID this extends */
   id: TId
 
+  /**
+   * Schema of the plugin's `pluginData` options (zod 4, or `zod/v4`
+   * from zod 3.25). The server validates options against it before
+   * creating anything, answering 400 with the failing field, and
+   * publishes it as JSON Schema from `/test-data/capabilities`.
+   */
+  optionsSchema?: ZodType<TOptions>
+
   /** Called after user+session creation. Returns plugin-specific data. */
   onCreateUser: (ctx: CreateUserContext, options: TOptions) => Promise<TResult>
 
+  /**
+   * Optional: called with this plugin's result once every plugin's
+   * `onCreateUser` has run, and returns the final result. For data that
+   * depends on what later plugins did, such as which session is left.
+   */
+  afterCreateUser?: (ctx: CreateUserContext, result: TResult) => Promise<TResult>
+
   /** Optional cleanup when test user is deleted. */
   onDeleteUser?: (ctx: AuthContext, user: User) => Promise<void>
 }
+
+/** Any test data plugin; the bound for typed plugin lists */
+export type AnyTestDataPlugin = TestDataPlugin<string, any, any>
+
+/**
+ * The plugin list assumed when none is given: any plugin ID, with
+ * untyped options and results.
+ */
+export type UntypedTestDataPlugins = TestDataPlugin<string, unknown, unknown>[]
+
+/**
+ * A server's test data plugins: the list passed to `testPlugin({ plugins })`
+ * or the whole options object.
+ */
+export type TestDataPluginSource
+  = | readonly AnyTestDataPlugin[]
+    | { plugins?: readonly AnyTestDataPlugin[] }
+
+/** The plugin list of a `TestDataPluginSource` */
+export type InferTestDataPlugins<TSource extends TestDataPluginSource>
+  = TSource extends readonly AnyTestDataPlugin[]
+    ? TSource
+    : TSource extends { plugins?: infer TPlugins extends readonly AnyTestDataPlugin[] }
+      ? TPlugins
+      : never
+
+/** `pluginData` for a plugin list: each plugin's options, keyed by plugin ID */
+export type InferPluginData<TPlugins extends readonly AnyTestDataPlugin[]> = {
+  [P in TPlugins[number] as P['id']]?: Parameters<P['onCreateUser']>[1]
+}
+
+/** `T` after a JSON round trip: dates arrive as ISO strings */
+export type Serialized<T>
+  = T extends Date
+    ? string
+    // Primitives as-is, including branded ones like `string & {}`
+    : T extends string | number | boolean
+      ? T
+      : T extends readonly (infer U)[]
+        ? Serialized<U>[]
+        : T extends object
+          ? { [K in keyof T]: Serialized<T[K]> }
+          : T
+
+/**
+ * A created user's `plugins`: each plugin's result, keyed by plugin
+ * ID, as it arrives from the server
+ */
+export type InferPluginResults<TPlugins extends readonly AnyTestDataPlugin[]> = {
+  [P in TPlugins[number] as P['id']]: Serialized<Awaited<ReturnType<P['onCreateUser']>>>
+}
@@ -0,0 +1,91 @@
+import type { DBFieldAttribute } from 'better-auth'
+
+function isType(value: unknown, type: 'string' | 'number' | 'boolean'): boolean {
+  return type === 'string'
+    ? typeof value === 'string'
+    : type === 'number' ? typeof value === 'number' : typeof value === 'boolean'
+}
+
+function checkType(key: string, field: DBFieldAttribute, value: unknown): unknown {
+  const { type } = field
+  if (Array.isArray(type)) {
+    if (!type.includes(value as string))
+      throw new Error(`field "${key}" must be one of ${type.map(v => `"${v}"`).join(', ')}`)
+    return value
+  }
+  switch (type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      if (!isType(value, type))
+        throw new Error(`field "${key}" must be a ${type}`)
+      return value
+    case 'date': {
+      const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : null
+      if (!date || Number.isNaN(date.valueOf()))
+        throw new Error(`field "${key}" must be a date or an ISO date string`)
+      return date
+    }
+    case 'string[]':
+    case 'number[]': {
+      const itemType = type === 'string[]' ? 'string' : 'number'
+      if (!Array.isArray(value) || value.some(item => !isType(item, itemType)))
+        throw new Error(`field "${key}" must be an array of ${itemType}s`)
+      return value
+    }
+    default:
+      return value
+  }
+}
+
+/**
+ * Validate test input against the app's `user.additionalFields`.
+ *
+ * Unlike sign-up, fields marked `input: false` may be set — seeding
+ * server-owned columns (plans, quotas) is the point of test data.
+ * Type checks and `validator.input` still apply, and required fields
+ * without a default must be present. `transform.input` is left to the
+ * adapter, which runs it on write.
+ */
+export function parseAdditionalUserFields(
+  fields: Record<string, DBFieldAttribute>,
+  input: Record<string, unknown>,
+): Record<string, unknown> {
+  const unknownKeys = Object.keys(input).filter(key => !(key in fields))
+  if (unknownKeys.length > 0) {
+    const known = Object.keys(fields)
+    throw new Error(
+      `unknown user field(s) ${unknownKeys.map(k => `"${k}"`).join(', ')}; `
+      + `configured additionalFields: ${known.length > 0 ? known.join(', ') : '(none)'}`,
+    )
+  }
+
+  const parsed: Record<string, unknown> = {}
+  for (const [key, field] of Object.entries(fields)) {
+    let value = input[key]
+    if (value === undefined) {
+      if (field.required && field.defaultValue === undefined)
+        throw new Error(`field "${key}" is required`)
+      continue
+    }
+
+    if (value === null) {
+      if (field.required)
+        throw new Error(`field "${key}" is required and cannot be null`)
+      parsed[key] = null
+      continue
+    }
+
+    value = checkType(key, field, value)
+    if (field.validator?.input) {
+      const result = field.validator.input['~standard'].validate(value)
+      if (result instanceof Promise)
+        throw new Error(`field "${key}" has an async validator, which Better Auth does not support`)
+      if (result.issues)
+        throw new Error(`field "${key}": ${result.issues[0]?.message ?? 'validation failed'}`)
+      value = result.value
+    }
+    parsed[key] = value
+  }
+  return parsed
+}
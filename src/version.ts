@@ -0,0 +1,17 @@
+// Replaced with package.json's version by tsdown and vitest
+declare const __VERSION__: string
+
+/** Version of better-auth-playwright */
+export const VERSION: string = __VERSION__
+
+/**
+ * Whether a client and a server version can talk to each other: same
+ * major version, and same minor version while the major is 0.
+ */
+export function isCompatibleVersion(client: string, server: string): boolean {
+  const [clientMajor, clientMinor] = client.split('.')
+  const [serverMajor, serverMinor] = server.split('.')
+  if (clientMajor !== serverMajor)
+    return false
+  return clientMajor !== '0' || clientMinor === serverMinor
+}
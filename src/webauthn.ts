@@ -0,0 +1,138 @@
+import type { CDPSession, Page } from '@playwright/test'
+
+/** A WebAuthn credential held by a virtual authenticator */
+export interface VirtualPasskey {
+  /** Credential ID, base64url-encoded */
+  credentialId: string
+  /** Relying party ID, e.g. `localhost` */
+  rpId: string
+  /** User handle, base64url-encoded */
+  userHandle: string
+  /** PKCS#8 private key, base64url-encoded */
+  privateKey: string
+  /** Signature counter. Defaults to 0 */
+  signCount?: number
+}
+
+export interface VirtualAuthenticatorOptions {
+  /**
+   * Whether user verification (biometrics, PIN) succeeds. Set to false
+   * to test ceremonies that require it failing. Defaults to true.
+   */
+  userVerified?: boolean
+  /** Whether the authenticator supports user verification. Defaults to true */
+  hasUserVerification?: boolean
+  /**
+   * Whether it stores discoverable credentials, needed for sign-in
+   * without entering a username. Defaults to true.
+   */
+  hasResidentKey?: boolean
+  /** Defaults to `'internal'`, a platform authenticator like Touch ID */
+  transport?: 'internal' | 'usb' | 'nfc' | 'ble'
+  /**
+   * Credentials to load, e.g. `user.plugins.passkey` from
+   * `passkeyTest()`. Leave empty to test registration.
+   */
+  passkeys?: VirtualPasskey[]
+}
+
+/** A virtual authenticator in one page, driven through CDP */
+export interface VirtualAuthenticator {
+  /** CDP authenticator ID */
+  id: string
+  /** Load another credential */
+  addPasskey: (passkey: VirtualPasskey) => Promise<void>
+  /** Credentials it holds, including those registered by the app */
+  passkeys: () => Promise<Required<VirtualPasskey>[]>
+  /** Make user verification succeed or fail from now on */
+  setUserVerified: (verified: boolean) => Promise<void>
+  /** Remove the authenticator; WebAuthn calls then find no authenticator */
+  remove: () => Promise<void>
+}
+
+// CDP binary fields are standard base64; WebAuthn IDs are base64url
+function toBase64(base64url: string): string {
+  const base64 = base64url.replace(/-/g, '+').replace(/_/g, '/')
+  return base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '=')
+}
+
+function toBase64url(base64: string): string {
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Install a virtual WebAuthn authenticator in `page` (Chromium only),
+ * so passkey registration and sign-in run without a real device,
+ * including in headless runs. It answers every prompt automatically.
+ */
+export async function createVirtualAuthenticator(
+  page: Page,
+  options: VirtualAuthenticatorOptions = {},
+): Promise<VirtualAuthenticator> {
+  let session: CDPSession
+  try {
+    session = await page.context().newCDPSession(page)
+  }
+  catch (err) {
+    throw new Error(
+      'better-auth-playwright: virtual authenticators require Chromium (the CDP WebAuthn domain).',
+      { cause: err },
+    )
+  }
+
+  await session.send('WebAuthn.enable', { enableUI: false })
+  const { authenticatorId } = await session.send('WebAuthn.addVirtualAuthenticator', {
+    options: {
+      protocol: 'ctap2',
+      ctap2Version: 'ctap2_1',
+      transport: options.transport ?? 'internal',
+      hasResidentKey: options.hasResidentKey ?? true,
+      hasUserVerification: options.hasUserVerification ?? true,
+      isUserVerified: options.userVerified ?? true,
+      automaticPresenceSimulation: true,
+    },
+  })
+
+  const authenticator: VirtualAuthenticator = {
+    id: authenticatorId,
+
+    async addPasskey(passkey) {
+      await session.send('WebAuthn.addCredential', {
+        authenticatorId,
+        credential: {
+          credentialId: toBase64(passkey.credentialId),
+          isResidentCredential: options.hasResidentKey ?? true,
+          rpId: passkey.rpId,
+          privateKey: toBase64(passkey.privateKey),
+          userHandle: toBase64(passkey.userHandle),
+          signCount: passkey.signCount ?? 0,
+        },
+      })
+    },
+
+    async passkeys() {
+      const { credentials } = await session.send('WebAuthn.getCredentials', { authenticatorId })
+      return credentials.map(credential => ({
+        credentialId: toBase64url(credential.credentialId),
+        rpId: credential.rpId ?? '',
+        userHandle: toBase64url(credential.userHandle ?? ''),
+        privateKey: toBase64url(credential.privateKey),
+        signCount: credential.signCount,
+      }))
+    },
+
+    async setUserVerified(verified) {
+      await session.send('WebAuthn.setUserVerified', { authenticatorId, isUserVerified: verified })
+    },
+
+    async remove() {
+      await session.send('WebAuthn.removeVirtualAuthenticator', { authenticatorId })
+      await session.detach()
+    },
+  }
+
+  for (const passkey of options.passkeys ?? [])
+    await authenticator.addPasskey(passkey)
+
+  return authenticator
+}
@@ -0,0 +1,80 @@
+import type { BetterAuthOptions, BetterAuthPlugin } from 'better-auth'
+import type { SessionCookieUpdate, TestCookie } from '../src/client.js'
+import { betterAuth } from 'better-auth'
+import { memoryAdapter } from 'better-auth/adapters/memory'
+import { vi } from 'vitest'
+import { createTestDataClient } from '../src/client.js'
+import { testPlugin } from '../src/server.js'
+
+export const SECRET = 'test-data-secret-for-integration-tests'
+export const BASE_URL = 'http://localhost:3000'
+
+interface TestAuthOptions {
+  /** The app's Better Auth plugins, next to testPlugin() */
+  plugins?: BetterAuthPlugin[]
+  /** testPlugin() options. `secret` defaults to SECRET */
+  test?: Parameters<typeof testPlugin>[0]
+  /** Other Better Auth options */
+  auth?: Partial<BetterAuthOptions>
+  /** Set to false for an adapter that can't roll back */
+  transactions?: boolean
+}
+
+/**
+ * A real Better Auth instance on the memory adapter with testPlugin()
+ * installed. Global fetch is routed to its handler, so the test data
+ * client talks to it as it would to a running app.
+ */
+// eslint-disable-next-line ts/explicit-function-return-type
+export async function createTestAuth(options: TestAuthOptions = {}) {
+  const db: Record<string, Record<string, unknown>[]> = {}
+  const auth = betterAuth({
+    baseURL: BASE_URL,
+    secret: 'better-auth-secret-for-integration-tests',
+    database: options.transactions === false
+      ? (authOptions) => {
+          const adapter = memoryAdapter(db)(authOptions)
+          return {
+            ...adapter,
+            options: { ...adapter.options!, adapterConfig: { ...adapter.options!.adapterConfig, transaction: false } },
+            transaction: async callback => callback(adapter),
+          }
+        }
+      : memoryAdapter(db),
+    emailAndPassword: { enabled: true },
+    logger: { disabled: true },
+    ...options.auth,
+    plugins: [...(options.plugins ?? []), testPlugin({ secret: SECRET, ...options.test })],
+  })
+  // The memory adapter only creates tables on insert; lookups on a
+  // missing one throw
+  const context = await auth.$context
+  for (const table of Object.values(context.tables))
+    db[table.modelName] ??= []
+
+  vi.stubGlobal('fetch', async (input: string | URL, init?: RequestInit) => auth.handler(new Request(input, init)))
+  const client = createTestDataClient({ baseURL: BASE_URL, secret: SECRET })
+
+  return {
+    auth,
+    db,
+    client,
+    /** Send a request as-is, e.g. with a bad or replayed signature */
+    async send(path: string, init: RequestInit = {}): Promise<Response> {
+      return auth.handler(new Request(`${BASE_URL}/api/auth${path}`, init))
+    },
+    async getSession(cookies: TestCookie[]) {
+      return auth.api.getSession({ headers: new Headers({ cookie: cookieHeader(cookies) }) })
+    },
+  }
+}
+
+export function cookieHeader(cookies: TestCookie[]): string {
+  return cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ')
+}
+
+/** The cookies a browser would hold after a session cookie update */
+export function applyCookieUpdate(cookies: TestCookie[], update: SessionCookieUpdate): TestCookie[] {
+  const changed = new Set([...update.clearedCookies, ...update.cookies].map(cookie => cookie.name))
+  return [...cookies.filter(cookie => !changed.has(cookie.name)), ...update.cookies]
+}
@@ -0,0 +1,393 @@
+import type { APIRequestContext } from '@playwright/test'
+import { Buffer } from 'node:buffer'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createTestDataClient } from '../src/client.js'
+import { VERSION } from '../src/version.js'
+
+describe('createTestDataClient', () => {
+  const fetchMock = vi.fn()
+  const client = createTestDataClient({ baseURL: 'http://localhost:3000', secret: 'shh' })
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    fetchMock.mockReset()
+  })
+
+  describe('createUsers', () => {
+    it('generates one entry per requested user', async () => {
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({ users: [] })))
+      await client.createUsers(3, { session: false })
+
+      const [url, init] = fetchMock.mock.calls[0]!
+      expect(url).toBe('http://localhost:3000/api/auth/test-data/users')
+      const body = JSON.parse(init.body)
+      expect(body.session).toBe(false)
+      expect(body.users).toHaveLength(3)
+      expect(new Set(body.users.map((u: { email: string }) => u.email)).size).toBe(3)
+    })
+
+    it('passes per-user options through', async () => {
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({ users: [] })))
+      await client.createUsers([{ email: 'a@test.local', pluginData: { organization: { skip: true } } }])
+
+      const body = JSON.parse(fetchMock.mock.calls[0]![1].body)
+      expect(body.users).toEqual([{ email: 'a@test.local', pluginData: { organization: { skip: true } } }])
+    })
+
+    it('parses each user\'s cookies from the response body', async () => {
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({
+        users: [
+          {
+            user: { id: 'u1', email: 'a@test.local', name: 'a' },
+            session: { id: 's1', token: 't1' },
+            plugins: {},
+            setCookie: ['better-auth.session_token=t1.sig; Path=/; HttpOnly'],
+          },
+          {
+            user: { id: 'u2', email: 'b@test.local', name: 'b' },
+            session: null,
+            plugins: {},
+            setCookie: [],
+          },
+        ],
+      })))
+
+      const [first, second] = await client.createUsers(2)
+      expect(first!.user.session).toEqual({ id: 's1', token: 't1' })
+      expect(first!.cookies).toMatchObject([{ name: 'better-auth.session_token', value: 't1.sig', httpOnly: true }])
+      expect(second!.user.session).toBeNull()
+      expect(second!.cookies).toEqual([])
+    })
+
+    it('throws with the server error', async () => {
+      fetchMock.mockResolvedValue(new Response('{"error":"User 1 (b@test.local): boom"}', { status: 500 }))
+      await expect(client.createUsers(2)).rejects.toThrow(/createUsers failed \(500\).*boom/)
+    })
+  })
+
+  describe('session lifecycle', () => {
+    function sessionResponse(setCookie: string[]): Response {
+      const headers = new Headers()
+      for (const cookie of setCookie)
+        headers.append('set-cookie', cookie)
+      return new Response(JSON.stringify({
+        session: { id: 's1', token: 't1', expiresAt: '2030-01-01T00:00:00.000Z' },
+      }), { headers })
+    }
+
+    it('sends a named state or an explicit expiry', async () => {
+      fetchMock.mockImplementation(async () => sessionResponse([]))
+      await client.setSessionExpiry('t1', 'refresh-window')
+      await client.setSessionExpiry('t1', new Date('2030-01-01T00:00:00.000Z'))
+
+      const [url, init] = fetchMock.mock.calls[0]!
+      expect(url).toBe('http://localhost:3000/api/auth/test-data/session/expiry')
+      expect(JSON.parse(init.body)).toEqual({ token: 't1', state: 'refresh-window' })
+      expect(JSON.parse(fetchMock.mock.calls[1]![1].body)).toEqual({
+        token: 't1',
+        expiresAt: '2030-01-01T00:00:00.000Z',
+      })
+    })
+
+    it('separates re-issued cookies from deleted ones', async () => {
+      fetchMock.mockResolvedValue(sessionResponse([
+        'better-auth.session_token=t1.sig; Max-Age=600; Path=/; HttpOnly',
+        'better-auth.session_data=; Max-Age=0; Path=/; HttpOnly',
+      ]))
+
+      const update = await client.setSessionExpiry('t1', 'refresh-window')
+      expect(update.session.expiresAt).toEqual(new Date('2030-01-01T00:00:00.000Z'))
+      expect(update.cookies).toMatchObject([{ name: 'better-auth.session_token', value: 't1.sig' }])
+      expect(update.clearedCookies).toEqual([{ name: 'better-auth.session_data', domain: 'localhost', path: '/' }])
+    })
+
+    it('sends session fields and returns the re-issued cookies', async () => {
+      fetchMock.mockResolvedValue(sessionResponse([
+        'better-auth.session_token=t1.sig; Max-Age=600; Path=/; HttpOnly',
+        'better-auth.session_data=eyJ; Max-Age=300; Path=/; HttpOnly',
+      ]))
+
+      const update = await client.updateSession('t1', { activeOrganizationId: 'org-2' })
+      const [url, init] = fetchMock.mock.calls[0]!
+      expect(url).toBe('http://localhost:3000/api/auth/test-data/session/update')
+      expect(JSON.parse(init.body)).toEqual({ token: 't1', fields: { activeOrganizationId: 'org-2' } })
+      expect(update.session.expiresAt).toEqual(new Date('2030-01-01T00:00:00.000Z'))
+      expect(update.cookies.map(c => c.name)).toEqual(['better-auth.session_token', 'better-auth.session_data'])
+      expect(update.clearedCookies).toEqual([])
+    })
+
+    it('reports cookies cleared by a revocation', async () => {
+      const headers = new Headers()
+      headers.append('set-cookie', 'better-auth.session_token=; Max-Age=0; Path=/')
+      headers.append('set-cookie', 'better-auth.session_data=; Max-Age=0; Path=/')
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({ success: true, revoked: 3 }), { headers }))
+
+      const result = await client.revokeAllSessions('u1')
+      expect(JSON.parse(fetchMock.mock.calls[0]![1].body)).toEqual({ userId: 'u1' })
+      expect(result).toEqual({
+        revoked: 3,
+        cookies: [],
+        clearedCookies: [
+          { name: 'better-auth.session_token', domain: 'localhost', path: '/' },
+          { name: 'better-auth.session_data', domain: 'localhost', path: '/' },
+        ],
+      })
+    })
+  })
+
+  describe('links', () => {
+    it('requests a password reset link with an expiry', async () => {
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({
+        url: 'http://localhost:3000/api/auth/reset-password/abc?callbackURL=',
+        token: 'abc',
+        expiresAt: '2020-01-01T00:00:00.000Z',
+      })))
+
+      const link = await client.createPasswordResetLink('a@test.local', { expiresIn: -60 })
+      const [url, init] = fetchMock.mock.calls[0]!
+      expect(url).toBe('http://localhost:3000/api/auth/test-data/password-reset-link')
+      expect(JSON.parse(init.body)).toEqual({ email: 'a@test.local', expiresIn: -60 })
+      expect(link.token).toBe('abc')
+      expect(link.expiresAt).toEqual(new Date('2020-01-01T00:00:00.000Z'))
+    })
+
+    it('throws with the server error', async () => {
+      fetchMock.mockResolvedValue(new Response('{"error":"User not found"}', { status: 404 }))
+      await expect(client.createVerificationLink('nobody@test.local'))
+        .rejects
+        .toThrow(/createVerificationLink failed \(404\).*User not found/)
+    })
+  })
+
+  describe('createOAuthUser', () => {
+    const user = { id: 'u1', email: 'a@test.local', name: 'a', emailVerified: true, createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-01T00:00:00.000Z' }
+
+    it('sends seeded tokens and parses the account expiry', async () => {
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({
+        user,
+        session: { id: 's1', token: 't1' },
+        account: { provider: 'keycloak', providerAccountId: 'kc-1', scope: 'openid,email', accessTokenExpiresAt: '2030-01-01T00:00:00.000Z', refreshTokenExpiresAt: null },
+        plugins: {},
+      })))
+
+      const { user: created } = await client.createOAuthUser({
+        email: 'a@test.local',
+        provider: 'keycloak',
+        providerAccountId: 'kc-1',
+        accessToken: 'at',
+        refreshToken: 'rt',
+        scope: ['openid', 'email'],
+        accessTokenExpiresAt: new Date('2030-01-01T00:00:00.000Z'),
+      })
+      const [url, init] = fetchMock.mock.calls[0]!
+      expect(url).toBe('http://localhost:3000/api/auth/test-data/oauth-user')
+      expect(JSON.parse(init.body)).toMatchObject({
+        provider: 'keycloak',
+        accessToken: 'at',
+        refreshToken: 'rt',
+        scope: ['openid', 'email'],
+        accessTokenExpiresAt: '2030-01-01T00:00:00.000Z',
+      })
+      expect(created.account).toEqual({
+        provider: 'keycloak',
+        providerAccountId: 'kc-1',
+        scope: 'openid,email',
+        accessTokenExpiresAt: new Date('2030-01-01T00:00:00.000Z'),
+        refreshTokenExpiresAt: null,
+      })
+    })
+
+    it('throws when the provider is not configured', async () => {
+      fetchMock.mockResolvedValue(new Response('{"error":"Unknown OAuth provider \\"okta\\""}', { status: 400 }))
+      await expect(client.createOAuthUser({ provider: 'okta' }))
+        .rejects
+        .toThrow(/createOAuthUser failed \(400\).*Unknown OAuth provider/)
+    })
+  })
+
+  describe('seed', () => {
+    it('generates missing emails and serializes OAuth expiries', async () => {
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({ users: {}, organizations: {} })))
+      await client.seed({
+        users: {
+          'Alice Admin': {},
+          'bob': { email: 'bob@test.local', oauth: { provider: 'github', accessTokenExpiresAt: '2030-01-01T00:00:00Z' } },
+        },
+        organizations: { acme: { owner: 'Alice Admin', members: [{ user: 'bob' }] } },
+      })
+
+      const [url, init] = fetchMock.mock.calls[0]!
+      expect(url).toBe('http://localhost:3000/api/auth/test-data/scenario')
+      const body = JSON.parse(init.body)
+      expect(body.users['Alice Admin'].email).toMatch(/^test-alice-admin-[0-9a-f]{8}@test\.local$/)
+      expect(body.users.bob).toEqual({
+        email: 'bob@test.local',
+        oauth: { provider: 'github', accessTokenExpiresAt: '2030-01-01T00:00:00.000Z' },
+      })
+      expect(body.organizations).toEqual({ acme: { owner: 'Alice Admin', members: [{ user: 'bob' }] } })
+    })
+
+    it('returns users and organizations by alias', async () => {
+      const user = { id: 'u1', email: 'a@test.local', name: 'a', emailVerified: true, createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-01T00:00:00.000Z' }
+      const acme = { id: 'o1', name: 'Acme', slug: 'acme', role: 'owner', members: [], teams: [], invitations: [] }
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({
+        users: {
+          alice: {
+            user,
+            session: { id: 's1', token: 't1' },
+            account: null,
+            plugins: {},
+            setCookie: ['better-auth.session_token=t1.sig; Path=/; HttpOnly'],
+          },
+        },
+        organizations: { acme },
+      })))
+
+      const { users, organizations } = await client.seed({
+        users: { alice: {} },
+        organizations: { acme: { owner: 'alice', name: 'Acme' } },
+      })
+      expect(users.alice.user.session).toEqual({ id: 's1', token: 't1' })
+      expect(users.alice.user.account).toBeNull()
+      expect(users.alice.cookies).toMatchObject([{ name: 'better-auth.session_token', value: 't1.sig' }])
+      expect(organizations.acme).toEqual(acme)
+    })
+
+    it('throws with the server error', async () => {
+      fetchMock.mockResolvedValue(new Response('{"error":"circular organization membership: a → b → a"}', { status: 400 }))
+      await expect(client.seed({ users: { a: {}, b: {} } })).rejects.toThrow(/seed failed \(400\).*circular/)
+    })
+  })
+
+  describe('test runs', () => {
+    it('tags requests with the run ID and worker', async () => {
+      const tagged = createTestDataClient({ baseURL: 'http://localhost:3000', secret: 'shh', runId: 'run-1', worker: '2' })
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({ users: [] })))
+      await tagged.createUsers(1)
+
+      const [, init] = fetchMock.mock.calls[0]!
+      expect(init.headers['x-test-run-id']).toBe('run-1')
+      expect(init.headers['x-test-worker']).toBe('2')
+    })
+
+    it('sends no run headers outside a run', async () => {
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({ users: [] })))
+      await client.createUsers(1)
+
+      const [, init] = fetchMock.mock.calls[0]!
+      expect(init.headers['x-test-run-id']).toBeUndefined()
+      expect(init.headers['x-test-worker']).toBeUndefined()
+    })
+
+    it('purges by run ID and age', async () => {
+      const removed = [{ userId: 'u1', email: 'a@test.local', runId: 'run-1', worker: '0', createdAt: '2025-01-01T00:00:00.000Z' }]
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({ removed, warnings: [] })))
+
+      const result = await client.purge({ runId: 'run-1', olderThan: 60, dryRun: true })
+      const [url, init] = fetchMock.mock.calls[0]!
+      expect(url).toBe('http://localhost:3000/api/auth/test-data/purge')
+      expect(JSON.parse(init.body)).toEqual({ runId: 'run-1', olderThan: 60, dryRun: true })
+      expect(result.removed).toEqual(removed)
+    })
+
+    it('throws when the purge is rejected', async () => {
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({ error: 'Pass runId, olderThan, or both' }), { status: 400 }))
+      await expect(client.purge({}))
+        .rejects
+        .toThrow(/purge failed \(400\)/)
+    })
+  })
+
+  describe('capabilities', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('fetches the server capabilities', async () => {
+      const capabilities = { version: VERSION, plugins: ['admin'], pluginOptions: { admin: null }, detectedAuthPlugins: [], mailbox: false }
+      fetchMock.mockResolvedValue(new Response(JSON.stringify(capabilities)))
+
+      expect(await client.capabilities()).toEqual(capabilities)
+      expect(fetchMock.mock.calls[0]![0]).toBe('http://localhost:3000/api/auth/test-data/capabilities')
+    })
+
+    it('throws on an incompatible server version', async () => {
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({ version: '99.0.0', plugins: [] })))
+      await expect(client.checkServerVersion())
+        .rejects
+        .toThrow(`the tests use ${VERSION} but the server runs 99.0.0`)
+    })
+
+    it('accepts a matching server version', async () => {
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({ version: VERSION, plugins: [] })))
+      await expect(client.checkServerVersion()).resolves.toBeUndefined()
+    })
+
+    it('warns when the server does not report its version', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({ plugins: [] })))
+
+      await client.checkServerVersion()
+      expect(warn).toHaveBeenCalledWith(expect.stringMatching(/does not report its version/))
+    })
+
+    it('leaves unreachable servers to the next request', async () => {
+      fetchMock.mockResolvedValue(new Response(null, { status: 404 }))
+      await expect(client.checkServerVersion()).resolves.toBeUndefined()
+    })
+  })
+
+  describe('request transport', () => {
+    const requestFetch = vi.fn()
+    const viaRequest = createTestDataClient({
+      baseURL: 'http://localhost:3000',
+      secret: 'shh',
+      request: { fetch: requestFetch } as unknown as APIRequestContext,
+    })
+
+    afterEach(() => {
+      requestFetch.mockReset()
+    })
+
+    function apiResponse(status: number, body: unknown, headers: { name: string, value: string }[] = []): unknown {
+      return {
+        status: () => status,
+        statusText: () => '',
+        headersArray: () => headers,
+        body: async () => Buffer.from(JSON.stringify(body)),
+      }
+    }
+
+    it('sends signed requests through the Playwright request context', async () => {
+      requestFetch.mockResolvedValue(apiResponse(200, {
+        user: { id: 'u1', email: 'a@test.local', name: 'a' },
+        session: { id: 's1', token: 't1' },
+        plugins: {},
+      }, [
+        { name: 'set-cookie', value: 'better-auth.session_token=t1.sig; Path=/; HttpOnly' },
+        { name: 'set-cookie', value: 'better-auth.session_data=x; Path=/' },
+      ]))
+
+      const { user, cookies } = await viaRequest.createUser({ email: 'a@test.local' })
+      expect(fetchMock).not.toHaveBeenCalled()
+      expect(user.session.token).toBe('t1')
+      expect(cookies.map(c => c.name)).toEqual(['better-auth.session_token', 'better-auth.session_data'])
+
+      const [url, options] = requestFetch.mock.calls[0]!
+      expect(url).toBe('http://localhost:3000/api/auth/test-data/user')
+      expect(options.method).toBe('POST')
+      expect(JSON.parse(options.data).email).toBe('a@test.local')
+      // An explicit Cookie header keeps the context's cookie jar out
+      expect(options.headers).toMatchObject({ 'Content-Type': 'application/json', 'Cookie': '', 'Origin': 'http://localhost:3000' })
+    })
+
+    it('reports error statuses from the request context', async () => {
+      requestFetch.mockResolvedValue(apiResponse(403, { error: 'nope' }))
+      await expect(viaRequest.createUser()).rejects.toThrow(/403/)
+    })
+  })
+})
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest'
+import { parseSetCookieHeaders } from '../src/cookies.js'
+
+const url = 'http://app.localhost:3000/api/auth/test-data/user'
+const now = Date.UTC(2030, 0, 1)
+const nowSeconds = now / 1000
+
+function parse(headers: string[], domains?: string[]): ReturnType<typeof parseSetCookieHeaders> {
+  return parseSetCookieHeaders(headers, { url, now, domains })
+}
+
+describe('parseSetCookieHeaders', () => {
+  it('parses name, value and flags', () => {
+    const { cookies } = parse(['better-auth.session_token=abc.sig%3D; Path=/; HttpOnly; Secure'])
+    expect(cookies).toEqual([{
+      name: 'better-auth.session_token',
+      value: 'abc.sig%3D',
+      domain: 'app.localhost',
+      path: '/',
+      expires: -1,
+      httpOnly: true,
+      secure: true,
+      sameSite: 'Lax',
+    }])
+  })
+
+  it('keeps "=" inside values', () => {
+    const { cookies } = parse(['data=a=b==; Path=/'])
+    expect(cookies[0]!.value).toBe('a=b==')
+  })
+
+  describe('domain', () => {
+    it('is host-only without a Domain attribute', () => {
+      expect(parse(['a=1']).cookies[0]!.domain).toBe('app.localhost')
+    })
+
+    it('includes subdomains with a Domain attribute, with or without a leading dot', () => {
+      expect(parse(['a=1; Domain=localhost']).cookies[0]!.domain).toBe('.localhost')
+      expect(parse(['a=1; Domain=.Localhost']).cookies[0]!.domain).toBe('.localhost')
+    })
+
+    it('copies cookies onto extra domains', () => {
+      const { cookies } = parse(['a=1; Path=/'], ['other.test', '.shared.test'])
+      expect(cookies.map(c => c.domain)).toEqual(['app.localhost', 'other.test', '.shared.test'])
+    })
+  })
+
+  describe('path', () => {
+    it('uses the Path attribute', () => {
+      expect(parse(['a=1; Path=/api/auth']).cookies[0]!.path).toBe('/api/auth')
+    })
+
+    it('defaults to the directory of the request path', () => {
+      expect(parse(['a=1']).cookies[0]!.path).toBe('/api/auth/test-data')
+      expect(parse(['a=1; Path=relative']).cookies[0]!.path).toBe('/api/auth/test-data')
+    })
+  })
+
+  describe('expiry', () => {
+    it('resolves Max-Age against the current time', () => {
+      expect(parse(['a=1; Max-Age=600']).cookies[0]!.expires).toBe(nowSeconds + 600)
+    })
+
+    it('parses Expires', () => {
+      const { cookies } = parse(['a=1; Expires=Wed, 02 Jan 2030 00:00:00 GMT'])
+      expect(cookies[0]!.expires).toBe(nowSeconds + 86400)
+    })
+
+    it('prefers Max-Age over Expires', () => {
+      const { cookies } = parse(['a=1; Expires=Wed, 02 Jan 2030 00:00:00 GMT; Max-Age=60'])
+      expect(cookies[0]!.expires).toBe(nowSeconds + 60)
+    })
+
+    it('is a session cookie without either attribute', () => {
+      expect(parse(['a=1']).cookies[0]!.expires).toBe(-1)
+    })
+  })
+
+  it('parses SameSite case-insensitively, defaulting to Lax', () => {
+    const { cookies } = parse(['a=1; SameSite=strict', 'b=1; samesite=None; Secure', 'c=1'])
+    expect(cookies.map(c => c.sameSite)).toEqual(['Strict', 'None', 'Lax'])
+  })
+
+  it('keeps __Secure- and __Host- cookies as sent', () => {
+    const { cookies } = parse([
+      '__Secure-better-auth.session_token=abc; Path=/; Secure; HttpOnly',
+      '__Host-csrf=xyz; Path=/; Secure',
+    ])
+    expect(cookies.map(c => [c.name, c.domain, c.path, c.secure])).toEqual([
+      ['__Secure-better-auth.session_token', 'app.localhost', '/', true],
+      ['__Host-csrf', 'app.localhost', '/', true],
+    ])
+  })
+
+  describe('deletions', () => {
+    it('reports Max-Age=0 and past Expires as cleared', () => {
+      const { cookies, cleared } = parse([
+        'a=; Max-Age=0; Path=/',
+        'b=stale; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Path=/',
+        'd=1; Path=/',
+      ])
+      expect(cookies.map(c => c.name)).toEqual(['d'])
+      expect(cleared).toEqual([
+        { name: 'a', domain: 'app.localhost', path: '/' },
+        { name: 'b', domain: 'app.localhost', path: '/' },
+      ])
+    })
+
+    it('keeps cookies with an empty value', () => {
+      const { cookies, cleared } = parse(['flag=; Path=/'])
+      expect(cookies).toEqual([expect.objectContaining({ name: 'flag', value: '', expires: -1 })])
+      expect(cleared).toEqual([])
+    })
+
+    it('clears on extra domains too', () => {
+      const { cleared } = parse(['a=; Max-Age=0; Domain=localhost; Path=/'], ['other.test'])
+      expect(cleared).toEqual([
+        { name: 'a', domain: '.localhost', path: '/' },
+        { name: 'a', domain: 'other.test', path: '/' },
+      ])
+    })
+  })
+
+  it('skips malformed headers', () => {
+    expect(parse(['', 'novalue', '=1']).cookies).toEqual([])
+  })
+})
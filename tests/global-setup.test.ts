@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { purgeTestUsers, setupTestRun, teardownTestRun } from '../src/global-setup.js'
+import { RUN_ID_ENV } from '../src/test-run.js'
+
+describe('test run helpers', () => {
+  const fetchMock = vi.fn()
+  const config = { baseURL: 'http://localhost:3000', secret: 'shh' }
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock)
+    vi.stubEnv(RUN_ID_ENV, undefined)
+    fetchMock.mockImplementation(async () => new Response(JSON.stringify({ removed: [], warnings: [] })))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+    fetchMock.mockReset()
+  })
+
+  it('starts a run and exposes its ID to workers', async () => {
+    const { runId, purged } = await setupTestRun(config)
+    expect(runId).toMatch(/^[0-9a-f-]{36}$/)
+    expect(process.env[RUN_ID_ENV]).toBe(runId)
+    expect(purged).toBeNull()
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('purges stale users before the run', async () => {
+    const { purged } = await setupTestRun({ ...config, runId: 'run-1', purgeOlderThan: 3600 })
+    expect(purged).toEqual({ removed: [], warnings: [] })
+    expect(JSON.parse(fetchMock.mock.calls[0]![1].body)).toEqual({ olderThan: 3600 })
+  })
+
+  it('tears down the current run', async () => {
+    await setupTestRun({ ...config, runId: 'run-2' })
+    await teardownTestRun(config)
+
+    const [url, init] = fetchMock.mock.calls[0]!
+    expect(url).toBe('http://localhost:3000/api/auth/test-data/purge')
+    expect(JSON.parse(init.body)).toEqual({ runId: 'run-2' })
+  })
+
+  it('skips teardown when no run was started', async () => {
+    expect(await teardownTestRun(config)).toBeNull()
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('purges outside a run', async () => {
+    await purgeTestUsers({ ...config, olderThan: 86400, dryRun: true })
+    expect(JSON.parse(fetchMock.mock.calls[0]![1].body)).toEqual({ olderThan: 86400, dryRun: true })
+  })
+})
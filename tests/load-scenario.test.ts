@@ -0,0 +1,48 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { loadScenario } from '../src/load-scenario.js'
+
+describe('loadScenario', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'bap-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('reads JSON files', async () => {
+    const path = join(dir, 'world.json')
+    await writeFile(path, JSON.stringify({ users: { alice: { name: 'Alice' } } }))
+    await expect(loadScenario(path)).resolves.toEqual({ users: { alice: { name: 'Alice' } } })
+  })
+
+  it('uses a custom parser', async () => {
+    const path = join(dir, 'world.yaml')
+    await writeFile(path, 'users:\n  alice: {}\n')
+    const scenario = await loadScenario(path, { parse: () => ({ users: { alice: {} } }) })
+    expect(scenario).toEqual({ users: { alice: {} } })
+  })
+
+  it('reports unparseable files', async () => {
+    const path = join(dir, 'world.json')
+    await writeFile(path, '{ users: ')
+    await expect(loadScenario(path)).rejects.toThrow(`invalid scenario file ${path}`)
+  })
+
+  it('rejects files that are not an object', async () => {
+    const path = join(dir, 'world.json')
+    await writeFile(path, '[]')
+    await expect(loadScenario(path)).rejects.toThrow(/must contain an object/)
+  })
+
+  it('needs a parser for unknown extensions', async () => {
+    const path = join(dir, 'world.txt')
+    await writeFile(path, '{}')
+    await expect(loadScenario(path)).rejects.toThrow(/pass `parse` for \.txt files/)
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createTestMailbox } from '../src/mailbox.js'
+
+describe('createTestMailbox', () => {
+  it('captures verification emails and calls through to the sender', async () => {
+    const mailbox = createTestMailbox()
+    const send = vi.fn()
+    const wrapped = mailbox.verificationEmail(send)
+    const data = { user: { email: 'Alice@Test.local' }, url: 'http://localhost/verify?token=abc', token: 'abc' }
+    const request = new Request('http://localhost')
+
+    await wrapped(data, request)
+
+    expect(send).toHaveBeenCalledWith(data, request)
+    expect(mailbox.messages()).toMatchObject([
+      { id: 1, type: 'verification-email', to: 'alice@test.local', url: data.url, token: 'abc', otp: null },
+    ])
+  })
+
+  it('captures without a sender', async () => {
+    const mailbox = createTestMailbox()
+    await mailbox.magicLink()({ email: 'a@test.local', url: 'http://localhost/magic', token: 't' })
+    await mailbox.emailOTP()({ email: 'a@test.local', otp: '123456', type: 'sign-in' })
+    await mailbox.passwordReset()({ user: { email: 'a@test.local' }, url: 'http://localhost/reset', token: 'r' })
+
+    expect(mailbox.messages().map(m => m.type)).toEqual(['magic-link', 'email-otp', 'password-reset'])
+    expect(mailbox.messages({ type: 'email-otp' })[0]).toMatchObject({ otp: '123456', otpType: 'sign-in' })
+  })
+
+  it('filters by recipient (case-insensitive), type and id', async () => {
+    const mailbox = createTestMailbox()
+    const send = mailbox.magicLink()
+    await send({ email: 'a@test.local', url: 'u1', token: 't1' })
+    await send({ email: 'b@test.local', url: 'u2', token: 't2' })
+    await send({ email: 'a@test.local', url: 'u3', token: 't3' })
+
+    expect(mailbox.messages({ to: 'A@test.local' }).map(m => m.url)).toEqual(['u1', 'u3'])
+    expect(mailbox.messages({ to: 'a@test.local', after: 1 }).map(m => m.url)).toEqual(['u3'])
+    expect(mailbox.messages({ type: 'verification-email' })).toEqual([])
+  })
+
+  it('drops the oldest messages beyond maxMessages', async () => {
+    const mailbox = createTestMailbox({ maxMessages: 2 })
+    const send = mailbox.magicLink()
+    for (const token of ['t1', 't2', 't3'])
+      await send({ email: 'a@test.local', url: 'u', token })
+
+    expect(mailbox.messages().map(m => m.token)).toEqual(['t2', 't3'])
+  })
+
+  it('clears all messages or only those for one recipient', async () => {
+    const mailbox = createTestMailbox()
+    const send = mailbox.magicLink()
+    await send({ email: 'a@test.local', url: 'u1', token: 't1' })
+    await send({ email: 'b@test.local', url: 'u2', token: 't2' })
+
+    expect(mailbox.clear('a@test.local')).toBe(1)
+    expect(mailbox.messages().map(m => m.to)).toEqual(['b@test.local'])
+    expect(mailbox.clear()).toBe(1)
+    expect(mailbox.messages()).toEqual([])
+  })
+})
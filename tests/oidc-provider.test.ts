@@ -0,0 +1,159 @@
+import type { MockOIDCProvider } from '../src/oidc-provider.js'
+import { Buffer } from 'node:buffer'
+import { createHash, webcrypto } from 'node:crypto'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { MOCK_OIDC_SCENARIO_COOKIE, setMockOIDCScenario, startMockOIDCProvider } from '../src/oidc-provider.js'
+
+const redirectUri = 'http://localhost:3000/api/auth/oauth2/callback/mock'
+const basic = `Basic ${Buffer.from('app:secret').toString('base64')}`
+
+function decodeJwt(token: string): { header: any, payload: any } {
+  const [header, payload] = token.split('.').slice(0, 2).map(part => JSON.parse(Buffer.from(part, 'base64url').toString('utf8')))
+  return { header, payload }
+}
+
+describe('startMockOIDCProvider', () => {
+  let provider: MockOIDCProvider
+
+  beforeAll(async () => {
+    provider = await startMockOIDCProvider({ port: 0, clients: [{ clientId: 'app', clientSecret: 'secret' }] })
+  })
+
+  afterAll(async () => {
+    await provider.stop()
+  })
+
+  async function authorize(params: Record<string, string> = {}, scenario?: string): Promise<URL> {
+    const url = new URL(`${provider.issuer}/authorize`)
+    for (const [key, value] of Object.entries({ response_type: 'code', client_id: 'app', redirect_uri: redirectUri, state: 'st', ...params }))
+      url.searchParams.set(key, value)
+    const res = await fetch(url, {
+      redirect: 'manual',
+      headers: scenario ? { cookie: `${MOCK_OIDC_SCENARIO_COOKIE}=${scenario}` } : {},
+    })
+    expect(res.status).toBe(302)
+    return new URL(res.headers.get('location')!)
+  }
+
+  async function token(params: Record<string, string>): Promise<Response> {
+    return fetch(`${provider.issuer}/token`, {
+      method: 'POST',
+      headers: { 'Authorization': basic, 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(params),
+    })
+  }
+
+  async function exchange(code: string, extra: Record<string, string> = {}): Promise<Response> {
+    return token({ grant_type: 'authorization_code', code, redirect_uri: redirectUri, ...extra })
+  }
+
+  it('publishes a discovery document', async () => {
+    const discovery = await (await fetch(provider.discoveryUrl)).json()
+    expect(discovery).toMatchObject({
+      issuer: provider.issuer,
+      authorization_endpoint: `${provider.issuer}/authorize`,
+      token_endpoint: `${provider.issuer}/token`,
+      userinfo_endpoint: `${provider.issuer}/userinfo`,
+      jwks_uri: `${provider.issuer}/jwks`,
+    })
+  })
+
+  it('runs the code flow with PKCE and signs ID tokens', async () => {
+    const verifier = 'a'.repeat(43)
+    const challenge = createHash('sha256').update(verifier).digest('base64url')
+    const callback = await authorize({ code_challenge: challenge, code_challenge_method: 'S256', nonce: 'n1', scope: 'openid email' })
+    expect(callback.searchParams.get('state')).toBe('st')
+    const code = callback.searchParams.get('code')!
+
+    const res = await exchange(code, { code_verifier: verifier })
+    expect(res.status).toBe(200)
+    const tokens = await res.json()
+    expect(tokens).toMatchObject({ token_type: 'Bearer', expires_in: 3600, scope: 'openid email' })
+
+    const { header, payload } = decodeJwt(tokens.id_token)
+    expect(payload).toMatchObject({ iss: provider.issuer, aud: 'app', nonce: 'n1', email: 'mock-user@test.local', sub: 'mock-user@test.local' })
+
+    const { keys } = await (await fetch(`${provider.issuer}/jwks`)).json()
+    const key = await webcrypto.subtle.importKey('jwk', keys.find((k: any) => k.kid === header.kid), { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify'])
+    const [h, p, signature] = tokens.id_token.split('.')
+    expect(await webcrypto.subtle.verify('RSASSA-PKCS1-v1_5', key, Buffer.from(signature, 'base64url'), new TextEncoder().encode(`${h}.${p}`))).toBe(true)
+
+    const userinfo = await fetch(`${provider.issuer}/userinfo`, { headers: { Authorization: `Bearer ${tokens.access_token}` } })
+    expect(await userinfo.json()).toMatchObject({ sub: 'mock-user@test.local', email_verified: true, name: 'Mock User' })
+
+    const refreshed = await token({ grant_type: 'refresh_token', refresh_token: tokens.refresh_token })
+    expect((await refreshed.json()).access_token).not.toBe(tokens.access_token)
+  })
+
+  it('rejects reused codes, wrong verifiers and unknown clients', async () => {
+    const code = (await authorize()).searchParams.get('code')!
+    expect((await exchange(code)).status).toBe(200)
+    expect(await (await exchange(code)).json()).toMatchObject({ error: 'invalid_grant' })
+
+    const pkce = (await authorize({ code_challenge: 'x', code_challenge_method: 'plain' })).searchParams.get('code')!
+    expect(await (await exchange(pkce, { code_verifier: 'y' })).json()).toMatchObject({ error: 'invalid_grant' })
+
+    const res = await fetch(`${provider.issuer}/authorize?response_type=code&client_id=other&redirect_uri=${encodeURIComponent(redirectUri)}`, { redirect: 'manual' })
+    expect(res.status).toBe(400)
+  })
+
+  it('signs in the scenario\'s identity', async () => {
+    await setMockOIDCScenario(provider.issuer, 's1', {
+      identity: { email: 'alice@test.local', sub: 'alice', name: 'Alice', claims: { groups: ['admins'] } },
+      omitIdToken: true,
+    })
+    const tokens = await (await exchange((await authorize({}, 's1')).searchParams.get('code')!)).json()
+    expect(tokens.id_token).toBeUndefined()
+
+    const userinfo = await fetch(`${provider.issuer}/userinfo`, { headers: { Authorization: `Bearer ${tokens.access_token}` } })
+    expect(await userinfo.json()).toEqual({ sub: 'alice', email: 'alice@test.local', email_verified: true, name: 'Alice', groups: ['admins'] })
+  })
+
+  it('denies consent and fails endpoints per scenario', async () => {
+    await setMockOIDCScenario(provider.issuer, 's2', { denyConsent: true })
+    const denied = await authorize({}, 's2')
+    expect(denied.searchParams.get('error')).toBe('access_denied')
+    expect(denied.searchParams.get('state')).toBe('st')
+    expect(denied.searchParams.has('code')).toBe(false)
+
+    await setMockOIDCScenario(provider.issuer, 's2', { errors: { token: { error: 'server_error', status: 503 } } })
+    const res = await exchange((await authorize({}, 's2')).searchParams.get('code')!)
+    expect(res.status).toBe(503)
+    expect(await res.json()).toMatchObject({ error: 'server_error' })
+
+    await setMockOIDCScenario(provider.issuer, 's2', { errors: { authorize: { error: 'temporarily_unavailable', description: 'down' } } })
+    const failed = await authorize({}, 's2')
+    expect(failed.searchParams.get('error_description')).toBe('down')
+
+    await setMockOIDCScenario(provider.issuer, 's2', null)
+    expect((await authorize({}, 's2')).searchParams.has('code')).toBe(true)
+  })
+})
+
+describe('mock OIDC scenario control', () => {
+  let provider: MockOIDCProvider
+
+  beforeAll(async () => {
+    provider = await startMockOIDCProvider({ port: 0, controlSecret: 'control-secret' })
+  })
+
+  afterAll(async () => {
+    await provider.stop()
+  })
+
+  it('requires the control secret when one is set', async () => {
+    const url = `${provider.issuer}/__control/scenarios/s1`
+    expect((await fetch(url, { method: 'PUT', body: '{}' })).status).toBe(401)
+    expect((await fetch(url, { method: 'DELETE', headers: { 'x-mock-oidc-secret': 'wrong' } })).status).toBe(401)
+
+    await expect(setMockOIDCScenario(provider.issuer, 's1', { denyConsent: true }))
+      .rejects
+      .toThrow(/rejected the scenario \(401\)/)
+    await setMockOIDCScenario(provider.issuer, 's1', { denyConsent: true }, { controlSecret: 'control-secret' })
+    await setMockOIDCScenario(provider.issuer, 's1', null, { controlSecret: 'control-secret' })
+  })
+
+  it('refuses to listen beyond loopback without a control secret', async () => {
+    await expect(startMockOIDCProvider({ port: 0, host: '0.0.0.0' })).rejects.toThrow(/needs a controlSecret to listen on 0\.0\.0\.0/)
+  })
+})
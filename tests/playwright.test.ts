@@ -0,0 +1,310 @@
+import type { TestCookie } from '../src/client.js'
+import type { TestAuth } from '../src/playwright.js'
+import { Buffer } from 'node:buffer'
+import { multiSession, organization } from 'better-auth/plugins'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { MOCK_OIDC_SCENARIO_COOKIE, startMockOIDCProvider } from '../src/oidc-provider.js'
+import { createTestFixtures } from '../src/playwright.js'
+import { BASE_URL, createTestAuth, SECRET } from './auth.js'
+
+type Handler = (request: Request) => Promise<Response>
+
+// Just enough of Playwright's APIRequestContext and BrowserContext to
+// run the fixtures against a Better Auth handler
+function fakeRequestContext(handler: Handler, options: Record<string, any> = {}) {
+  return {
+    options,
+    disposed: false,
+    async fetch(url: string, init: { method: string, headers: Record<string, string>, data?: string }) {
+      const res = await handler(new Request(url, { method: init.method, headers: init.headers, body: init.data }))
+      const body = Buffer.from(await res.arrayBuffer())
+      return {
+        status: () => res.status,
+        statusText: () => res.statusText,
+        headersArray: () => [...res.headers].map(([name, value]) => ({ name, value })),
+        body: async () => body,
+      }
+    },
+    async dispose() {
+      this.disposed = true
+    },
+  }
+}
+
+function fakeBrowserContext(options: Record<string, any> = {}) {
+  return {
+    options,
+    jar: [] as TestCookie[],
+    closed: false,
+    async cookies() {
+      return this.jar
+    },
+    async addCookies(cookies: TestCookie[]) {
+      // A cookie replaces the one of the same name, as in a browser
+      this.jar = [...this.jar.filter(cookie => !cookies.some(c => c.name === cookie.name)), ...cookies]
+    },
+    async clearCookies({ name }: { name: string }) {
+      this.jar = this.jar.filter(cookie => cookie.name !== name)
+    },
+    async newPage() {
+      return { context: () => this }
+    },
+    async close() {
+      this.closed = true
+    },
+  }
+}
+
+type FakeRequestContext = ReturnType<typeof fakeRequestContext>
+type FakeBrowserContext = ReturnType<typeof fakeBrowserContext>
+
+async function runAuthFixture(
+  handler: Handler,
+  body: (auth: TestAuth, fakes: {
+    page: { context: () => FakeBrowserContext }
+    contexts: FakeBrowserContext[]
+    requests: FakeRequestContext[]
+  }) => Promise<void>,
+  config: Partial<Parameters<typeof createTestFixtures>[0]> = {},
+): Promise<void> {
+  const fixtures = createTestFixtures({
+    secret: SECRET,
+    checkServerVersion: false,
+    ...config,
+    test: { extend: (definitions: unknown) => definitions } as any,
+  }) as any
+
+  const pageContext = fakeBrowserContext()
+  const page = { context: () => pageContext }
+  const contexts: FakeBrowserContext[] = []
+  const requests: FakeRequestContext[] = []
+  const browser = {
+    async newContext(options: Record<string, any>) {
+      const context = fakeBrowserContext(options)
+      contexts.push(context)
+      return context
+    },
+  }
+  const playwright = {
+    request: {
+      async newContext(options?: Record<string, any>) {
+        const request = fakeRequestContext(handler, options)
+        requests.push(request)
+        return request
+      },
+    },
+  }
+
+  await fixtures.auth(
+    { page, browser, playwright, baseURL: BASE_URL, extraHTTPHeaders: undefined },
+    async (auth: TestAuth) => body(auth, { page, contexts, requests }),
+    { workerIndex: 0, file: import.meta.filename },
+  )
+}
+
+describe('auth fixture', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('signs users into the page\'s context or the one given', async () => {
+    const { auth: betterAuth, getSession } = await createTestAuth()
+    await runAuthFixture(betterAuth.handler, async (auth, { page }) => {
+      const other = fakeBrowserContext()
+      const alice = await auth.createUser()
+      const bob = await auth.createUser({ context: other as any })
+
+      expect((await getSession(page.context().jar))?.user.id).toBe(alice.id)
+      expect((await getSession(other.jar))?.user.id).toBe(bob.id)
+    })
+  })
+
+  it('creates users in contexts of their own and closes them after the test', async () => {
+    const { auth: betterAuth, db, getSession } = await createTestAuth()
+    let opened: FakeBrowserContext[] = []
+    await runAuthFixture(betterAuth.handler, async (auth, { contexts }) => {
+      const alice = await auth.createUserContext()
+      const bob = await auth.createUserContext({ contextOptions: { locale: 'de-DE' } })
+      opened = contexts
+
+      expect(contexts).toHaveLength(2)
+      expect(contexts[1]!.options).toEqual({ baseURL: BASE_URL, locale: 'de-DE' })
+      expect((await getSession(contexts[0]!.jar))?.user.id).toBe(alice.user.id)
+      expect((await getSession(contexts[1]!.jar))?.user.id).toBe(bob.user.id)
+    })
+
+    expect(opened.every(context => context.closed)).toBe(true)
+    expect(db.user).toEqual([])
+  })
+
+  it('signs an existing user into another context', async () => {
+    const { auth: betterAuth, getSession } = await createTestAuth()
+    await runAuthFixture(betterAuth.handler, async (auth) => {
+      const other = fakeBrowserContext()
+      const alice = await auth.createUser()
+      await auth.signInAs(alice, other as any)
+
+      expect((await getSession(other.jar))?.user.id).toBe(alice.id)
+      await expect(auth.signInAs({ ...alice, id: 'unknown' }, other as any)).rejects.toThrow(/signInAs: no session known/)
+    })
+  })
+})
+
+describe('auth.setActiveSession', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('switches the context\'s active account and keeps both signed in', async () => {
+    const { auth: betterAuth, getSession } = await createTestAuth({ plugins: [multiSession()] })
+    await runAuthFixture(betterAuth.handler, async (auth, { page }) => {
+      const cookies = (): TestCookie[] => page.context().jar
+      const work = await auth.createUser()
+      const personal = await auth.createUser({ multiSession: true })
+      expect((await getSession(cookies()))?.user.id).toBe(work.id)
+
+      await auth.setActiveSession(personal)
+      expect((await getSession(cookies()))?.user.id).toBe(personal.id)
+
+      await auth.setActiveSession(work)
+      expect((await getSession(cookies()))?.user.id).toBe(work.id)
+      expect(cookies().filter(cookie => cookie.name.includes('_multi-'))).toHaveLength(2)
+    })
+  })
+
+  it('keeps the active account when another account\'s session is updated', async () => {
+    const { auth: betterAuth, getSession } = await createTestAuth({ plugins: [multiSession(), organization()] })
+    await runAuthFixture(betterAuth.handler, async (auth, { page }) => {
+      const cookies = (): TestCookie[] => page.context().jar
+      const work = await auth.createUser()
+      const personal = await auth.createUser({ multiSession: true })
+
+      const session = await auth.updateSession(personal, { activeOrganizationId: 'org-1' })
+      expect(session.activeOrganizationId).toBe('org-1')
+      expect((await getSession(cookies()))?.user.id).toBe(work.id)
+      expect(cookies().filter(cookie => cookie.name.includes('_multi-'))).toHaveLength(2)
+
+      await auth.setActiveSession(personal)
+      expect((await getSession(cookies()))?.session.activeOrganizationId).toBe('org-1')
+    })
+  })
+})
+
+describe('session methods', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('change the session in the context the user was signed into', async () => {
+    const { auth: betterAuth, getSession } = await createTestAuth()
+    await runAuthFixture(betterAuth.handler, async (auth, { page }) => {
+      const alice = await auth.createUser()
+      const bob = await auth.createUserContext()
+      const expiresAt = new Date(Date.now() + 3600_000)
+
+      await auth.setSessionExpiry(bob.user, expiresAt)
+      expect((await getSession(page.context().jar))?.user.id).toBe(alice.id)
+      const tokenCookie = (bob.context as any).jar.find((cookie: TestCookie) => cookie.name === 'better-auth.session_token')
+      expect(tokenCookie.expires).toBeCloseTo(expiresAt.valueOf() / 1000, -1)
+
+      await auth.revokeSession(bob.user)
+      expect((await getSession(page.context().jar))?.user.id).toBe(alice.id)
+      expect(await getSession((bob.context as any).jar)).toBeNull()
+    })
+  })
+
+  it('follow signInAs to another context', async () => {
+    const { auth: betterAuth } = await createTestAuth()
+    await runAuthFixture(betterAuth.handler, async (auth, { page }) => {
+      const other = fakeBrowserContext()
+      const alice = await auth.createUser()
+      await auth.signInAs(alice, other as any)
+      const tokenCookie = (jar: TestCookie[]): TestCookie => jar.find(cookie => cookie.name === 'better-auth.session_token')!
+      const pageCookie = tokenCookie(page.context().jar)
+      const expiresAt = new Date(Date.now() + 3600_000)
+
+      await auth.setSessionExpiry(alice, expiresAt)
+
+      expect(tokenCookie(other.jar).expires).toBeCloseTo(expiresAt.valueOf() / 1000, -1)
+      expect(tokenCookie(page.context().jar)).toBe(pageCookie)
+    })
+  })
+
+  it('revoke a secondary multi-session account without signing out the active one', async () => {
+    const { auth: betterAuth, getSession } = await createTestAuth({ plugins: [multiSession()] })
+    await runAuthFixture(betterAuth.handler, async (auth, { page }) => {
+      const work = await auth.createUser()
+      const personal = await auth.createUser({ multiSession: true })
+
+      await auth.revokeSession(personal)
+
+      expect((await getSession(page.context().jar))?.user.id).toBe(work.id)
+      expect(page.context().jar.filter(cookie => cookie.name.includes('_multi-'))).toHaveLength(1)
+    })
+  })
+})
+
+describe('auth.createUsers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('deletes the whole batch after the test', async () => {
+    const { auth: betterAuth, db } = await createTestAuth()
+    await runAuthFixture(betterAuth.handler, async (auth) => {
+      await auth.createUsers(3, { session: false })
+      expect(db.user).toHaveLength(3)
+    })
+    expect(db.user).toEqual([])
+  })
+})
+
+describe('auth.oidc', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('controls a provider that has a control secret', async () => {
+    const provider = await startMockOIDCProvider({ port: 0, controlSecret: 'control-secret' })
+    const { auth: betterAuth } = await createTestAuth()
+    // The test data client goes through the fake request context, so
+    // global fetch can reach the provider
+    vi.unstubAllGlobals()
+    try {
+      await runAuthFixture(betterAuth.handler, async (auth, { page }) => {
+        await auth.oidc.setIdentity({ email: 'oidc@test.local' })
+        expect(page.context().jar.map(cookie => cookie.name)).toEqual([MOCK_OIDC_SCENARIO_COOKIE])
+      }, { oidc: { issuer: provider.issuer, controlSecret: 'control-secret' } })
+    }
+    finally {
+      await provider.stop()
+    }
+  })
+})
+
+describe('request contexts', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('keep the project\'s storageState out of test data requests', async () => {
+    const { auth: betterAuth } = await createTestAuth()
+    await runAuthFixture(betterAuth.handler, async (auth, { requests }) => {
+      await auth.createUser()
+      expect(requests[0]!.options).toEqual({ storageState: { cookies: [], origins: [] } })
+    })
+  })
+
+  it('authenticate bearer requests with the token alone', async () => {
+    const { auth: betterAuth } = await createTestAuth()
+    await runAuthFixture(betterAuth.handler, async (auth, { requests }) => {
+      const user = await auth.createUser({ requestAuth: 'bearer' })
+      expect(requests.at(-1)!.options).toEqual({
+        baseURL: BASE_URL,
+        extraHTTPHeaders: { Authorization: expect.stringMatching(/^Bearer .+/) },
+        storageState: { cookies: [], origins: [] },
+      })
+      expect(requests.at(-1)).toBe(user.request)
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import type { TestDataPlugin } from '../src/types.js'
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod/v4'
+import { parsePluginData, pluginOptionsJsonSchema } from '../src/plugin-data.js'
+import { adminTest, apiKeyTest, organizationTest, twoFactorTest } from '../src/plugins/index.js'
+
+const untyped: TestDataPlugin<'untyped'> = { id: 'untyped', onCreateUser: async () => null }
+const plugins = [organizationTest(), adminTest(), untyped]
+
+describe('parsePluginData', () => {
+  it('passes valid options through, leaving out plugins without options', () => {
+    expect(parsePluginData(plugins, { organization: { role: 'admin' }, untyped: { anything: 1 } }))
+      .toEqual({ organization: { role: 'admin' }, untyped: { anything: 1 } })
+  })
+
+  it('rejects unknown plugin IDs and lists the installed ones', () => {
+    expect(() => parsePluginData(plugins, { organisation: {} }))
+      .toThrow('unknown plugin ID(s) "organisation" in pluginData; installed test data plugins: organization, admin, untyped')
+    expect(() => parsePluginData([], { admin: {} })).toThrow(/installed test data plugins: \(none\)/)
+  })
+
+  it('names the invalid field', () => {
+    expect(() => parsePluginData(plugins, { organization: { role: 'owner', skip: 'yes' } }))
+      .toThrow(/^pluginData\.organization\.skip: /)
+    expect(() => parsePluginData(plugins, { admin: { role: ['admin', 1] } }))
+      .toThrow(/^pluginData\.admin\.role: /)
+    expect(() => parsePluginData(plugins, { admin: { banExpires: 'soon' } }))
+      .toThrow('pluginData.admin.banExpires: Must be a date or an ISO date string')
+  })
+
+  it('rejects unknown option keys', () => {
+    expect(() => parsePluginData(plugins, { organization: { rol: 'admin' } }))
+      .toThrow(/^pluginData\.organization: .*"rol"/)
+  })
+
+  it('applies schema defaults and transforms', () => {
+    const custom: TestDataPlugin<'custom', { count: number }> = {
+      id: 'custom',
+      optionsSchema: z.object({ count: z.coerce.number().default(1) }),
+      onCreateUser: async () => null,
+    }
+    expect(parsePluginData([custom], { custom: {} })).toEqual({ custom: { count: 1 } })
+    expect(parsePluginData([custom], { custom: { count: '3' } })).toEqual({ custom: { count: 3 } })
+  })
+})
+
+describe('pluginOptionsJsonSchema', () => {
+  it('describes the options as the client sends them', () => {
+    const schema = pluginOptionsJsonSchema(organizationTest())
+    expect(schema).toMatchObject({
+      type: 'object',
+      additionalProperties: false,
+      properties: { slug: { type: 'string', minLength: 1 }, skip: { type: 'boolean' } },
+    })
+  })
+
+  it('publishes a schema for every built-in plugin', () => {
+    for (const plugin of [organizationTest(), adminTest(), apiKeyTest(), twoFactorTest()])
+      expect(pluginOptionsJsonSchema(plugin)).toHaveProperty('type', 'object')
+  })
+
+  it('is null without a schema', () => {
+    expect(pluginOptionsJsonSchema(untyped)).toBeNull()
+  })
+})
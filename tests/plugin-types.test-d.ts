@@ -0,0 +1,120 @@
+import type { TestType } from '@playwright/test'
+import type { BatchTestUser, CreateUserOptions, ScenarioTestUser, SeededScenario, TestUser } from '../src/client.js'
+import type { TestApiAuth, TestAuth, TestWithAuth, UserRequestContext, WorkerAuth } from '../src/playwright.js'
+import type { AdminTestResult, OrgTestOrganization, OrgTestResult, PasskeyTestResult, TwoFactorTestResult } from '../src/server.js'
+import type { InferPluginData, InferPluginResults, InferTestDataPlugins, Serialized, TestDataPlugin } from '../src/types.js'
+import type { VirtualPasskey } from '../src/webauthn.js'
+import { test as defaultTest } from '@playwright/test'
+import { describe, expectTypeOf, it } from 'vitest'
+import { createTestFixtures } from '../src/playwright.js'
+import { adminTest, organizationTest, twoFactorTest } from '../src/server.js'
+
+type Plugins = (
+  | ReturnType<typeof organizationTest>
+  | ReturnType<typeof adminTest>
+  | ReturnType<typeof twoFactorTest>
+)[]
+
+type Fixtures<T> = T extends TestType<infer TArgs, infer TWorkerArgs> ? TArgs & TWorkerArgs : never
+
+describe('plugin types', () => {
+  it('types pluginData by plugin ID', () => {
+    expectTypeOf<InferPluginData<Plugins>>().toHaveProperty('organization')
+    expectTypeOf<InferPluginData<Plugins>['admin']>().toEqualTypeOf<
+      Parameters<ReturnType<typeof adminTest>['onCreateUser']>[1] | undefined
+    >()
+    expectTypeOf<CreateUserOptions<Plugins>['pluginData']>().toEqualTypeOf<InferPluginData<Plugins> | undefined>()
+    expectTypeOf<NonNullable<InferPluginData<Plugins>['organization']>['skip']>().toEqualTypeOf<boolean | undefined>()
+
+    expectTypeOf({ pluginData: { billing: {} } }).not.toExtend<CreateUserOptions<Plugins>>()
+    expectTypeOf({ pluginData: { admin: { role: 'admin' } } }).toExtend<CreateUserOptions<Plugins>>()
+    expectTypeOf({ pluginData: { admin: { role: 1 } } }).not.toExtend<CreateUserOptions<Plugins>>()
+  })
+
+  it('types plugin results as serialized JSON', () => {
+    type Results = InferPluginResults<Plugins>
+    expectTypeOf<NonNullable<Results['organization']>['invitations'][number]['expiresAt']>().toEqualTypeOf<string>()
+    expectTypeOf<Results['organization']>().toEqualTypeOf<Serialized<OrgTestResult> | null>()
+    expectTypeOf<NonNullable<Results['admin']>['banExpires']>().toEqualTypeOf<string | null>()
+    expectTypeOf<NonNullable<Results['admin']>['role']>().toEqualTypeOf<AdminTestResult['role']>()
+    expectTypeOf<NonNullable<Results['two-factor']>['secret']>().toEqualTypeOf<TwoFactorTestResult['secret']>()
+    expectTypeOf<TestUser<Plugins>['plugins']>().toEqualTypeOf<Results>()
+  })
+
+  it('keeps untyped defaults without a plugin list', () => {
+    expectTypeOf<TestUser['plugins']>().toEqualTypeOf<{ [x: string]: unknown }>()
+    expectTypeOf<CreateUserOptions['pluginData']>().toEqualTypeOf<{ [x: string]: unknown } | undefined>()
+  })
+
+  it('reads the plugin list from a plugin array or testPlugin() options', () => {
+    const plugins = [organizationTest(), adminTest(), twoFactorTest()]
+    expectTypeOf<InferTestDataPlugins<typeof plugins>>().toEqualTypeOf<Plugins>()
+    expectTypeOf({ secret: 'shh', plugins }).toExtend<{ plugins?: Plugins }>()
+    expectTypeOf<InferTestDataPlugins<{ secret: string, plugins: Plugins }>>().toEqualTypeOf<Plugins>()
+  })
+
+  it('types the fixtures', () => {
+    const test = createTestFixtures<Plugins>({ secret: 'shh' })
+    expectTypeOf(test).toEqualTypeOf<TestWithAuth<typeof defaultTest, Plugins>>()
+
+    type Auth = Fixtures<typeof test>['auth']
+    expectTypeOf<Auth>().toEqualTypeOf<TestAuth<Plugins>>()
+    expectTypeOf<Awaited<ReturnType<Auth['createUser']>>>().toEqualTypeOf<TestUser<Plugins> & UserRequestContext>()
+    expectTypeOf<Awaited<ReturnType<Auth['createUsers']>>>().toEqualTypeOf<BatchTestUser<Plugins>[]>()
+    expectTypeOf<Awaited<ReturnType<Auth['createOAuthUser']>>['plugins']>().toEqualTypeOf<InferPluginResults<Plugins>>()
+    expectTypeOf<Fixtures<typeof test>['workerAuth']>().toEqualTypeOf<WorkerAuth<Plugins>>()
+    expectTypeOf<Fixtures<typeof test>['apiAuth']>().toEqualTypeOf<TestApiAuth<Plugins>>()
+    expectTypeOf<Auth>().toExtend<TestApiAuth<Plugins>>()
+
+    // Typed users are still accepted where any user is
+    expectTypeOf<TestUser<Plugins>>().toExtend<Parameters<Auth['signInAs']>[0]>()
+    expectTypeOf<TestUser<Plugins>>().toExtend<Parameters<Auth['expireSession']>[0]>()
+    expectTypeOf<TestUser<Plugins>>().toExtend<Parameters<Auth['requestAs']>[0]>()
+    expectTypeOf<NonNullable<TestUser<Plugins>['plugins']['organization']>['organizations'][number]>()
+      .toExtend<Parameters<Auth['switchOrganization']>[1]>()
+    expectTypeOf<Serialized<PasskeyTestResult>>().toExtend<VirtualPasskey>()
+    expectTypeOf<TestApiAuth<Plugins>>().not.toHaveProperty('createVirtualAuthenticator')
+    expectTypeOf<TestApiAuth<Plugins>>().not.toHaveProperty('setActiveSession')
+    expectTypeOf({ multiSession: true }).toExtend<Parameters<Auth['createUser']>[0]>()
+  })
+
+  it('types seeded scenarios by alias', () => {
+    const seed = (() => {}) as unknown as TestAuth<Plugins>['seed']
+    const world = seed({
+      users: { alice: {}, bob: { pluginData: { admin: { role: 'admin' } } } },
+      organizations: { acme: { owner: 'alice', members: [{ user: 'bob' }] } },
+    })
+
+    expectTypeOf(world).resolves.toEqualTypeOf<
+      SeededScenario<ScenarioTestUser<Plugins> & UserRequestContext, 'alice' | 'bob', 'acme'>
+    >()
+    type World = Awaited<typeof world>
+    expectTypeOf<World['users']['alice']>().toEqualTypeOf<ScenarioTestUser<Plugins> & UserRequestContext>()
+    expectTypeOf<World['organizations']['acme']>().toEqualTypeOf<Serialized<OrgTestOrganization>>()
+    expectTypeOf<World['users']['bob']>().toExtend<Parameters<TestAuth<Plugins>['signInAs']>[0]>()
+
+    // @ts-expect-error organizations refer to declared users only
+    void seed({ users: { alice: {} }, organizations: { acme: { owner: 'mallory' } } })
+    // @ts-expect-error pluginData is typed per plugin
+    void seed({ users: { alice: { pluginData: { admin: { role: 1 } } } } })
+  })
+
+  it('keeps a custom base test\'s fixtures', () => {
+    const base = defaultTest.extend<{ locale: string }>({ locale: 'en' })
+    const test = createTestFixtures({ secret: 'shh', test: base })
+    expectTypeOf(test).toEqualTypeOf<TestWithAuth<typeof base, TestDataPlugin<string, unknown, unknown>[]>>()
+    expectTypeOf<Fixtures<typeof test>['locale']>().toEqualTypeOf<string>()
+  })
+
+  it('types custom plugins', () => {
+    type Custom = TestDataPlugin<'custom', { count: number }, { total: number, at: Date }>
+    const test = createTestFixtures<{ plugins: [Custom] }>({ secret: 'shh' })
+    expectTypeOf(test).toEqualTypeOf<TestWithAuth<typeof defaultTest, [Custom]>>()
+
+    type Auth = Fixtures<typeof test>['auth']
+    expectTypeOf<Awaited<ReturnType<Auth['createUser']>>['plugins']>()
+      .toEqualTypeOf<{ custom: { total: number, at: string } }>()
+    expectTypeOf<Parameters<Auth['createUser']>[0]>()
+      .toExtend<{ pluginData?: { custom?: { count: number } } } | undefined>()
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import { adminTest } from '../../src/plugins/admin.js'
+
+function mockCreateUserContext(pluginOptions: Record<string, unknown> = {}) {
+  const updates: any[] = []
+  const createdSessions: any[] = []
+  const deletedSessionsFor: string[] = []
+  const cookies: Record<string, string> = {}
+  const ctx = {
+    authContext: {
+      secret: 'secret',
+      getPlugin: (id: string) => (id === 'admin' ? { id, options: pluginOptions } : null),
+      internalAdapter: {
+        updateUser: async (id: string, data: any) => {
+          updates.push(data)
+          return { id, ...data }
+        },
+        deleteSessions: async (userId: string) => {
+          deletedSessionsFor.push(userId)
+        },
+        findUserById: async (id: string) => (id === 'admin-1' ? { id } : null),
+        listSessions: async () => [
+          { id: 'admin-session', token: 'admin-token', expiresAt: new Date(Date.now() + 60_000) },
+        ],
+        createSession: async (userId: string, _dontRememberMe: boolean, override: any) => {
+          const session = { id: `session-${userId}`, token: `token-${userId}`, userId, ...override }
+          createdSessions.push(session)
+          return session
+        },
+      },
+      createAuthCookie: (name: string) => ({ name: `better-auth.${name}`, attributes: {} }),
+      authCookies: { sessionToken: { attributes: {} } },
+    },
+    endpoint: {
+      setSignedCookie: async (name: string, value: string) => {
+        cookies[name] = value
+      },
+    },
+    sessionCookie: { token: 'token-1' as string | null },
+    user: { id: 'user-1', email: 'test@test.local', name: 'Test' },
+    session: { id: 'session-1', token: 'token-1' },
+    request: new Request('http://localhost'),
+  } as any
+  return { ctx, updates, createdSessions, deletedSessionsFor, cookies }
+}
+
+describe('adminTest', () => {
+  it('returns a plugin with id "admin"', () => {
+    const plugin = adminTest()
+    expect(plugin.id).toBe('admin')
+  })
+
+  it('returns null when skip: true', async () => {
+    const plugin = adminTest()
+    const result = await plugin.onCreateUser({} as any, { skip: true })
+    expect(result).toBeNull()
+  })
+
+  it('throws when the admin plugin is not installed', async () => {
+    const plugin = adminTest()
+    const { ctx } = mockCreateUserContext()
+    ctx.authContext.getPlugin = () => null
+    await expect(plugin.onCreateUser(ctx, {})).rejects.toThrow(/"admin" plugin/)
+  })
+
+  it('joins multiple roles with commas', async () => {
+    const plugin = adminTest()
+    const { ctx, updates } = mockCreateUserContext()
+    const result = await plugin.onCreateUser(ctx, { role: ['admin', 'support'] })
+    expect(updates[0]).toEqual({ role: 'admin,support' })
+    expect(result!.role).toBe('admin,support')
+  })
+
+  it('rejects roles missing from custom access control', async () => {
+    const plugin = adminTest()
+    const { ctx } = mockCreateUserContext({ roles: { admin: {}, user: {} } })
+    await expect(plugin.onCreateUser(ctx, { role: 'owner' })).rejects.toThrow(/"owner"/)
+  })
+
+  it('bans the user and withholds the session cookie', async () => {
+    const plugin = adminTest()
+    const { ctx, updates, deletedSessionsFor } = mockCreateUserContext()
+    const result = await plugin.onCreateUser(ctx, {
+      banned: true,
+      banReason: 'spam',
+      banExpires: '2030-01-01T00:00:00.000Z',
+    })
+    expect(updates[0]).toMatchObject({ banned: true, banReason: 'spam' })
+    expect(updates[0].banExpires).toEqual(new Date('2030-01-01T00:00:00.000Z'))
+    expect(deletedSessionsFor).toEqual(['user-1'])
+    expect(ctx.sessionCookie.token).toBeNull()
+    expect(result!.banned).toBe(true)
+  })
+
+  it('starts an impersonation session for impersonatedBy', async () => {
+    const plugin = adminTest()
+    const { ctx, createdSessions, cookies } = mockCreateUserContext()
+    const result = await plugin.onCreateUser(ctx, { impersonatedBy: 'admin-1' })
+    expect(createdSessions[0]).toMatchObject({ userId: 'user-1', impersonatedBy: 'admin-1' })
+    expect(ctx.sessionCookie.token).toBe('token-user-1')
+    expect(cookies['better-auth.admin_session']).toBe('admin-token:')
+    expect(result!.impersonation).toMatchObject({ impersonatedBy: 'admin-1', sessionToken: 'token-user-1' })
+  })
+
+  it('throws when the impersonating admin does not exist', async () => {
+    const plugin = adminTest()
+    const { ctx } = mockCreateUserContext()
+    await expect(plugin.onCreateUser(ctx, { impersonatedBy: 'missing' })).rejects.toThrow(/not found/)
+  })
+})
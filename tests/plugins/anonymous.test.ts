@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { anonymousTest } from '../../src/plugins/anonymous.js'
+
+function mockCreateUserContext(pluginOptions: Record<string, unknown> | null = {}) {
+  const updates: any[] = []
+  const ctx = {
+    authContext: {
+      getPlugin: (id: string) => (pluginOptions && id === 'anonymous' ? { id, options: pluginOptions } : null),
+      internalAdapter: {
+        updateUser: async (id: string, data: any) => {
+          updates.push(data)
+          return { id, ...data }
+        },
+      },
+    },
+    user: { id: 'user-1', email: 'test@test.local', name: 'Anonymous' },
+    session: { id: 'session-1', token: 'token-1' },
+  } as any
+  return { ctx, updates }
+}
+
+describe('anonymousTest', () => {
+  it('returns a plugin with id "anonymous"', () => {
+    expect(anonymousTest().id).toBe('anonymous')
+  })
+
+  it('leaves users alone unless isAnonymous is set', async () => {
+    const { ctx, updates } = mockCreateUserContext()
+    expect(await anonymousTest().onCreateUser(ctx, {})).toBeNull()
+    expect(updates).toEqual([])
+  })
+
+  it('throws when the anonymous plugin is not installed', async () => {
+    const { ctx } = mockCreateUserContext(null)
+    await expect(anonymousTest().onCreateUser(ctx, { isAnonymous: true })).rejects.toThrow(/"anonymous" plugin/)
+  })
+
+  it('marks the user anonymous with a placeholder email', async () => {
+    const { ctx, updates } = mockCreateUserContext()
+    const result = await anonymousTest().onCreateUser(ctx, { isAnonymous: true })
+    expect(result!.email).toMatch(/^temp@\w+\.com$/)
+    expect(updates).toEqual([{ email: result!.email, emailVerified: false, isAnonymous: true }])
+  })
+
+  it('uses the plugin\'s email settings', async () => {
+    const { ctx } = mockCreateUserContext({ emailDomainName: 'guest.test' })
+    expect((await anonymousTest().onCreateUser(ctx, { isAnonymous: true }))!.email).toMatch(/^temp-\w+@guest\.test$/)
+
+    const custom = mockCreateUserContext({ generateRandomEmail: () => 'guest-1@custom.test' })
+    expect((await anonymousTest({ isAnonymous: true }).onCreateUser(custom.ctx, {}))!.email).toBe('guest-1@custom.test')
+  })
+})
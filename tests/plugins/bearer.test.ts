@@ -0,0 +1,101 @@
+import { bearer, twoFactor } from 'better-auth/plugins'
+import { describe, expect, it } from 'vitest'
+import { bearerTest } from '../../src/plugins/bearer.js'
+import { twoFactorTest } from '../../src/plugins/two-factor.js'
+import { createTestAuth } from '../auth.js'
+
+const SECRET = 'better-auth-secret-for-tests-0123456789'
+
+function mockCreateUserContext(installed = true, sessions = ['token-1']) {
+  return {
+    authContext: {
+      secret: SECRET,
+      getPlugin: (id: string) => (installed && id === 'bearer' ? { id } : null),
+      internalAdapter: {
+        findSession: async (token: string) => (sessions.includes(token) ? { session: { token } } : null),
+      },
+    },
+    user: { id: 'user-1', email: 'test@test.local', name: 'Test' },
+    session: { id: 'session-1', token: 'token-1' },
+    sessionCookie: { token: 'token-1' },
+  } as any
+}
+
+describe('bearerTest', () => {
+  it('returns a plugin with id "bearer"', () => {
+    expect(bearerTest().id).toBe('bearer')
+  })
+
+  it('returns null when skip: true', async () => {
+    expect(await bearerTest().onCreateUser({} as any, { skip: true })).toBeNull()
+  })
+
+  it('throws when the bearer plugin is not installed', async () => {
+    await expect(bearerTest().onCreateUser(mockCreateUserContext(false), {}))
+      .rejects
+      .toThrow(/"bearer" plugin/)
+  })
+
+  it('signs the session token like the session cookie', async () => {
+    const result = await bearerTest().onCreateUser(mockCreateUserContext(), {})
+    const [token, signature] = decodeURIComponent(result!.token).split('.')
+    expect(token).toBe('token-1')
+
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(SECRET),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify'],
+    )
+    const bytes = Uint8Array.from(atob(signature!), c => c.charCodeAt(0))
+    expect(await crypto.subtle.verify('HMAC', key, bytes, new TextEncoder().encode('token-1'))).toBe(true)
+    expect(result!.headers).toEqual({ Authorization: `Bearer ${result!.token}` })
+  })
+
+  it('signs the session the user ends up with after every plugin has run', async () => {
+    const plugin = bearerTest()
+    const ctx = mockCreateUserContext(true, ['token-1', 'token-2'])
+    const result = await plugin.onCreateUser(ctx, {})
+    ctx.sessionCookie.token = 'token-2'
+    const final = await plugin.afterCreateUser!(ctx, result)
+    expect(decodeURIComponent(final!.token).split('.')[0]).toBe('token-2')
+  })
+
+  it('returns null when no session is left', async () => {
+    const plugin = bearerTest()
+    const ctx = mockCreateUserContext()
+    const result = await plugin.onCreateUser(ctx, {})
+    ctx.sessionCookie.token = null
+    expect(await plugin.afterCreateUser!(ctx, result)).toBeNull()
+  })
+
+  it('returns null when the session was deleted', async () => {
+    const plugin = bearerTest()
+    const ctx = mockCreateUserContext(true, [])
+    const result = await plugin.onCreateUser(ctx, {})
+    expect(await plugin.afterCreateUser!(ctx, result)).toBeNull()
+  })
+})
+
+describe('bearerTest through the handler', () => {
+  it('returns null when two-factor leaves the sign-in pending', async () => {
+    const { client } = await createTestAuth({
+      plugins: [bearer(), twoFactor()],
+      test: { plugins: [bearerTest(), twoFactorTest()] },
+    })
+    const { user } = await client.createUser({ pluginData: { 'two-factor': { session: 'pending' } } })
+    expect(user.plugins.bearer).toBeNull()
+  })
+
+  it('returns a token for the signed-in session', async () => {
+    const { client, getSession } = await createTestAuth({
+      plugins: [bearer(), twoFactor()],
+      test: { plugins: [bearerTest(), twoFactorTest()] },
+    })
+    const { user } = await client.createUser()
+    const { token } = user.plugins.bearer as { token: string }
+    const session = await getSession([{ name: 'better-auth.session_token', value: token }])
+    expect(session?.user.id).toBe(user.id)
+  })
+})
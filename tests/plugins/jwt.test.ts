@@ -0,0 +1,99 @@
+import { Buffer } from 'node:buffer'
+import { describe, expect, it } from 'vitest'
+import { jwtTest } from '../../src/plugins/jwt.js'
+
+const SECRET = 'better-auth-secret-for-tests-0123456789'
+
+function mockCreateUserContext(pluginOptions: Record<string, unknown> | null = {}) {
+  const keys: any[] = []
+  const authContext = {
+    secret: SECRET,
+    options: { baseURL: 'http://localhost:3000' },
+    getPlugin: (id: string) => (pluginOptions && id === 'jwt' ? { id, options: pluginOptions } : null),
+    adapter: {
+      findMany: async () => keys,
+      create: async (args: any) => {
+        const key = { id: `key-${keys.length + 1}`, ...args.data }
+        keys.push(key)
+        return key
+      },
+    },
+  }
+  const ctx = {
+    authContext,
+    endpoint: { context: authContext },
+    user: { id: 'user-1', email: 'test@test.local', name: 'Test', role: 'user' },
+    session: { id: 'session-1', token: 'token-1' },
+  } as any
+  return { ctx, keys }
+}
+
+function decode(token: string): [Record<string, unknown>, Record<string, unknown>] {
+  const [header, payload] = token.split('.').slice(0, 2).map(part =>
+    JSON.parse(Buffer.from(part, 'base64url').toString()),
+  )
+  return [header, payload]
+}
+
+describe('jwtTest', () => {
+  it('returns a plugin with id "jwt"', () => {
+    expect(jwtTest().id).toBe('jwt')
+  })
+
+  it('returns null when skip: true', async () => {
+    expect(await jwtTest().onCreateUser({} as any, { skip: true })).toBeNull()
+  })
+
+  it('throws when the jwt plugin is not installed', async () => {
+    const { ctx } = mockCreateUserContext(null)
+    await expect(jwtTest().onCreateUser(ctx, {})).rejects.toThrow(/"jwt" plugin/)
+  })
+
+  it('signs the user payload with the app\'s JWKS key', async () => {
+    const { ctx, keys } = mockCreateUserContext()
+    const result = await jwtTest().onCreateUser(ctx, {})
+
+    const [header, payload] = decode(result!.token)
+    expect(keys).toHaveLength(1)
+    expect(header).toMatchObject({ alg: 'EdDSA', kid: 'key-1' })
+    expect(payload).toMatchObject({
+      sub: 'user-1',
+      email: 'test@test.local',
+      iss: 'http://localhost:3000',
+      aud: 'http://localhost:3000',
+    })
+    expect(result!.payload).toEqual(payload)
+    expect((payload.exp as number) - (payload.iat as number)).toBe(15 * 60)
+    expect(result!.expiresAt.getTime()).toBe((payload.exp as number) * 1000)
+  })
+
+  it('honours definePayload and getSubject', async () => {
+    const { ctx } = mockCreateUserContext({
+      jwt: {
+        definePayload: ({ user }: any) => ({ id: user.id, tier: 'free' }),
+        getSubject: ({ user }: any) => `user:${user.id}`,
+      },
+    })
+    const result = await jwtTest().onCreateUser(ctx, {})
+    expect(result!.payload).toMatchObject({ id: 'user-1', tier: 'free', sub: 'user:user-1' })
+    expect(result!.payload).not.toHaveProperty('email')
+  })
+
+  it('applies custom claims, expiry, issuer and audience', async () => {
+    const { ctx } = mockCreateUserContext()
+    const result = await jwtTest().onCreateUser(ctx, {
+      claims: { role: 'admin', sub: 'someone-else' },
+      expiresIn: -60,
+      issuer: 'https://issuer.test',
+      audience: ['api', 'mobile'],
+    })
+    expect(result!.payload).toMatchObject({
+      role: 'admin',
+      sub: 'someone-else',
+      iss: 'https://issuer.test',
+      aud: ['api', 'mobile'],
+    })
+    expect((result!.payload.exp as number) - (result!.payload.iat as number)).toBe(-60)
+    expect(result!.expiresAt.getTime()).toBeLessThan(Date.now())
+  })
+})
@@ -1,5 +1,7 @@
-import { describe, expect, it } from 'vitest'
+import { organization } from 'better-auth/plugins'
+import { afterEach, describe, expect, it, vi } from 'vitest'
 import { organizationTest } from '../../src/plugins/organization.js'
+import { createTestAuth } from '../auth.js'
 
 describe('organizationTest', () => {
   it('returns a plugin with id "organization"', () => {
@@ -40,3 +42,196 @@ describe('organizationTest', () => {
     ).rejects.toThrow()
   })
 })
+
+function mockCreateUserContext(pluginOptions: Record<string, unknown> = {}) {
+  const db: Record<string, any[]> = { organization: [], member: [], team: [], teamMember: [], invitation: [] }
+  const matches = (row: any, where: any[] = []) => where.every(w => row[w.field] === w.value)
+  const sessionUpdates: any[] = []
+  const users = [
+    { id: 'user-2', email: 'teammate@test.local', name: 'Teammate' },
+    { id: 'user-3', email: 'viewer@test.local', name: 'Viewer' },
+  ]
+  const authContext = {
+    baseURL: 'http://localhost:3000/api/auth',
+    getPlugin: (id: string) => (id === 'organization' ? { id, options: pluginOptions } : null),
+    adapter: {
+      create: async ({ model, data }: any) => {
+        const row = { id: `${model}-${db[model]!.length + 1}`, ...data }
+        db[model]!.push(row)
+        return row
+      },
+      findOne: async ({ model, where }: any) => db[model]!.find(row => matches(row, where)) ?? null,
+      findMany: async ({ model, where }: any) => db[model]!.filter(row => matches(row, where)),
+      update: async ({ model, where, update }: any) => {
+        const row = db[model]!.find(r => matches(r, where))
+        return Object.assign(row, update)
+      },
+    },
+    internalAdapter: {
+      findUserByEmail: async (email: string) => {
+        const user = users.find(u => u.email === email)
+        return user ? { user, accounts: [] } : null
+      },
+      findUserById: async (id: string) => users.find(u => u.id === id) ?? null,
+      updateSession: async (token: string, data: any) => {
+        sessionUpdates.push({ token, ...data })
+      },
+      createVerificationValue: async (data: any) => ({ id: 'verification-1', ...data }),
+    },
+  }
+  const ctx = {
+    authContext,
+    user: { id: 'user-1', email: 'owner@test.local', name: 'Owner' },
+    session: { id: 'session-1', token: 'token-1' },
+  } as any
+  return { ctx, db, sessionUpdates }
+}
+
+describe('organizationTest data', () => {
+  it('creates an org owned by the user and activates it', async () => {
+    const { ctx, db, sessionUpdates } = mockCreateUserContext()
+    const result = await organizationTest().onCreateUser(ctx, {})
+    expect(result).toMatchObject({ name: 'Owner\'s Org', slug: 'owner', role: 'owner', activeTeamId: null })
+    expect(db.member).toEqual([expect.objectContaining({ userId: 'user-1', role: 'owner' })])
+    expect(sessionUpdates).toEqual([{ token: 'token-1', activeOrganizationId: result!.id }])
+  })
+
+  it('adds existing users as members by email or ID', async () => {
+    const { ctx } = mockCreateUserContext()
+    const result = await organizationTest().onCreateUser(ctx, {
+      members: [{ user: 'Teammate@test.local', role: 'admin' }, { user: 'user-3' }],
+    })
+    expect(result!.members.map(m => [m.email, m.role])).toEqual([
+      ['owner@test.local', 'owner'],
+      ['teammate@test.local', 'admin'],
+      ['viewer@test.local', 'member'],
+    ])
+  })
+
+  it('fails for unknown members', async () => {
+    const { ctx } = mockCreateUserContext()
+    await expect(
+      organizationTest().onCreateUser(ctx, { members: [{ user: 'nobody@test.local' }] }),
+    ).rejects.toThrow(/"nobody@test.local" not found/)
+  })
+
+  it('accepts roles from custom access control and rejects others', async () => {
+    const { ctx } = mockCreateUserContext({ roles: { owner: {}, billing: {}, viewer: {} } })
+    const plugin = organizationTest()
+    const result = await plugin.onCreateUser(ctx, { role: ['owner', 'billing'], members: [{ user: 'user-2', role: 'viewer' }] })
+    expect(result!.role).toBe('owner,billing')
+    await expect(plugin.onCreateUser(ctx, { role: 'admin', slug: 'other' })).rejects.toThrow(/"admin"/)
+  })
+
+  it('requires teams to be enabled', async () => {
+    const { ctx } = mockCreateUserContext()
+    await expect(
+      organizationTest().onCreateUser(ctx, { teams: [{ name: 'Core' }] }),
+    ).rejects.toThrow(/teams: \{ enabled: true \}/)
+  })
+
+  it('creates teams and sets the active team', async () => {
+    const { ctx, db, sessionUpdates } = mockCreateUserContext({ teams: { enabled: true } })
+    const result = await organizationTest().onCreateUser(ctx, {
+      members: [{ user: 'user-2' }],
+      teams: [{ name: 'Core', members: ['user-2'] }, { name: 'Ops', join: false }],
+      activeTeam: 'Core',
+    })
+    const [core, ops] = result!.teams
+    expect(core).toMatchObject({ name: 'Core', memberIds: ['user-1', 'user-2'] })
+    expect(ops!.memberIds).toEqual([])
+    expect(db.teamMember).toHaveLength(2)
+    expect(result!.activeTeamId).toBe(core!.id)
+    expect(sessionUpdates[0]).toMatchObject({ activeTeamId: core!.id })
+  })
+
+  it('rejects team members outside the org', async () => {
+    const { ctx } = mockCreateUserContext({ teams: { enabled: true } })
+    await expect(
+      organizationTest().onCreateUser(ctx, { teams: [{ name: 'Core', members: ['user-2'] }] }),
+    ).rejects.toThrow(/not a member/)
+  })
+
+  it('creates invitations in each state with accept URLs', async () => {
+    const { ctx, db } = mockCreateUserContext()
+    const result = await organizationTest().onCreateUser(ctx, {
+      invitations: [
+        { email: 'new@test.local' },
+        { email: 'late@test.local', status: 'expired' },
+        { email: 'no@test.local', status: 'rejected', role: 'admin' },
+      ],
+    })
+    const [pending, expired, rejected] = result!.invitations
+    expect(pending).toMatchObject({ status: 'pending', role: 'member', url: `http://localhost:3000/accept-invitation/${pending!.id}` })
+    expect(pending!.expiresAt.getTime()).toBeGreaterThan(Date.now())
+    expect(expired!.status).toBe('pending')
+    expect(expired!.expiresAt.getTime()).toBeLessThan(Date.now())
+    expect(rejected).toMatchObject({ status: 'rejected', role: 'admin' })
+    expect(db.invitation.map(i => [i.status, i.inviterId])).toEqual([
+      ['pending', 'user-1'],
+      ['pending', 'user-1'],
+      ['rejected', 'user-1'],
+    ])
+  })
+
+  it('builds accept URLs with acceptInvitationURL', async () => {
+    const { ctx } = mockCreateUserContext()
+    const plugin = organizationTest({ acceptInvitationURL: ({ id }) => `https://app.test/invite?id=${id}` })
+    const result = await plugin.onCreateUser(ctx, { invitations: [{ email: 'new@test.local' }] })
+    expect(result!.invitations[0]!.url).toBe(`https://app.test/invite?id=${result!.invitations[0]!.id}`)
+  })
+
+  it('creates further organizations and activates the chosen one', async () => {
+    const { ctx, sessionUpdates } = mockCreateUserContext()
+    const result = await organizationTest().onCreateUser(ctx, {
+      organizations: [{ slug: 'acme', role: 'member' }, {}],
+      activeOrganization: 'acme',
+    })
+    expect(result!.slug).toBe('owner')
+    expect(result!.organizations.map(org => [org.slug, org.role])).toEqual([
+      ['owner', 'owner'],
+      ['acme', 'member'],
+      ['owner-3', 'owner'],
+    ])
+    expect(result!.activeOrganizationId).toBe(result!.organizations[1]!.id)
+    expect(sessionUpdates[0].activeOrganizationId).toBe(result!.organizations[1]!.id)
+    // Nothing is shared, so the JSON response has no circular refs
+    expect(result!.members).toEqual(result!.organizations[0]!.members)
+    expect(result!.members).not.toBe(result!.organizations[0]!.members)
+  })
+
+  it('fails for an unknown active organization', async () => {
+    const { ctx } = mockCreateUserContext()
+    await expect(
+      organizationTest().onCreateUser(ctx, { activeOrganization: 'missing' }),
+    ).rejects.toThrow(/"missing"/)
+  })
+})
+
+describe('organizationTest through the handler', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('deletes the orgs it created for the user, not the ones the user joined', async () => {
+    const { db, client } = await createTestAuth({
+      plugins: [organization({ teams: { enabled: true } })],
+      test: { plugins: [organizationTest()] },
+    })
+    const { user: alice } = await client.createUser({
+      email: 'alice@test.local',
+      pluginData: { organization: { teams: [{ name: 'Core' }], organizations: [{ slug: 'alice-side', role: 'member' }] } },
+    })
+    const { user: bob } = await client.createUser({
+      email: 'bob@test.local',
+      pluginData: { organization: { members: [{ user: alice.id, role: 'admin' }], teams: [{ name: 'Ops', members: [alice.id] }] } },
+    })
+
+    await client.deleteUser(alice.email)
+
+    expect(db.organization!.map(org => org.slug)).toEqual(['bob'])
+    expect(db.team!.map(team => team.name)).toEqual(['Ops'])
+    expect(db.member!.filter(member => member.userId === bob.id)).toEqual([expect.objectContaining({ role: 'owner' })])
+    expect(db.verification!.filter(record => String(record.identifier).includes(alice.id))).toEqual([])
+  })
+})
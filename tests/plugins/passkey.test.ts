@@ -0,0 +1,103 @@
+import { Buffer } from 'node:buffer'
+import { describe, expect, it } from 'vitest'
+import { passkeyTest } from '../../src/plugins/passkey.js'
+
+function mockCreateUserContext(pluginOptions: Record<string, unknown> | null = {}) {
+  const passkeys: any[] = []
+  const deleted: any[] = []
+  const adapter = {
+    create: async ({ data }: any) => {
+      const passkey = { id: `passkey-${passkeys.length + 1}`, ...data }
+      passkeys.push(passkey)
+      return passkey
+    },
+    deleteMany: async (args: any) => {
+      deleted.push(args)
+    },
+  }
+  const ctx = {
+    authContext: {
+      baseURL: 'http://localhost:3000/api/auth',
+      getPlugin: (id: string) => (pluginOptions && id === 'passkey' ? { id, options: pluginOptions } : null),
+      adapter,
+    },
+    user: { id: 'user-1', email: 'test@test.local', name: 'Test' },
+    session: { id: 'session-1', token: 'token-1' },
+  } as any
+  return { ctx, passkeys, deleted }
+}
+
+describe('passkeyTest', () => {
+  it('returns a plugin with id "passkey"', () => {
+    expect(passkeyTest().id).toBe('passkey')
+  })
+
+  it('returns null when skip: true', async () => {
+    expect(await passkeyTest().onCreateUser({} as any, { skip: true })).toBeNull()
+  })
+
+  it('throws when the passkey plugin is not installed', async () => {
+    const { ctx } = mockCreateUserContext(null)
+    await expect(passkeyTest().onCreateUser(ctx, {})).rejects.toThrow(/"passkey" plugin/)
+  })
+
+  it('stores a credential the way passkey registration does', async () => {
+    const { ctx, passkeys } = mockCreateUserContext()
+    const result = await passkeyTest({ name: 'Laptop' }).onCreateUser(ctx, { backedUp: true })
+
+    expect(passkeys).toEqual([expect.objectContaining({
+      name: 'Laptop',
+      userId: 'user-1',
+      credentialID: result!.credentialId,
+      counter: 0,
+      deviceType: 'multiDevice',
+      backedUp: true,
+      transports: 'internal',
+    })])
+    expect(result).toMatchObject({
+      id: 'passkey-1',
+      rpId: 'localhost',
+      userHandle: Buffer.from('user-1').toString('base64url'),
+      signCount: 0,
+    })
+  })
+
+  it('uses the plugin\'s rpID', async () => {
+    const { ctx } = mockCreateUserContext({ rpID: 'example.com' })
+    const result = await passkeyTest().onCreateUser(ctx, {})
+    expect(result!.rpId).toBe('example.com')
+  })
+
+  it('stores the COSE public key matching the returned private key', async () => {
+    const { ctx, passkeys } = mockCreateUserContext()
+    const result = await passkeyTest().onCreateUser(ctx, {})
+
+    const cose = Buffer.from(passkeys[0].publicKey, 'base64')
+    expect([...cose.subarray(0, 10)]).toEqual([0xA5, 0x01, 0x02, 0x03, 0x26, 0x20, 0x01, 0x21, 0x58, 0x20])
+    const x = cose.subarray(10, 42)
+    const y = cose.subarray(45, 77)
+    const publicKey = await crypto.subtle.importKey(
+      'raw',
+      Buffer.concat([Buffer.from([0x04]), x, y]),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify'],
+    )
+    const privateKey = await crypto.subtle.importKey(
+      'pkcs8',
+      Buffer.from(result!.privateKey, 'base64url'),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['sign'],
+    )
+    const data = new TextEncoder().encode('challenge')
+    const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, privateKey, data)
+    expect(await crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, publicKey, signature, data)).toBe(true)
+  })
+
+  it('deletes the user\'s passkeys', async () => {
+    const { ctx, deleted } = mockCreateUserContext()
+    await passkeyTest().onDeleteUser!(ctx.authContext, ctx.user)
+    expect(deleted).toEqual([{ model: 'passkey', where: [{ field: 'userId', value: 'user-1' }] }])
+  })
+})
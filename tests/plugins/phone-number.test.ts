@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { phoneNumberTest } from '../../src/plugins/phone-number.js'
+
+function mockCreateUserContext(pluginOptions: Record<string, unknown> | null = {}, existing: any[] = []) {
+  const updates: any[] = []
+  const ctx = {
+    authContext: {
+      getPlugin: (id: string) => (pluginOptions && id === 'phone-number' ? { id, options: pluginOptions } : null),
+      adapter: {
+        findOne: async ({ where }: any) => existing.find(u => u[where[0].field] === where[0].value) ?? null,
+      },
+      internalAdapter: {
+        updateUser: async (id: string, data: any) => {
+          updates.push(data)
+          return { id, ...data }
+        },
+      },
+    },
+    user: { id: 'user-1', email: 'test@test.local', name: 'Test' },
+    session: { id: 'session-1', token: 'token-1' },
+  } as any
+  return { ctx, updates }
+}
+
+describe('phoneNumberTest', () => {
+  it('returns a plugin with id "phone-number"', () => {
+    expect(phoneNumberTest().id).toBe('phone-number')
+  })
+
+  it('returns null when skip: true', async () => {
+    expect(await phoneNumberTest().onCreateUser({} as any, { skip: true })).toBeNull()
+  })
+
+  it('throws when the phone-number plugin is not installed', async () => {
+    const { ctx } = mockCreateUserContext(null)
+    await expect(phoneNumberTest().onCreateUser(ctx, {})).rejects.toThrow(/"phone-number" plugin/)
+  })
+
+  it('stores a verified random number by default', async () => {
+    const { ctx, updates } = mockCreateUserContext()
+    const result = await phoneNumberTest().onCreateUser(ctx, {})
+    expect(result!.phoneNumber).toMatch(/^\+1555\d{7}$/)
+    expect(updates).toEqual([{ phoneNumber: result!.phoneNumber, phoneNumberVerified: true }])
+  })
+
+  it('stores an unverified number', async () => {
+    const { ctx } = mockCreateUserContext()
+    const result = await phoneNumberTest().onCreateUser(ctx, { phoneNumber: '+15550001111', phoneNumberVerified: false })
+    expect(result).toEqual({ phoneNumber: '+15550001111', phoneNumberVerified: false })
+  })
+
+  it('rejects numbers the plugin\'s validator or another user rejects', async () => {
+    const { ctx } = mockCreateUserContext({ phoneNumberValidator: (n: string) => n.startsWith('+44') })
+    await expect(phoneNumberTest().onCreateUser(ctx, { phoneNumber: '+15550001111' })).rejects.toThrow(/validator/)
+
+    const taken = mockCreateUserContext({}, [{ id: 'user-2', phoneNumber: '+15550001111' }])
+    await expect(phoneNumberTest().onCreateUser(taken.ctx, { phoneNumber: '+15550001111' })).rejects.toThrow(/already in use/)
+  })
+})
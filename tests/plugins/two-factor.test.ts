@@ -0,0 +1,162 @@
+import { symmetricDecrypt } from 'better-auth/crypto'
+import { twoFactor } from 'better-auth/plugins'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { twoFactorTest } from '../../src/plugins/two-factor.js'
+import { createTestAuth } from '../auth.js'
+
+const SECRET = 'better-auth-secret-for-tests-0123456789'
+
+function mockCreateUserContext(pluginOptions: Record<string, unknown> = {}) {
+  const created: any[] = []
+  const verifications: any[] = []
+  const deletedSessions: string[] = []
+  const cookies: Record<string, string> = {}
+  const ctx = {
+    authContext: {
+      secret: SECRET,
+      appName: 'Test App',
+      getPlugin: (id: string) => (id === 'two-factor' ? { id, options: pluginOptions } : null),
+      adapter: {
+        create: async (args: any) => {
+          created.push(args)
+          return { id: 'generated-id', ...args.data }
+        },
+      },
+      internalAdapter: {
+        updateUser: async (id: string, data: any) => ({ id, ...data }),
+        createVerificationValue: async (data: any) => {
+          verifications.push(data)
+          return { id: 'verification-id', ...data }
+        },
+        deleteSession: async (token: string) => {
+          deletedSessions.push(token)
+        },
+      },
+      createAuthCookie: (name: string) => ({ name: `better-auth.${name}`, attributes: {} }),
+    },
+    endpoint: {
+      setSignedCookie: async (name: string, value: string) => {
+        cookies[name] = value
+      },
+    },
+    sessionCookie: { token: 'token-1' as string | null },
+    user: { id: 'user-1', email: 'test@test.local', name: 'Test' },
+    session: { id: 'session-1', token: 'token-1' },
+    request: new Request('http://localhost'),
+  } as any
+  return { ctx, created, verifications, deletedSessions, cookies }
+}
+
+describe('twoFactorTest', () => {
+  it('returns a plugin with id "two-factor"', () => {
+    const plugin = twoFactorTest()
+    expect(plugin.id).toBe('two-factor')
+  })
+
+  it('returns null when skip: true', async () => {
+    const plugin = twoFactorTest()
+    const result = await plugin.onCreateUser({} as any, { skip: true })
+    expect(result).toBeNull()
+  })
+
+  it('throws when the two-factor plugin is not installed', async () => {
+    const plugin = twoFactorTest()
+    const { ctx } = mockCreateUserContext()
+    ctx.authContext.getPlugin = () => null
+    await expect(plugin.onCreateUser(ctx, {})).rejects.toThrow(/"two-factor" plugin/)
+  })
+
+  it('stores the secret and backup codes encrypted', async () => {
+    const plugin = twoFactorTest()
+    const { ctx, created } = mockCreateUserContext()
+    const result = await plugin.onCreateUser(ctx, { secret: 'raw-secret' })
+    expect(result!.secret).toBe('raw-secret')
+    expect(result!.backupCodes).toHaveLength(10)
+
+    const row = created[0].data
+    expect(created[0].model).toBe('twoFactor')
+    expect(row.userId).toBe('user-1')
+    expect(await symmetricDecrypt({ key: SECRET, data: row.secret })).toBe('raw-secret')
+    const codes = JSON.parse(await symmetricDecrypt({ key: SECRET, data: row.backupCodes }))
+    expect(codes).toEqual(result!.backupCodes)
+  })
+
+  it('honours the plugin TOTP settings in the result', async () => {
+    const plugin = twoFactorTest()
+    const { ctx } = mockCreateUserContext({ totpOptions: { digits: 8, period: 60 } })
+    const result = await plugin.onCreateUser(ctx, { backupCodes: 3 })
+    expect(result!.digits).toBe(8)
+    expect(result!.period).toBe(60)
+    expect(result!.backupCodes).toHaveLength(3)
+    expect(result!.totpURI).toMatch(/^otpauth:\/\/totp\/Test%20App:test%40test\.local\?/)
+    expect(result!.totpURI).toContain('digits=8')
+  })
+
+  it('calls customBackupCodesGenerate until backupCodes is reached', async () => {
+    let calls = 0
+    const customBackupCodesGenerate = (): string[] => [`code-${++calls}a`, `code-${calls}b`]
+    const { ctx } = mockCreateUserContext({ backupCodeOptions: { customBackupCodesGenerate } })
+    const plugin = twoFactorTest()
+
+    expect((await plugin.onCreateUser(ctx, { backupCodes: 3 }))!.backupCodes).toEqual(['code-1a', 'code-1b', 'code-2a'])
+    // Without a count, one call's codes as the plugin would store them
+    expect((await plugin.onCreateUser(ctx, {}))!.backupCodes).toEqual(['code-3a', 'code-3b'])
+  })
+
+  it('fails when customBackupCodesGenerate returns no codes', async () => {
+    const { ctx } = mockCreateUserContext({ backupCodeOptions: { customBackupCodesGenerate: () => [] } })
+    await expect(twoFactorTest().onCreateUser(ctx, { backupCodes: 2 })).rejects.toThrow(/returned no codes/)
+  })
+
+  it('keeps the session cookie by default', async () => {
+    const plugin = twoFactorTest()
+    const { ctx, cookies, deletedSessions } = mockCreateUserContext()
+    const result = await plugin.onCreateUser(ctx, {})
+    expect(result!.pending).toBe(false)
+    expect(ctx.sessionCookie.token).toBe('token-1')
+    expect(cookies).toEqual({})
+    expect(deletedSessions).toEqual([])
+  })
+
+  it('leaves the user at the 2FA challenge with session: "pending"', async () => {
+    const plugin = twoFactorTest()
+    const { ctx, cookies, verifications, deletedSessions } = mockCreateUserContext()
+    const result = await plugin.onCreateUser(ctx, { session: 'pending' })
+    expect(result!.pending).toBe(true)
+    expect(ctx.sessionCookie.token).toBeNull()
+    expect(deletedSessions).toEqual(['token-1'])
+    expect(verifications[0].value).toBe('user-1')
+    expect(cookies['better-auth.two_factor']).toBe(verifications[0].identifier)
+  })
+})
+
+describe('twoFactorTest through the handler', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('leaves no usable session with session: "pending"', async () => {
+    const { client, db, getSession } = await createTestAuth({
+      plugins: [twoFactor()],
+      test: { plugins: [twoFactorTest()] },
+    })
+    const { user, cookies } = await client.createUser({ pluginData: { 'two-factor': { session: 'pending' } } })
+
+    expect(cookies.map(cookie => cookie.name)).toEqual(['better-auth.two_factor'])
+    expect(db.session!.find(session => session.token === user.session.token)).toBeUndefined()
+    const sessionCookie = { name: 'better-auth.session_token', value: user.session.token }
+    expect(await getSession([sessionCookie])).toBeNull()
+  })
+
+  it('signs the user in by default', async () => {
+    const { client, getSession } = await createTestAuth({
+      plugins: [twoFactor()],
+      test: { plugins: [twoFactorTest()] },
+    })
+    const { user, cookies } = await client.createUser()
+
+    const session = await getSession(cookies)
+    expect(session?.user.id).toBe(user.id)
+    expect(session?.user.twoFactorEnabled).toBe(true)
+  })
+})
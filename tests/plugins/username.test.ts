@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { usernameTest } from '../../src/plugins/username.js'
+
+function mockCreateUserContext(pluginOptions: Record<string, unknown> | null = {}, existing: any[] = []) {
+  const updates: any[] = []
+  const ctx = {
+    authContext: {
+      getPlugin: (id: string) => (pluginOptions && id === 'username' ? { id, options: pluginOptions } : null),
+      adapter: {
+        findOne: async ({ where }: any) => existing.find(u => u[where[0].field] === where[0].value) ?? null,
+      },
+      internalAdapter: {
+        // Stands in for the plugin's normalizing update hook
+        updateUser: async (id: string, data: any) => {
+          updates.push(data)
+          return { id, ...data, username: data.username.toLowerCase() }
+        },
+      },
+    },
+    user: { id: 'user-1', email: 'Jane.Doe+x@test.local', name: 'Jane' },
+    session: { id: 'session-1', token: 'token-1' },
+  } as any
+  return { ctx, updates }
+}
+
+describe('usernameTest', () => {
+  it('returns a plugin with id "username"', () => {
+    expect(usernameTest().id).toBe('username')
+  })
+
+  it('returns null when skip: true', async () => {
+    expect(await usernameTest().onCreateUser({} as any, { skip: true })).toBeNull()
+  })
+
+  it('throws when the username plugin is not installed', async () => {
+    const { ctx } = mockCreateUserContext(null)
+    await expect(usernameTest().onCreateUser(ctx, {})).rejects.toThrow(/"username" plugin/)
+  })
+
+  it('sets the normalized username and the display username as given', async () => {
+    const { ctx, updates } = mockCreateUserContext()
+    const result = await usernameTest().onCreateUser(ctx, { username: 'Jane_Doe' })
+    expect(updates).toEqual([{ username: 'jane_doe', displayUsername: 'Jane_Doe' }])
+    expect(result).toEqual({ username: 'jane_doe', displayUsername: 'Jane_Doe' })
+  })
+
+  it('derives a valid username from the email', async () => {
+    const { ctx } = mockCreateUserContext()
+    const result = await usernameTest().onCreateUser(ctx, {})
+    expect(result!.username).toBe('jane.doe_x')
+  })
+
+  it('applies the plugin\'s length and validator settings', async () => {
+    const { ctx } = mockCreateUserContext({ minUsernameLength: 5, usernameValidator: (u: string) => !u.includes('admin') })
+    await expect(usernameTest().onCreateUser(ctx, { username: 'abc' })).rejects.toThrow(/5 to 30 characters/)
+    await expect(usernameTest().onCreateUser(ctx, { username: 'the_admin' })).rejects.toThrow(/validator/)
+    await expect(usernameTest().onCreateUser(ctx, { username: 'has space' })).resolves.not.toBeNull()
+  })
+
+  it('rejects a taken username', async () => {
+    const { ctx } = mockCreateUserContext({}, [{ id: 'user-2', username: 'jane' }])
+    await expect(usernameTest().onCreateUser(ctx, { username: 'Jane' })).rejects.toThrow(/"jane" is already taken/)
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import { planScenario } from '../src/scenario.js'
+
+const users = {
+  alice: { email: 'alice@test.local' },
+  bob: { email: 'bob@test.local' },
+  carol: { email: 'carol@test.local' },
+}
+
+describe('planScenario', () => {
+  it('creates members before the owners of their organizations', () => {
+    const plan = planScenario({
+      users,
+      organizations: {
+        acme: { owner: 'alice', members: [{ user: 'bob', role: 'admin' }] },
+        globex: { owner: 'bob', members: [{ user: 'carol' }] },
+      },
+    }, { organizationPlugin: true })
+
+    expect(plan.users.map(u => u.alias)).toEqual(['carol', 'bob', 'alice'])
+  })
+
+  it('keeps declaration order when nothing depends on it', () => {
+    const plan = planScenario({ users }, { organizationPlugin: false })
+    expect(plan.users).toEqual([
+      { alias: 'alice', pluginData: {} },
+      { alias: 'bob', pluginData: {} },
+      { alias: 'carol', pluginData: {} },
+    ])
+  })
+
+  it('turns organizations into the owner\'s organizationTest options', () => {
+    const plan = planScenario({
+      users,
+      organizations: {
+        acme: {
+          owner: 'alice',
+          slug: 'acme',
+          members: [{ user: 'bob', role: 'admin' }],
+          teams: [{ name: 'Core', members: ['bob'] }],
+          invitations: [{ user: 'carol' }, { email: 'dave@test.local', status: 'expired' }],
+        },
+        initech: { owner: 'alice', name: 'Initech' },
+      },
+    }, { organizationPlugin: true })
+
+    const alice = plan.users.find(u => u.alias === 'alice')!
+    expect(alice.pluginData.organization).toMatchObject({
+      slug: 'acme',
+      members: [{ user: 'bob@test.local', role: 'admin' }],
+      teams: [{ name: 'Core', members: ['bob@test.local'] }],
+      invitations: [{ email: 'carol@test.local' }, { email: 'dave@test.local', status: 'expired' }],
+      organizations: [{ name: 'Initech', members: [] }],
+    })
+    expect(plan.organizations).toEqual({
+      acme: { owner: 'alice', index: 0 },
+      initech: { owner: 'alice', index: 1 },
+    })
+  })
+
+  it('skips organizationTest\'s default organization for other users', () => {
+    const plan = planScenario({
+      users: { ...users, carol: { email: 'carol@test.local', pluginData: { organization: { slug: 'own' } } } },
+      organizations: { acme: { owner: 'alice' } },
+    }, { organizationPlugin: true })
+
+    expect(plan.users.find(u => u.alias === 'bob')!.pluginData).toEqual({ organization: { skip: true } })
+    expect(plan.users.find(u => u.alias === 'carol')!.pluginData).toEqual({ organization: { slug: 'own' } })
+  })
+
+  it('rejects unknown aliases', () => {
+    expect(() => planScenario({
+      users,
+      organizations: { acme: { owner: 'alice', teams: [{ name: 'Core', members: ['mallory'] }] } },
+    }, { organizationPlugin: true })).toThrow('organization "acme" team "Core" refers to unknown user "mallory"')
+  })
+
+  it('rejects circular membership', () => {
+    expect(() => planScenario({
+      users,
+      organizations: {
+        acme: { owner: 'alice', members: [{ user: 'bob' }] },
+        globex: { owner: 'bob', members: [{ user: 'alice' }] },
+      },
+    }, { organizationPlugin: true })).toThrow('circular organization membership: alice → bob → alice')
+  })
+
+  it('rejects an owner listed as a member', () => {
+    expect(() => planScenario({
+      users,
+      organizations: { acme: { owner: 'alice', members: [{ user: 'alice' }] } },
+    }, { organizationPlugin: true })).toThrow(/owner "alice" cannot also be listed as a member/)
+  })
+
+  it('rejects owners with their own organization options', () => {
+    expect(() => planScenario({
+      users: { ...users, alice: { email: 'alice@test.local', pluginData: { organization: { slug: 'x' } } } },
+      organizations: { acme: { owner: 'alice' } },
+    }, { organizationPlugin: true })).toThrow(/user "alice" owns scenario organizations/)
+  })
+
+  it('requires organizationTest for organizations', () => {
+    expect(() => planScenario({
+      users,
+      organizations: { acme: { owner: 'alice' } },
+    }, { organizationPlugin: false })).toThrow(/require organizationTest\(\)/)
+  })
+})
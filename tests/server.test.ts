@@ -1,5 +1,12 @@
-import { describe, expect, it } from 'vitest'
+import type { AuthContext, User } from 'better-auth'
+import type { CreateUserContext } from '../src/types.js'
+import { multiSession, organization } from 'better-auth/plugins'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createTestDataClient } from '../src/client.js'
+import { organizationTest } from '../src/plugins/organization.js'
 import { testPlugin } from '../src/server.js'
+import { createSignatureHeaders, TIMESTAMP_HEADER } from '../src/signing.js'
+import { applyCookieUpdate, BASE_URL, createTestAuth, SECRET } from './auth.js'
 
 describe('testPlugin', () => {
   it('returns a plugin with id "test"', () => {
@@ -10,8 +17,20 @@ describe('testPlugin', () => {
   it('registers expected endpoints', () => {
     const plugin = testPlugin()
     expect(plugin.endpoints).toHaveProperty('createTestUser')
+    expect(plugin.endpoints).toHaveProperty('createTestUsers')
+    expect(plugin.endpoints).toHaveProperty('createTestScenario')
     expect(plugin.endpoints).toHaveProperty('deleteTestUser')
     expect(plugin.endpoints).toHaveProperty('getTestCapabilities')
+    expect(plugin.endpoints).toHaveProperty('getTestMailbox')
+    expect(plugin.endpoints).toHaveProperty('clearTestMailbox')
+    expect(plugin.endpoints).toHaveProperty('updateTestSessionExpiry')
+    expect(plugin.endpoints).toHaveProperty('updateTestSession')
+    expect(plugin.endpoints).toHaveProperty('activateTestSession')
+    expect(plugin.endpoints).toHaveProperty('revokeTestSession')
+    expect(plugin.endpoints).toHaveProperty('revokeTestSessions')
+    expect(plugin.endpoints).toHaveProperty('purgeTestUsers')
+    expect(plugin.endpoints).toHaveProperty('createTestVerificationLink')
+    expect(plugin.endpoints).toHaveProperty('createTestPasswordResetLink')
   })
 
   it('works with empty options', () => {
@@ -29,4 +48,734 @@ describe('testPlugin', () => {
     expect(plugin.id).toBe('test')
     expect(plugin.endpoints).toBeDefined()
   })
+
+  describe('in production', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('registers no endpoints', () => {
+      vi.stubEnv('NODE_ENV', 'production')
+      const plugin = testPlugin({ secret: 'shh' })
+      expect(plugin.id).toBe('test')
+      expect(plugin.endpoints).toBeUndefined()
+    })
+
+    it('registers endpoints with allowInProduction', () => {
+      vi.stubEnv('NODE_ENV', 'production')
+      const plugin = testPlugin({ secret: 'shh', allowInProduction: true })
+      expect(plugin.endpoints).toHaveProperty('createTestUser')
+    })
+  })
+})
+
+describe('/test-data/users', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const recorder = {
+    id: 'recorder',
+    onCreateUser: async (_ctx: unknown, opts: { label?: string, fail?: boolean }) => {
+      if (opts.fail)
+        throw new Error('boom')
+      return { label: opts.label ?? null }
+    },
+  }
+
+  it('creates every user with a session of its own', async () => {
+    const { client, db, getSession } = await createTestAuth({ test: { plugins: [recorder] } })
+    const results = await client.createUsers([
+      { email: 'a@test.local', pluginData: { recorder: { label: 'first' } } },
+      { email: 'b@test.local' },
+    ])
+
+    expect(results.map(r => r.user.email)).toEqual(['a@test.local', 'b@test.local'])
+    expect(results.map(r => r.user.plugins)).toEqual([{ recorder: { label: 'first' } }, { recorder: { label: null } }])
+    expect(db.session).toHaveLength(2)
+    for (const { user, cookies } of results)
+      expect((await getSession(cookies))?.user.id).toBe(user.id)
+  })
+
+  it('leaves sessions out with session: false', async () => {
+    const { client, db } = await createTestAuth()
+    const results = await client.createUsers(3, { session: false })
+
+    expect(db.user).toHaveLength(3)
+    expect(db.session).toEqual([])
+    expect(results.every(r => r.user.session === null && r.cookies.length === 0)).toBe(true)
+  })
+
+  it('rolls back the whole batch when one user fails', async () => {
+    const { client, db } = await createTestAuth({ test: { plugins: [recorder] } })
+    await expect(client.createUsers([
+      { email: 'a@test.local' },
+      { email: 'b@test.local', pluginData: { recorder: { fail: true } } },
+    ])).rejects.toThrow(/createUsers failed \(500\): .*User 1 \(b@test\.local\): Plugin .*recorder.* failed: boom/)
+
+    expect(db.user).toEqual([])
+    expect(db.session).toEqual([])
+  })
+
+  it('rejects invalid users before creating any', async () => {
+    const { client, db } = await createTestAuth()
+    await expect(client.createUsers([
+      { email: 'a@test.local' },
+      { email: 'b@test.local', additionalFields: { unknownField: 1 } },
+    ])).rejects.toThrow(/createUsers failed \(400\): .*User 1 \(b@test\.local\)/)
+
+    expect(db.user).toEqual([])
+  })
+})
+
+describe('session lifecycle endpoints', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  // Cookie caching is on, so a stale session_data cookie would keep
+  // the session alive without a database lookup
+  const cookieCache = { session: { cookieCache: { enabled: true, maxAge: 300 } } }
+
+  it('expires a session, cookie cache included', async () => {
+    const { client, db, getSession } = await createTestAuth({ auth: cookieCache })
+    const { user, cookies } = await client.createUser()
+    expect(cookies.map(cookie => cookie.name)).toContain('better-auth.session_data')
+
+    const update = await client.setSessionExpiry(user.session.token, 'expired')
+
+    expect(update.session.expiresAt.valueOf()).toBeLessThan(Date.now())
+    expect((db.session![0]!.expiresAt as Date).valueOf()).toBeLessThan(Date.now())
+    expect(update.clearedCookies.map(cookie => cookie.name)).toEqual(['better-auth.session_data'])
+    expect(await getSession(applyCookieUpdate(cookies, update))).toBeNull()
+  })
+
+  it('sets an explicit expiry and re-issues the token cookie to match', async () => {
+    const { client, db, getSession } = await createTestAuth()
+    const { user, cookies } = await client.createUser()
+    const expiresAt = new Date(Date.now() + 3600_000)
+
+    const update = await client.setSessionExpiry(user.session.token, expiresAt)
+
+    expect((db.session![0]!.expiresAt as Date).valueOf()).toBe(expiresAt.valueOf())
+    const tokenCookie = update.cookies.find(cookie => cookie.name === 'better-auth.session_token')!
+    expect(tokenCookie.expires).toBeCloseTo(expiresAt.valueOf() / 1000, -1)
+    expect((await getSession(applyCookieUpdate(cookies, update)))?.user.id).toBe(user.id)
+  })
+
+  it('moves a session into the refresh window, so the next request refreshes it', async () => {
+    const { client, db, getSession } = await createTestAuth()
+    const { user, cookies } = await client.createUser()
+
+    const update = await client.setSessionExpiry(user.session.token, 'refresh-window')
+    await getSession(applyCookieUpdate(cookies, update))
+
+    // Refreshed to the default 7 day lifetime
+    const refreshed = (db.session![0]!.expiresAt as Date).valueOf()
+    expect(refreshed).toBeGreaterThan(update.session.expiresAt.valueOf())
+    expect(refreshed).toBeGreaterThan(Date.now() + 6 * 24 * 3600_000)
+  })
+
+  it('revokes a session and clears its cookies', async () => {
+    const { client, db, getSession } = await createTestAuth({ auth: cookieCache })
+    const { user, cookies } = await client.createUser()
+
+    const update = await client.revokeSession(user.session.token)
+
+    expect(update.revoked).toBe(1)
+    expect(db.session).toEqual([])
+    expect(update.clearedCookies.map(cookie => cookie.name)).toEqual(
+      expect.arrayContaining(['better-auth.session_token', 'better-auth.session_data']),
+    )
+    expect(await getSession(applyCookieUpdate(cookies, update))).toBeNull()
+  })
+
+  it('revokes every session of a user', async () => {
+    const { auth, client, db, getSession } = await createTestAuth()
+    const { user, cookies } = await client.createUser()
+    const other = await client.createUser()
+    await (await auth.$context).internalAdapter.createSession(user.id)
+
+    const update = await client.revokeAllSessions(user.id)
+
+    expect(update.revoked).toBe(2)
+    expect(db.session!.map(session => session.userId)).toEqual([other.user.id])
+    expect(await getSession(applyCookieUpdate(cookies, update))).toBeNull()
+  })
+
+  it('leaves the active session\'s cookies alone when revoking another account', async () => {
+    const { client, getSession } = await createTestAuth({ plugins: [multiSession()] })
+    const work = await client.createUser()
+    const personal = await client.createUser()
+    const multiCookie = (created: typeof work) => created.cookies.find(cookie => cookie.name.includes('_multi-'))!
+    const cookies = [multiCookie(personal), ...work.cookies]
+
+    const update = await client.revokeSession(personal.user.session.token, { activeToken: work.user.session.token })
+    expect(update.clearedCookies.map(cookie => cookie.name)).toEqual([multiCookie(personal).name])
+    expect((await getSession(applyCookieUpdate(cookies, update)))?.user.id).toBe(work.user.id)
+
+    const other = await client.createUser()
+    const all = await client.revokeAllSessions(other.user.id, { activeToken: work.user.session.token })
+    expect(all.clearedCookies.map(cookie => cookie.name)).toEqual([multiCookie(other).name])
+  })
+
+  it('reports unknown sessions', async () => {
+    const { client } = await createTestAuth()
+    await expect(client.setSessionExpiry('missing', 'expired')).rejects.toThrow(/setSessionExpiry failed \(404\)/)
+    await expect(client.revokeSession('missing')).rejects.toThrow(/revokeSession failed \(404\)/)
+  })
+})
+
+describe('/test-data/session/update', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  async function createOrgAuth() {
+    return createTestAuth({
+      plugins: [organization()],
+      test: { plugins: [organizationTest()] },
+      auth: { session: { cookieCache: { enabled: true, maxAge: 300 } } },
+    })
+  }
+
+  it('sets session fields and rebuilds the cookie cache', async () => {
+    const { client, db, getSession } = await createOrgAuth()
+    const { user, cookies } = await client.createUser({
+      pluginData: { organization: { organizations: [{ slug: 'second' }] } },
+    })
+    const [first, second] = user.plugins.organization!.organizations
+    expect(user.plugins.organization!.activeOrganizationId).toBe(first!.id)
+
+    const update = await client.updateSession(user.session.token, { activeOrganizationId: second!.id })
+
+    expect(update.session.activeOrganizationId).toBe(second!.id)
+    expect(db.session![0]!.activeOrganizationId).toBe(second!.id)
+    expect(update.cookies.map(cookie => cookie.name)).toEqual(
+      expect.arrayContaining(['better-auth.session_token', 'better-auth.session_data']),
+    )
+    // The old cache would still say the first org
+    expect((await getSession(cookies))?.session.activeOrganizationId).toBe(first!.id)
+    expect((await getSession(applyCookieUpdate(cookies, update)))?.session.activeOrganizationId).toBe(second!.id)
+  })
+
+  it('leaves the session cookie alone when the browser has another session active', async () => {
+    const { client } = await createOrgAuth()
+    const { user: active } = await client.createUser()
+    const { user } = await client.createUser()
+
+    const update = await client.updateSession(
+      user.session.token,
+      { activeOrganizationId: null },
+      { activeToken: active.session.token },
+    )
+
+    expect(update.session.activeOrganizationId).toBeNull()
+    expect(update.cookies).toEqual([])
+  })
+
+  it('clears a field with null', async () => {
+    const { client, db, getSession } = await createOrgAuth()
+    const { user, cookies } = await client.createUser()
+
+    const update = await client.updateSession(user.session.token, { activeOrganizationId: null })
+
+    expect(db.session![0]!.activeOrganizationId).toBeNull()
+    expect((await getSession(applyCookieUpdate(cookies, update)))?.session.activeOrganizationId).toBeNull()
+  })
+
+  it('rejects protected and unknown fields without writing', async () => {
+    const { client, db } = await createOrgAuth()
+    const { user } = await client.createUser()
+    const before = structuredClone(db.session)
+
+    await expect(client.updateSession(user.session.token, { userId: 'someone-else', activeOrganizationId: null }))
+      .rejects
+      .toThrow(/updateSession failed \(400\).*userId/)
+    await expect(client.updateSession(user.session.token, { nickname: 'x' }))
+      .rejects
+      .toThrow(/updateSession failed \(400\).*nickname/)
+    expect(db.session).toEqual(before)
+  })
+
+  it('needs at least one field', async () => {
+    const { client } = await createOrgAuth()
+    const { user } = await client.createUser()
+    await expect(client.updateSession(user.session.token, {}))
+      .rejects
+      .toThrow(/updateSession failed \(400\).*at least one/)
+  })
+
+  it('reports unknown sessions', async () => {
+    const { client } = await createOrgAuth()
+    await expect(client.updateSession('missing', { activeOrganizationId: null }))
+      .rejects
+      .toThrow(/updateSession failed \(404\)/)
+  })
+})
+
+describe('/test-data/session/activate', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('switches the active account between multi-session accounts', async () => {
+    const { client, getSession } = await createTestAuth({ plugins: [multiSession()] })
+    const work = await client.createUser()
+    const personal = await client.createUser()
+    // Both signed in to one browser, work active
+    let cookies = [...personal.cookies.filter(cookie => cookie.name.includes('_multi-')), ...work.cookies]
+    expect((await getSession(cookies))?.user.id).toBe(work.user.id)
+
+    cookies = applyCookieUpdate(cookies, await client.activateSession(personal.user.session.token))
+    expect((await getSession(cookies))?.user.id).toBe(personal.user.id)
+
+    cookies = applyCookieUpdate(cookies, await client.activateSession(work.user.session.token))
+    expect((await getSession(cookies))?.user.id).toBe(work.user.id)
+    // Neither account was signed out
+    expect(cookies.filter(cookie => cookie.name.includes('_multi-'))).toHaveLength(2)
+  })
+
+  it('reports unknown and expired sessions', async () => {
+    const { client } = await createTestAuth()
+    const { user } = await client.createUser()
+    await client.setSessionExpiry(user.session.token, 'expired')
+
+    await expect(client.activateSession('missing')).rejects.toThrow(/activateSession failed \(404\)/)
+    await expect(client.activateSession(user.session.token)).rejects.toThrow(/activateSession failed \(404\)/)
+  })
+})
+
+describe('/test-data/scenario', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  async function createScenarioAuth() {
+    return createTestAuth({
+      plugins: [organization({ teams: { enabled: true } })],
+      test: { plugins: [organizationTest()] },
+      auth: { socialProviders: { github: { clientId: 'client-id', clientSecret: 'client-secret' } } },
+    })
+  }
+
+  const world = {
+    users: {
+      owner: { name: 'Olive' },
+      admin: { name: 'Ada', oauth: { provider: 'github', scope: ['repo'] } },
+      viewer: {},
+    },
+    organizations: {
+      acme: {
+        owner: 'owner',
+        members: [{ user: 'admin', role: 'admin' }, { user: 'viewer' }],
+        teams: [{ name: 'Core', members: ['admin'] }],
+        invitations: [{ email: 'guest@test.local' }],
+      },
+      side: { owner: 'admin', name: 'Side', members: [{ user: 'viewer' }] },
+    },
+  }
+
+  it('creates users, accounts and organizations keyed by alias', async () => {
+    const { client, db, getSession } = await createScenarioAuth()
+    const { users, organizations } = await client.seed(world)
+
+    expect(Object.keys(users)).toEqual(['owner', 'admin', 'viewer'])
+    for (const { user, cookies } of Object.values(users))
+      expect((await getSession(cookies))?.user.id).toBe(user.id)
+    expect(users.admin.user.account).toMatchObject({ provider: 'github', scope: 'repo' })
+    expect(db.account!.filter(account => account.providerId === 'github')).toHaveLength(1)
+
+    // Only the two declared organizations; members get none of their own
+    expect(db.organization!.map(org => org.id).sort()).toEqual([organizations.acme.id, organizations.side.id].sort())
+    const roles = (orgId: string): [unknown, unknown][] => db.member!
+      .filter(member => member.organizationId === orgId)
+      .map(member => [member.userId, member.role])
+    expect(roles(organizations.acme.id)).toEqual(expect.arrayContaining([
+      [users.owner.user.id, 'owner'],
+      [users.admin.user.id, 'admin'],
+      [users.viewer.user.id, 'member'],
+    ]))
+    expect(roles(organizations.side.id)).toEqual(expect.arrayContaining([
+      [users.admin.user.id, 'owner'],
+      [users.viewer.user.id, 'member'],
+    ]))
+    expect(organizations.acme.teams).toEqual([
+      expect.objectContaining({ name: 'Core', memberIds: [users.owner.user.id, users.admin.user.id] }),
+    ])
+    expect(db.invitation).toEqual([expect.objectContaining({ email: 'guest@test.local', organizationId: organizations.acme.id })])
+  })
+
+  it('deletes an owner\'s organizations with it, not the ones it joined', async () => {
+    const { client, db } = await createScenarioAuth()
+    const { users, organizations } = await client.seed(world)
+
+    await client.deleteUser(users.owner.user.email)
+
+    expect(db.organization!.map(org => org.id)).toEqual([organizations.side.id])
+  })
+
+  it('rolls back every user when a later one fails', async () => {
+    const { client, db } = await createScenarioAuth()
+    const scenario = {
+      ...world,
+      organizations: { acme: { ...world.organizations.acme, role: 'superuser' } },
+    }
+
+    await expect(client.seed(scenario)).rejects.toThrow(/seed failed \(500\).*role .*superuser.* is not defined/)
+
+    expect(db.user).toEqual([])
+    expect(db.session).toEqual([])
+    expect(db.account).toEqual([])
+    expect(db.organization).toEqual([])
+    expect(db.member).toEqual([])
+  })
+
+  it('rejects invalid scenarios before creating anyone', async () => {
+    const { client, db } = await createScenarioAuth()
+
+    await expect(client.seed({ users: { owner: {} }, organizations: { acme: { owner: 'nobody' } } }))
+      .rejects
+      .toThrow(/seed failed \(400\).*unknown user .*nobody/)
+    await expect(client.seed({ users: { admin: { oauth: { provider: 'gitlab' } } } }))
+      .rejects
+      .toThrow(/seed failed \(400\).*gitlab/)
+    expect(db.user).toEqual([])
+  })
+})
+
+describe('link endpoints', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('mints a verification link that verifies the email', async () => {
+    const { auth, client, db } = await createTestAuth()
+    const { user } = await client.createUser({ emailVerified: false })
+
+    const link = await client.createVerificationLink(user.email, { callbackURL: '/welcome' })
+    expect(link.url).toMatch(/^http:\/\/localhost:3000\/api\/auth\/verify-email\?token=.+&callbackURL=%2Fwelcome$/)
+
+    const res = await auth.handler(new Request(link.url))
+    expect(res.status).toBe(302)
+    expect(res.headers.get('location')).toBe('/welcome')
+    expect(db.user![0]!.emailVerified).toBe(true)
+  })
+
+  it('mints already-expired verification links', async () => {
+    const { auth, client, db } = await createTestAuth()
+    const { user } = await client.createUser({ emailVerified: false })
+
+    const link = await client.createVerificationLink(user.email, { expiresIn: -60, callbackURL: '/welcome' })
+    expect(link.expiresAt.valueOf()).toBeLessThan(Date.now())
+
+    const res = await auth.handler(new Request(link.url))
+    expect(res.headers.get('location')).toBe('/welcome?error=token_expired')
+    expect(db.user![0]!.emailVerified).toBe(false)
+  })
+
+  it('mints a password reset token that resets the password', async () => {
+    const { client, send } = await createTestAuth()
+    const { user } = await client.createUser({ password: 'old-password' })
+
+    const link = await client.createPasswordResetLink(user.email)
+    expect(link.url).toBe(`http://localhost:3000/api/auth/reset-password/${link.token}?callbackURL=`)
+
+    const reset = await send('/reset-password', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: link.token, newPassword: 'new-password' }),
+    })
+    expect(reset.status).toBe(200)
+
+    const signIn = await send('/sign-in/email', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: user.email, password: 'new-password' }),
+    })
+    expect(signIn.status).toBe(200)
+  })
+
+  it('mints already-expired password reset tokens', async () => {
+    const { client, send } = await createTestAuth()
+    const { user } = await client.createUser({ password: 'old-password' })
+
+    const link = await client.createPasswordResetLink(user.email, { expiresIn: 0 })
+    const reset = await send('/reset-password', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: link.token, newPassword: 'new-password' }),
+    })
+    expect(reset.status).toBe(400)
+    expect(await reset.json()).toMatchObject({ code: 'INVALID_TOKEN' })
+  })
+
+  it('reports unknown users', async () => {
+    const { client } = await createTestAuth()
+    await expect(client.createVerificationLink('nobody@test.local')).rejects.toThrow(/createVerificationLink failed \(404\)/)
+    await expect(client.createPasswordResetLink('nobody@test.local')).rejects.toThrow(/createPasswordResetLink failed \(404\)/)
+  })
+})
+
+describe('endpoint authentication', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const path = '/test-data/delete-user'
+  const body = JSON.stringify({ email: 'nobody@test.local' })
+
+  async function signed(secret = SECRET): Promise<RequestInit> {
+    const headers = await createSignatureHeaders(secret, { method: 'POST', path: `/api/auth${path}`, body })
+    return { method: 'POST', headers: { ...headers, 'Content-Type': 'application/json' }, body }
+  }
+
+  function withSecret(secret: string, headers: Record<string, string> = {}): RequestInit {
+    return { method: 'POST', headers: { ...headers, 'Content-Type': 'application/json', 'X-Test-Secret': secret }, body }
+  }
+
+  // A 404 for the missing user means the request got past authentication
+  it('accepts signed requests', async () => {
+    const { send } = await createTestAuth()
+    const res = await send(path, await signed())
+    expect(res.status).toBe(404)
+    expect(await res.json()).toEqual({ error: 'User not found' })
+  })
+
+  it('rejects bad signatures and logs why', async () => {
+    const log = vi.fn()
+    const { send } = await createTestAuth({ auth: { logger: { level: 'warn', log } } })
+
+    expect((await send(path, await signed('wrong-secret'))).status).toBe(401)
+    const tampered = await signed()
+    expect((await send(path, { ...tampered, body: JSON.stringify({ email: 'other@test.local' }) })).status).toBe(401)
+    expect(log).toHaveBeenCalledWith('warn', expect.stringContaining('rejected /test-data/delete-user request: invalid signature'))
+  })
+
+  it('rejects stale and replayed requests', async () => {
+    const { send } = await createTestAuth({ test: { signatureMaxAge: 60 } })
+
+    const stale = await signed()
+    const headers = stale.headers as Record<string, string>
+    headers[TIMESTAMP_HEADER] = String(Date.now() - 120_000)
+    expect((await send(path, stale)).status).toBe(401)
+
+    const init = await signed()
+    expect((await send(path, init)).status).toBe(404)
+    expect((await send(path, init)).status).toBe(401)
+  })
+
+  it('accepts the X-Test-Secret header unless signatures are required', async () => {
+    const { send } = await createTestAuth()
+    expect((await send(path, withSecret(SECRET))).status).toBe(404)
+    expect((await send(path, withSecret('wrong-secret'))).status).toBe(401)
+
+    const strict = await createTestAuth({ test: { requireSignature: true } })
+    expect((await strict.send(path, withSecret(SECRET))).status).toBe(401)
+    expect((await strict.send(path, await signed())).status).toBe(404)
+  })
+
+  it('is disabled without a secret', async () => {
+    const { db, send } = await createTestAuth({ test: { secret: undefined } })
+    const res = await send('/test-data/user', {
+      ...withSecret(SECRET),
+      body: JSON.stringify({ email: 'a@test.local' }),
+    })
+    expect(res.status).toBe(404)
+    expect(db.user).toEqual([])
+  })
+
+  it('only accepts allowed client IPs and hosts', async () => {
+    const ips = await createTestAuth({ test: { allowedIPs: ['10.0.0.1'] } })
+    expect((await ips.send(path, withSecret(SECRET, { 'X-Forwarded-For': '10.0.0.1' }))).status).toBe(404)
+    expect((await ips.send(path, withSecret(SECRET, { 'X-Forwarded-For': '10.0.0.2' }))).status).toBe(403)
+
+    const hosts = await createTestAuth({ test: { allowedHosts: ['localhost'] } })
+    expect((await hosts.send(path, withSecret(SECRET))).status).toBe(404)
+    const elsewhere = await hosts.auth.handler(
+      new Request(`http://staging.example.com/api/auth${path}`, withSecret(SECRET)),
+    )
+    expect(elsewhere.status).toBe(403)
+  })
+})
+
+describe('/test-data/purge', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  function runClient(runId: string) {
+    return createTestDataClient({ baseURL: BASE_URL, secret: SECRET, runId })
+  }
+
+  function tagOf(db: Record<string, Record<string, unknown>[]>, email: string): Record<string, unknown> {
+    return db.verification!.find(record => JSON.parse(record.value as string).email === email)!
+  }
+
+  it('deletes every user of a run, beyond the adapter\'s default page size', async () => {
+    const { db } = await createTestAuth()
+    await runClient('run-a').createUsers(130, { session: false })
+    await runClient('run-b').createUsers(5, { session: false })
+
+    const result = await runClient('run-a').purge({ runId: 'run-a' })
+
+    expect(result.removed).toHaveLength(130)
+    expect(result.removed.every(tag => tag.runId === 'run-a' && tag.worker === null)).toBe(true)
+    expect(result.warnings).toEqual([])
+    expect(db.user).toHaveLength(5)
+    expect(db.verification).toHaveLength(5)
+  })
+
+  it('deletes users older than a given age', async () => {
+    const { client, db } = await createTestAuth()
+    const [old, recent] = await client.createUsers(2, { session: false })
+    const tag = tagOf(db, old!.user.email)
+    tag.value = JSON.stringify({ ...JSON.parse(tag.value as string), createdAt: new Date(Date.now() - 7200_000).toISOString() })
+
+    const result = await client.purge({ olderThan: 3600 })
+
+    expect(result.removed.map(removed => removed.email)).toEqual([old!.user.email])
+    expect(db.user!.map(user => user.email)).toEqual([recent!.user.email])
+  })
+
+  it('requires both filters to match when both are given', async () => {
+    const { db } = await createTestAuth()
+    await runClient('run-a').createUsers(2, { session: false })
+
+    const result = await runClient('run-a').purge({ runId: 'run-a', olderThan: 3600 })
+    expect(result.removed).toEqual([])
+    expect(db.user).toHaveLength(2)
+  })
+
+  it('only reports in a dry run', async () => {
+    const { db } = await createTestAuth()
+    const [created] = await runClient('run-a').createUsers(1, { session: false })
+
+    const result = await runClient('run-a').purge({ runId: 'run-a', dryRun: true })
+
+    expect(result.removed).toMatchObject([{ userId: created!.user.id, email: created!.user.email, runId: 'run-a' }])
+    expect(db.user).toHaveLength(1)
+    expect(db.verification).toHaveLength(1)
+  })
+
+  it('runs each plugin\'s cleanup and drops tags of users deleted elsewhere', async () => {
+    const onDeleteUser = vi.fn(async () => {})
+    const { auth, client, db } = await createTestAuth({
+      test: { plugins: [{ id: 'recorder', onCreateUser: async () => null, onDeleteUser }] },
+    })
+    const [kept, gone] = await client.createUsers(2, { session: false })
+    await (await auth.$context).internalAdapter.deleteUser(gone!.user.id)
+
+    const result = await client.purge({ olderThan: 0 })
+
+    expect(result.removed).toHaveLength(2)
+    expect(onDeleteUser).toHaveBeenCalledTimes(1)
+    expect(onDeleteUser).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ id: kept!.user.id }))
+    expect(db.user).toEqual([])
+    expect(db.verification).toEqual([])
+  })
+
+  it('needs a filter', async () => {
+    const { client } = await createTestAuth()
+    await expect(client.purge({})).rejects.toThrow(/purge failed \(400\): .*Pass runId, olderThan, or both/)
+  })
+
+  it('rejects unauthenticated and replayed requests', async () => {
+    const { client, db, send } = await createTestAuth()
+    await client.createUsers(1, { session: false })
+    const body = JSON.stringify({ olderThan: 0 })
+
+    const unsigned = await send('/test-data/purge', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body })
+    expect(unsigned.status).toBe(401)
+
+    const headers = await createSignatureHeaders(SECRET, { method: 'POST', path: '/api/auth/test-data/purge', body })
+    const init = { method: 'POST', headers: { ...headers, 'Content-Type': 'application/json' }, body }
+    expect((await send('/test-data/purge', init)).status).toBe(200)
+    expect(db.user).toEqual([])
+
+    await client.createUsers(1, { session: false })
+    expect((await send('/test-data/purge', init)).status).toBe(401)
+    expect(db.user).toHaveLength(1)
+  })
+})
+
+describe('user creation rollback', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  // Writes a row through the adapter it is given, then the next
+  // plugin fails
+  const onDeleteUser = vi.fn(async (ctx: AuthContext, user: User) => {
+    await ctx.adapter.deleteMany({ model: 'verification', where: [{ field: 'value', value: `note:${user.id}` }] })
+  })
+  const plugins = [
+    {
+      id: 'writer',
+      onCreateUser: async (ctx: CreateUserContext) => {
+        await ctx.authContext.internalAdapter.createVerificationValue({
+          identifier: 'note',
+          value: `note:${ctx.user.id}`,
+          expiresAt: new Date(Date.now() + 60_000),
+        })
+        return null
+      },
+      onDeleteUser,
+    },
+    {
+      id: 'failing',
+      onCreateUser: async () => {
+        throw new Error('boom')
+      },
+    },
+  ]
+
+  afterEach(() => {
+    onDeleteUser.mockClear()
+  })
+
+  async function createFailingUser(client: ReturnType<typeof createTestDataClient>): Promise<Record<string, any>> {
+    const error: Error = await client.createUser({ email: 'a@test.local', password: 'password' }).catch(err => err)
+    expect(error.message).toMatch(/createUser failed \(500\)/)
+    return JSON.parse(error.message.slice(error.message.indexOf('{')))
+  }
+
+  it('rolls everything back in a transaction', async () => {
+    const { client, db } = await createTestAuth({ test: { plugins } })
+
+    const body = await createFailingUser(client)
+
+    expect(body.error).toBe('Plugin "failing" failed: boom')
+    expect(body.rollback).toEqual({
+      strategy: 'transaction',
+      failedStep: 'plugin',
+      plugin: 'failing',
+      cleanedUp: ['database transaction'],
+      failures: [],
+    })
+    expect(onDeleteUser).not.toHaveBeenCalled()
+    expect(db.user).toEqual([])
+    expect(db.account).toEqual([])
+    expect(db.session).toEqual([])
+    expect(db.verification).toEqual([])
+  })
+
+  it('undoes each step without transactions', async () => {
+    const { client, db } = await createTestAuth({ test: { plugins }, transactions: false })
+
+    const body = await createFailingUser(client)
+
+    expect(body.rollback).toEqual({
+      strategy: 'cleanup',
+      failedStep: 'plugin',
+      plugin: 'failing',
+      cleanedUp: ['plugin "writer"', 'verification records', 'sessions', 'user and accounts'],
+      failures: [],
+    })
+    expect(onDeleteUser).toHaveBeenCalledTimes(1)
+    expect(db.user).toEqual([])
+    expect(db.account).toEqual([])
+    expect(db.session).toEqual([])
+    expect(db.verification).toEqual([])
+  })
 })
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { createSignatureHeaders, NONCE_HEADER, SIGNATURE_HEADER, signTestRequest, TIMESTAMP_HEADER } from '../src/signing.js'
+
+const request = {
+  method: 'POST',
+  path: '/api/auth/test-data/user',
+  body: '{"email":"a@test.local"}',
+  timestamp: 1_700_000_000_000,
+  nonce: 'n1',
+}
+
+describe('signTestRequest', () => {
+  it('produces a stable hex HMAC-SHA256', async () => {
+    const signature = await signTestRequest('shh', request)
+    expect(signature).toMatch(/^[0-9a-f]{64}$/)
+    expect(await signTestRequest('shh', request)).toBe(signature)
+  })
+
+  it('covers every signed part of the request', async () => {
+    const signature = await signTestRequest('shh', request)
+    for (const change of [
+      { method: 'GET' },
+      { path: '/api/auth/test-data/delete-user' },
+      { body: '{"email":"b@test.local"}' },
+      { timestamp: request.timestamp + 1 },
+      { nonce: 'n2' },
+    ]) {
+      expect(await signTestRequest('shh', { ...request, ...change })).not.toBe(signature)
+    }
+    expect(await signTestRequest('other', request)).not.toBe(signature)
+  })
+
+  it('treats the method case-insensitively', async () => {
+    expect(await signTestRequest('shh', { ...request, method: 'post' }))
+      .toBe(await signTestRequest('shh', request))
+  })
+})
+
+describe('createSignatureHeaders', () => {
+  it('signs with a fresh timestamp and nonce', async () => {
+    const headers = await createSignatureHeaders('shh', request)
+    const timestamp = Number(headers[TIMESTAMP_HEADER])
+    expect(Math.abs(Date.now() - timestamp)).toBeLessThan(5000)
+    expect(headers[SIGNATURE_HEADER]).toBe(await signTestRequest('shh', {
+      ...request,
+      timestamp,
+      nonce: headers[NONCE_HEADER]!,
+    }))
+    expect((await createSignatureHeaders('shh', request))[NONCE_HEADER]).not.toBe(headers[NONCE_HEADER])
+  })
+})
@@ -0,0 +1,72 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { saveStorageState } from '../src/storage-state.js'
+
+describe('saveStorageState', () => {
+  let dir: string
+  const fetchMock = vi.fn()
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'bap-'))
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(async () => {
+    vi.unstubAllGlobals()
+    fetchMock.mockReset()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('creates a user and writes its cookies as storageState', async () => {
+    const headers = new Headers()
+    headers.append('Set-Cookie', 'better-auth.session_token=abc.sig; Path=/; HttpOnly; SameSite=Lax')
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({
+      user: { id: 'u1', email: 'admin@test.local', name: 'admin' },
+      session: { id: 's1', token: 'abc' },
+      plugins: {},
+    }), { status: 200, headers }))
+
+    const path = join(dir, 'admin.json')
+    const result = await saveStorageState({
+      baseURL: 'http://localhost:3000/',
+      secret: 'shh',
+      role: 'admin',
+      path,
+      user: { email: 'admin@test.local' },
+    })
+
+    const [url, init] = fetchMock.mock.calls[0]!
+    expect(url).toBe('http://localhost:3000/api/auth/test-data/user')
+    expect(init.headers['x-test-signature']).toMatch(/^[0-9a-f]{64}$/)
+    expect(init.headers['X-Test-Secret']).toBeUndefined()
+    expect(JSON.parse(init.body).email).toBe('admin@test.local')
+
+    expect(result.user.id).toBe('u1')
+    expect(result.path).toBe(path)
+    const written = JSON.parse(await readFile(path, 'utf8'))
+    expect(written).toEqual(result.storageState)
+    expect(written.origins).toEqual([])
+    expect(written.cookies).toEqual([{
+      name: 'better-auth.session_token',
+      value: 'abc.sig',
+      domain: 'localhost',
+      path: '/',
+      expires: -1,
+      httpOnly: true,
+      secure: false,
+      sameSite: 'Lax',
+    }])
+  })
+
+  it('throws when user creation fails', async () => {
+    fetchMock.mockResolvedValue(new Response('Unauthorized', { status: 401 }))
+    await expect(saveStorageState({
+      baseURL: 'http://localhost:3000',
+      secret: 'wrong',
+      role: 'admin',
+      path: join(dir, 'admin.json'),
+    })).rejects.toThrow(/createUser failed \(401\)/)
+  })
+})
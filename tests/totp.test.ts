@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { generateTOTP } from '../src/totp.js'
+
+// RFC 6238 Appendix B test vectors (SHA-1)
+const RFC_SECRET = '12345678901234567890'
+
+describe('generateTOTP', () => {
+  it('matches RFC 6238 test vectors', async () => {
+    expect(await generateTOTP(RFC_SECRET, { digits: 8, timestamp: 59_000 })).toBe('94287082')
+    expect(await generateTOTP(RFC_SECRET, { digits: 8, timestamp: 1111111109_000 })).toBe('07081804')
+    expect(await generateTOTP(RFC_SECRET, { digits: 8, timestamp: 2000000000_000 })).toBe('69279037')
+  })
+
+  it('defaults to 6 digits', async () => {
+    expect(await generateTOTP(RFC_SECRET, { timestamp: 59_000 })).toBe('287082')
+  })
+
+  it('uses the period to derive the counter', async () => {
+    const a = await generateTOTP(RFC_SECRET, { period: 60, timestamp: 0 })
+    const b = await generateTOTP(RFC_SECRET, { period: 60, timestamp: 59_000 })
+    const c = await generateTOTP(RFC_SECRET, { period: 60, timestamp: 60_000 })
+    expect(a).toBe(b)
+    expect(a).not.toBe(c)
+  })
+})
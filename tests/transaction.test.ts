@@ -0,0 +1,37 @@
+import type { DBAdapter } from 'better-auth'
+import { getCurrentAdapter } from 'better-auth'
+import { memoryAdapter } from 'better-auth/adapters/memory'
+import { describe, expect, it } from 'vitest'
+import { supportsTransactions, withTransaction } from '../src/transaction.js'
+
+describe('supportsTransactions', () => {
+  it('is false for adapters without transactions', () => {
+    const adapter = { options: { adapterConfig: { transaction: false } } } as unknown as DBAdapter
+    expect(supportsTransactions(adapter)).toBe(false)
+  })
+
+  it('is true for the memory adapter', () => {
+    expect(supportsTransactions(memoryAdapter({ user: [] })({}) as DBAdapter)).toBe(true)
+  })
+})
+
+describe('withTransaction', () => {
+  it('makes the transaction adapter the current one', async () => {
+    const adapter = memoryAdapter({ user: [] })({}) as DBAdapter
+    await withTransaction(adapter, async (trx) => {
+      expect(trx).not.toBe(adapter)
+      expect(await getCurrentAdapter(adapter)).toBe(trx)
+    })
+    expect(await getCurrentAdapter(adapter)).toBe(adapter)
+  })
+
+  it('rolls back when the callback throws', async () => {
+    const db = { user: [] as Record<string, unknown>[] }
+    const adapter = memoryAdapter(db)({}) as DBAdapter
+    await expect(withTransaction(adapter, async (trx) => {
+      await trx.create({ model: 'user', data: { email: 'a@test.local', name: 'A' } })
+      throw new Error('boom')
+    })).rejects.toThrow('boom')
+    expect(db.user).toEqual([])
+  })
+})
@@ -0,0 +1,50 @@
+import type { DBFieldAttribute } from 'better-auth'
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod/v4'
+import { parseAdditionalUserFields } from '../src/user-fields.js'
+
+const fields: Record<string, DBFieldAttribute> = {
+  plan: { type: ['free', 'pro'], input: false, defaultValue: 'free' },
+  locale: { type: 'string', required: false },
+  seats: { type: 'number', required: false },
+  trialEndsAt: { type: 'date', required: false },
+  tags: { type: 'string[]', required: false },
+}
+
+describe('parseAdditionalUserFields', () => {
+  it('accepts configured fields, including input: false ones', () => {
+    expect(parseAdditionalUserFields(fields, { plan: 'pro', locale: 'de', seats: 3, tags: ['a'] }))
+      .toEqual({ plan: 'pro', locale: 'de', seats: 3, tags: ['a'] })
+  })
+
+  it('converts ISO strings for date fields', () => {
+    const parsed = parseAdditionalUserFields(fields, { trialEndsAt: '2030-01-01T00:00:00.000Z' })
+    expect(parsed.trialEndsAt).toEqual(new Date('2030-01-01T00:00:00.000Z'))
+    expect(() => parseAdditionalUserFields(fields, { trialEndsAt: 'soon' })).toThrow(/"trialEndsAt" must be a date/)
+  })
+
+  it('rejects unknown fields and lists the configured ones', () => {
+    expect(() => parseAdditionalUserFields(fields, { foo: 1 }))
+      .toThrow('unknown user field(s) "foo"; configured additionalFields: plan, locale, seats, trialEndsAt, tags')
+    expect(() => parseAdditionalUserFields({}, { foo: 1 })).toThrow(/configured additionalFields: \(none\)/)
+  })
+
+  it('checks types', () => {
+    expect(() => parseAdditionalUserFields(fields, { plan: 'enterprise' })).toThrow('field "plan" must be one of "free", "pro"')
+    expect(() => parseAdditionalUserFields(fields, { seats: '3' })).toThrow('field "seats" must be a number')
+    expect(() => parseAdditionalUserFields(fields, { tags: [1] })).toThrow('field "tags" must be an array of strings')
+  })
+
+  it('runs the field validator', () => {
+    const validated = { locale: { type: 'string', validator: { input: z.string().length(2) } } } as Record<string, DBFieldAttribute>
+    expect(parseAdditionalUserFields(validated, { locale: 'de' })).toEqual({ locale: 'de' })
+    expect(() => parseAdditionalUserFields(validated, { locale: 'deu' })).toThrow(/field "locale": /)
+  })
+
+  it('requires required fields without a default', () => {
+    const required: Record<string, DBFieldAttribute> = { company: { type: 'string', required: true } }
+    expect(() => parseAdditionalUserFields(required, {})).toThrow('field "company" is required')
+    expect(() => parseAdditionalUserFields(required, { company: null })).toThrow(/cannot be null/)
+    expect(parseAdditionalUserFields(fields, { locale: null })).toEqual({ locale: null })
+  })
+})
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import pkg from '../package.json'
+import { isCompatibleVersion, VERSION } from '../src/version.js'
+
+describe('vERSION', () => {
+  it('is the package version', () => {
+    expect(VERSION).toBe(pkg.version)
+  })
+})
+
+describe('isCompatibleVersion', () => {
+  it('requires the same major version', () => {
+    expect(isCompatibleVersion('1.2.0', '1.5.3')).toBe(true)
+    expect(isCompatibleVersion('1.2.0', '2.0.0')).toBe(false)
+  })
+
+  it('requires the same minor version before 1.0', () => {
+    expect(isCompatibleVersion('0.3.0', '0.3.4')).toBe(true)
+    expect(isCompatibleVersion('0.3.0', '0.2.0')).toBe(false)
+  })
+})
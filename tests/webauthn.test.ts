@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { createVirtualAuthenticator } from '../src/webauthn.js'
+
+function mockPage(credentials: any[] = []) {
+  const calls: [string, any][] = []
+  const session = {
+    send: async (method: string, params: any) => {
+      calls.push([method, params])
+      if (method === 'WebAuthn.addVirtualAuthenticator')
+        return { authenticatorId: 'auth-1' }
+      if (method === 'WebAuthn.getCredentials')
+        return { credentials }
+      return {}
+    },
+    detach: async () => {
+      calls.push(['detach', undefined])
+    },
+  }
+  const page = { context: () => ({ newCDPSession: async () => session }) } as any
+  return { page, calls }
+}
+
+const passkey = {
+  credentialId: 'ab-_cd',
+  rpId: 'localhost',
+  userHandle: 'dXNlci0x',
+  privateKey: 'cHJpdmF0ZQ',
+}
+
+describe('createVirtualAuthenticator', () => {
+  it('adds a verifying platform authenticator by default', async () => {
+    const { page, calls } = mockPage()
+    const authenticator = await createVirtualAuthenticator(page)
+    expect(authenticator.id).toBe('auth-1')
+    expect(calls[1]).toEqual(['WebAuthn.addVirtualAuthenticator', {
+      options: expect.objectContaining({
+        protocol: 'ctap2',
+        transport: 'internal',
+        hasResidentKey: true,
+        hasUserVerification: true,
+        isUserVerified: true,
+        automaticPresenceSimulation: true,
+      }),
+    }])
+  })
+
+  it('loads passkeys with standard base64 for CDP', async () => {
+    const { page, calls } = mockPage()
+    await createVirtualAuthenticator(page, { passkeys: [passkey] })
+    expect(calls[2]).toEqual(['WebAuthn.addCredential', {
+      authenticatorId: 'auth-1',
+      credential: {
+        credentialId: 'ab+/cd==',
+        isResidentCredential: true,
+        rpId: 'localhost',
+        privateKey: 'cHJpdmF0ZQ==',
+        userHandle: 'dXNlci0x',
+        signCount: 0,
+      },
+    }])
+  })
+
+  it('lists credentials as base64url', async () => {
+    const { page } = mockPage([
+      { credentialId: 'ab+/cd==', rpId: 'localhost', userHandle: 'dXNlci0x', privateKey: 'cHJpdmF0ZQ==', signCount: 3, isResidentCredential: true },
+    ])
+    const authenticator = await createVirtualAuthenticator(page)
+    expect(await authenticator.passkeys()).toEqual([{ ...passkey, signCount: 3 }])
+  })
+
+  it('toggles user verification and removes itself', async () => {
+    const { page, calls } = mockPage()
+    const authenticator = await createVirtualAuthenticator(page, { userVerified: false })
+    await authenticator.setUserVerified(true)
+    await authenticator.remove()
+    expect(calls.slice(2)).toEqual([
+      ['WebAuthn.setUserVerified', { authenticatorId: 'auth-1', isUserVerified: true }],
+      ['WebAuthn.removeVirtualAuthenticator', { authenticatorId: 'auth-1' }],
+      ['detach', undefined],
+    ])
+  })
+
+  it('explains that other browsers are unsupported', async () => {
+    const newCDPSession = async (): Promise<never> => {
+      throw new Error('not supported')
+    }
+    const page = { context: () => ({ newCDPSession }) } as any
+    await expect(createVirtualAuthenticator(page)).rejects.toThrow(/require Chromium/)
+  })
+})
@@ -1,15 +1,25 @@
+import { readFileSync } from 'node:fs'
 import { defineConfig } from 'tsdown'
 
+const { version } = JSON.parse(readFileSync(new URL('./package.json', import.meta.url), 'utf8'))
+
 export default defineConfig({
   entry: ['src/index.ts', 'src/server.ts'],
   format: 'esm',
   dts: true,
   exports: true,
+  define: {
+    __VERSION__: JSON.stringify(version),
+  },
   external: [
     'better-auth',
+    'better-auth/api',
     'better-auth/cookies',
+    'better-auth/crypto',
+    'better-auth/oauth2',
     'better-auth/plugins',
+    '@better-auth/core/context',
     '@playwright/test',
-    'zod',
+    'zod/v4',
   ],
 })
@@ -1,10 +1,20 @@
+import { readFileSync } from 'node:fs'
 import { defineConfig } from 'vitest/config'
 
+const { version } = JSON.parse(readFileSync(new URL('./package.json', import.meta.url), 'utf8'))
+
 export default defineConfig({
+  define: {
+    __VERSION__: JSON.stringify(version),
+  },
   test: {
     reporters: ['default', 'junit'],
     outputFile: {
       junit: './test-results/results.xml',
     },
+    typecheck: {
+      enabled: true,
+      tsconfig: './tests/tsconfig.json',
+    },
   },
 })